@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SUPPORTED_IMAGE_FORMATS } from '../types/formats';
 
 const envSchema = z.object({
   // Server
@@ -14,9 +15,34 @@ const envSchema = z.object({
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(100),
   MEDIA_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(30),
 
+  // Image processing (default output format when the caller omits format=; "auto" negotiates from Accept)
+  IMAGE_DEFAULT_FORMAT: z.enum(['auto', ...SUPPORTED_IMAGE_FORMATS]).default('jpg'),
+  // Named /image/convert presets: JSON object added to (or replacing) the built-in ones
+  IMAGE_PRESETS: z.string().default(''),
+  // Largest image (width × height) sharp will decode; bigger inputs are rejected before they can exhaust memory
+  IMAGE_MAX_INPUT_PIXELS: z.coerce.number().int().positive().default(50 * 1024 * 1024),
+  // Upload policies: JSON object of named policies added to (or replacing) the built-in ones, and the
+  // policy applied when a request names none (unset: uploads are only checked when policy= is given)
+  IMAGE_UPLOAD_POLICIES: z.string().default(''),
+  IMAGE_DEFAULT_UPLOAD_POLICY: z.string().min(1).optional(),
+  // Directory of named watermark assets (<name>.png / .webp / .svg) for watermark=<name>
+  WATERMARK_ASSETS_DIR: z.string().min(1).default('assets/watermarks'),
+  // Share card templates (<name>.json layout + <name>.svg design) for /v1/image/card
+  CARD_TEMPLATES_DIR: z.string().min(1).default('assets/cards'),
+  // Signed GET transformations (/v1/image/t): HMAC key, allowed source origins (comma-separated) and fetch timeout
+  IMAGE_URL_SIGNING_KEY: z.string().min(16).optional(),
+  IMAGE_SOURCE_ALLOWED_ORIGINS: z.string().default(''),
+  IMAGE_FETCH_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  // Files /v1/image/batch converts at the same time (each holds its decoded pixels in memory)
+  IMAGE_BATCH_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(2),
+
   // Audio processing
   AUDIOWAVEFORM_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
   AUDIO_DURATION_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+  // ffprobe metadata read plus ffmpeg cover art extraction for /audio/info
+  AUDIO_INFO_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  AUDIO_CONVERT_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
+  AUDIO_PREVIEW_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
   AUDIOWAVEFORM_PIXELS_PER_SECOND: z.coerce.number().int().positive().default(10),
   AUDIOWAVEFORM_BITS: z.coerce.number().int().min(8).max(16).default(8),
 
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { env } from './env';
+import { loadJsonConfig, parseJsonConfig } from './jsonConfig';
+import { IMAGE_PRESET_NAME_PATTERN, ImagePreset, imagePresetSchema } from '../types';
+
+export const BUILT_IN_IMAGE_PRESETS: Record<string, ImagePreset> = {
+  // Release artwork for track and album pages
+  'album-cover-800': {
+    description: 'Square 800px album cover as WebP',
+    options: { format: 'webp', width: '800', height: '800', fit: 'cover', quality: '82' },
+    allowOverrides: ['format', 'quality'],
+  },
+  // Profile pictures: square, cropped to the most salient region
+  'avatar-128': {
+    description: 'Square 128px avatar as WebP, cropped around faces and other salient detail',
+    options: { format: 'webp', width: '128', height: '128', fit: 'cover', crop: 'attention' },
+    allowOverrides: ['format'],
+  },
+  // Full-width page headers on high-density screens
+  'hero-2x': {
+    description: '2880px-wide hero image for 2x displays, format negotiated from Accept',
+    options: { format: 'auto', width: '2880', fit: 'inside', quality: '70' },
+    allowOverrides: ['width', 'quality', 'maxBytes'],
+  },
+};
+
+const imagePresetsSchema = z.record(
+  z.string().regex(IMAGE_PRESET_NAME_PATTERN, 'Expected a preset name (lowercase letters, digits, - and _)'),
+  imagePresetSchema
+);
+
+/**
+ * IMAGE_PRESETS merged over the built-in presets. Every preset's options must
+ * pass /image/convert validation.
+ */
+export function parseImagePresets(json: string): Record<string, ImagePreset> {
+  return parseJsonConfig('IMAGE_PRESETS', imagePresetsSchema, json, BUILT_IN_IMAGE_PRESETS);
+}
+
+export const imagePresets = loadJsonConfig('Image preset', () => parseImagePresets(env.IMAGE_PRESETS));
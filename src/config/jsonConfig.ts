@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * Merges a JSON object of named entries from the `envName` variable over the
+ * built-in ones (an entry with a built-in name replaces it), validating each
+ * with `schema`. Throws with one line per problem, prefixed with the variable
+ * name and the entry's path.
+ */
+export function parseJsonConfig<T>(
+  envName: string,
+  schema: z.ZodType<Record<string, T>>,
+  json: string,
+  builtIns: Record<string, T>
+): Record<string, T> {
+  let configured: Record<string, T> = {};
+  if (json.trim()) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`${envName}: invalid JSON (${error instanceof Error ? error.message : error})`);
+    }
+    const result = schema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) => `${envName}.${issue.path.join('.')}: ${issue.message}`);
+      throw new Error(issues.join('\n'));
+    }
+    configured = result.data;
+  }
+  return { ...builtIns, ...configured };
+}
+
+/** Runs `parse` at startup, exiting like env validation when the config is invalid. */
+export function loadJsonConfig<T>(label: string, parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    console.error(`${label} validation failed:\n  ` + (error instanceof Error ? error.message : error));
+    process.exit(1);
+  }
+}
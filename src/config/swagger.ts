@@ -1,5 +1,14 @@
 import swaggerJsdoc from 'swagger-jsdoc';
 import { SUPPORTED_IMAGE_FORMATS, SUPPORTED_AUDIO_FORMATS, VALID_FIT_OPTIONS, DEBUG_LEVELS } from '../types';
+import { uploadPolicies } from './uploadPolicies';
+import { imagePresets } from './imagePresets';
+
+// One line per preset in the parameter description, so the spec shows what each name expands to
+const presetSummaries = Object.entries(imagePresets).map(([name, preset]) => {
+  const options = new URLSearchParams(preset.options).toString();
+  const overrides = preset.allowOverrides.length > 0 ? preset.allowOverrides.join(', ') : 'none';
+  return `- \`${name}\`: \`${options}\` (overridable: ${overrides})`;
+});
 
 const options: swaggerJsdoc.Options = {
   definition: {
@@ -75,6 +84,178 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        AudioWaveform: {
+          type: 'object',
+          description: 'audiowaveform JSON layout, readable by peaks.js and wavesurfer.js',
+          properties: {
+            version: { type: 'integer', example: 2 },
+            channels: { type: 'integer', example: 2 },
+            sample_rate: { type: 'integer', example: 44100 },
+            samples_per_pixel: {
+              type: 'integer',
+              description: 'Audio samples summarised by each pixel (rescaled when resampled)',
+              example: 4410,
+            },
+            bits: { type: 'integer', enum: [8, 16] },
+            length: { type: 'integer', description: 'Number of pixels' },
+            data: {
+              type: 'array',
+              items: { type: 'integer' },
+              description:
+                'Signed min/max pairs per pixel, one pair per channel in channel order: [c0min, c0max, c1min, c1max, ...]',
+              example: [-65, 63, -52, 58],
+            },
+          },
+        },
+        AudioInfo: {
+          type: 'object',
+          properties: {
+            container: { type: 'string', description: 'ffprobe format name', example: 'flac' },
+            containerLongName: { type: 'string', nullable: true, example: 'raw FLAC' },
+            codec: { type: 'string', example: 'flac' },
+            codecLongName: { type: 'string', nullable: true },
+            profile: { type: 'string', nullable: true, example: 'LC' },
+            lossless: { type: 'boolean', description: 'PCM or a lossless codec (FLAC, ALAC, ...)' },
+            bitRate: { type: 'integer', nullable: true, description: 'Bits per second', example: 912000 },
+            sampleRate: { type: 'integer', nullable: true, example: 44100 },
+            channels: { type: 'integer', nullable: true, example: 2 },
+            channelLayout: { type: 'string', nullable: true, example: 'stereo' },
+            bitDepth: {
+              type: 'integer',
+              nullable: true,
+              description: 'Only known for PCM and lossless codecs',
+              example: 24,
+            },
+            durationSeconds: { type: 'number', nullable: true, example: 215.4 },
+            tags: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Every tag of the file and of the audio stream, as ffprobe names them',
+            },
+            track: {
+              type: 'object',
+              description: 'Common tags, looked up under their ID3v2, Vorbis comment and MP4 names',
+              properties: {
+                title: { type: 'string', nullable: true },
+                artist: { type: 'string', nullable: true },
+                album: { type: 'string', nullable: true },
+                albumArtist: { type: 'string', nullable: true },
+                date: { type: 'string', nullable: true },
+                genre: { type: 'string', nullable: true },
+                trackNumber: { type: 'string', nullable: true, example: '3/12' },
+                isrc: { type: 'string', nullable: true, example: 'GBAYE0601498' },
+              },
+            },
+            coverArt: {
+              type: 'object',
+              nullable: true,
+              description: 'Embedded cover art, downloadable with output=cover',
+              properties: {
+                codec: { type: 'string', example: 'mjpeg' },
+                width: { type: 'integer', nullable: true },
+                height: { type: 'integer', nullable: true },
+              },
+            },
+          },
+        },
+        PaletteColor: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            hex: { type: 'string', example: '#fe6b35' },
+            rgb: {
+              type: 'object',
+              properties: {
+                r: { type: 'integer' },
+                g: { type: 'integer' },
+                b: { type: 'integer' },
+              },
+            },
+            hsl: {
+              type: 'object',
+              properties: {
+                h: { type: 'integer', description: 'Hue in degrees' },
+                s: { type: 'number' },
+                l: { type: 'number' },
+              },
+            },
+            population: {
+              type: 'integer',
+              description: 'Sampled pixels in this colour cluster',
+            },
+            share: {
+              type: 'number',
+              description: 'Fraction of the opaque sampled pixels',
+            },
+          },
+        },
+        ImagePreset: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', example: 'album-cover-800' },
+            description: { type: 'string' },
+            options: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: '/v1/image/convert query parameters the preset sets',
+              example: { format: 'webp', width: '800', height: '800', fit: 'cover', quality: '82' },
+            },
+            allowOverrides: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Parameters a caller may pass alongside the preset; any other convert parameter is rejected',
+              example: ['format', 'quality'],
+            },
+          },
+        },
+        UploadPolicyError: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', example: 'Image rejected by upload policy' },
+            policy: { type: 'string', example: 'cover' },
+            details: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'One entry per failed rule, prefixed with the rule name',
+              example: ['minWidth: width 800px is below 1400px', 'maxAspect: aspect ratio 1.5 is above 1.01'],
+            },
+          },
+        },
+      },
+      parameters: {
+        ImagePreset: {
+          name: 'preset',
+          in: 'query',
+          description: [
+            'Named set of convert options (see GET /v1/image/presets). Other convert parameters may only be passed when the preset allows overriding them, and then win over its values.',
+            '',
+            ...presetSummaries,
+          ].join('\n'),
+          schema: {
+            type: 'string',
+            enum: Object.keys(imagePresets),
+          },
+        },
+        UploadPolicy: {
+          name: 'policy',
+          in: 'query',
+          description:
+            'Named upload policy the image must meet (file type from its leading bytes, dimensions, aspect ratio, megapixels). Defaults to IMAGE_DEFAULT_UPLOAD_POLICY; without either, uploads are not checked.',
+          schema: {
+            type: 'string',
+            enum: Object.keys(uploadPolicies),
+          },
+        },
+      },
+      responses: {
+        UploadPolicyRejected: {
+          description: 'The upload does not meet the upload policy',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/UploadPolicyError' },
+            },
+          },
+        },
       },
     },
     tags: [
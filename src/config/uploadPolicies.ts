@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { env } from './env';
+import { loadJsonConfig, parseJsonConfig } from './jsonConfig';
+import { ImageUploadPolicy, UPLOAD_POLICY_NAME_PATTERN, imageUploadPolicySchema } from '../types';
+
+// Formats browsers and phones produce; TIFF and SVG only where a policy asks for them
+const PHOTO_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'heic'] as const;
+
+export const BUILT_IN_UPLOAD_POLICIES: Record<string, ImageUploadPolicy> = {
+  // Profile pictures: roughly square and large enough for high-density displays
+  avatar: {
+    formats: [...PHOTO_FORMATS],
+    minWidth: 200,
+    minHeight: 200,
+    maxWidth: 6000,
+    maxHeight: 6000,
+    minAspect: 0.8,
+    maxAspect: 1.25,
+    maxMegapixels: 24,
+  },
+  // Release artwork: square and at least the 1400px streaming stores ask for
+  cover: {
+    formats: [...PHOTO_FORMATS],
+    minWidth: 1400,
+    minHeight: 1400,
+    maxWidth: 6000,
+    maxHeight: 6000,
+    minAspect: 0.99,
+    maxAspect: 1.01,
+    maxMegapixels: 36,
+  },
+  // Press photos: print-ready resolution in any common orientation, TIFF allowed
+  press: {
+    formats: [...PHOTO_FORMATS, 'tiff'],
+    minWidth: 1500,
+    minHeight: 1500,
+    minAspect: 0.5,
+    maxAspect: 2,
+    maxMegapixels: 50,
+  },
+};
+
+const uploadPoliciesSchema = z.record(
+  z.string().regex(UPLOAD_POLICY_NAME_PATTERN, 'Expected a policy name (lowercase letters, digits, - and _)'),
+  imageUploadPolicySchema
+);
+
+/**
+ * IMAGE_UPLOAD_POLICIES merged over the built-in policies, checking that the
+ * default policy, if any, exists.
+ */
+export function parseUploadPolicies(json: string, defaultPolicy?: string): Record<string, ImageUploadPolicy> {
+  const policies = parseJsonConfig('IMAGE_UPLOAD_POLICIES', uploadPoliciesSchema, json, BUILT_IN_UPLOAD_POLICIES);
+  if (defaultPolicy && !policies[defaultPolicy]) {
+    throw new Error(`IMAGE_DEFAULT_UPLOAD_POLICY: unknown policy "${defaultPolicy}"`);
+  }
+  return policies;
+}
+
+export const uploadPolicies = loadJsonConfig('Upload policy', () =>
+  parseUploadPolicies(env.IMAGE_UPLOAD_POLICIES, env.IMAGE_DEFAULT_UPLOAD_POLICY)
+);
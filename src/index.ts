@@ -12,6 +12,7 @@ import { notFoundHandler, globalErrorHandler } from './middleware/errorHandler';
 
 import healthRouter from './routes/health';
 import imageRouter from './routes/image';
+import transformRouter from './routes/transform';
 import audioRouter from './routes/audio';
 import odesliRouter from './routes/odesli';
 
@@ -44,6 +45,9 @@ app.get('/api-docs.json', (_req, res) => {
 // Health check (no auth required)
 app.use(healthRouter);
 
+// Signed image transformations (authenticated by the URL signature, not the API key)
+app.use('/v1', transformRouter);
+
 // Apply API key middleware to versioned routes
 app.use('/v1', apiKeyMiddleware);
 
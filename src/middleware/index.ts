@@ -2,3 +2,5 @@ export { apiKeyMiddleware } from './auth';
 export { corsMiddleware } from './cors';
 export { rateLimitMiddleware, mediaRateLimitMiddleware } from './rateLimit';
 export { notFoundHandler, globalErrorHandler } from './errorHandler';
+export { createDiskUpload, cleanupUploads, IMAGE_UPLOAD_MAX_BYTES, AUDIO_UPLOAD_MAX_BYTES } from './upload';
+export { resolveUploadPolicy, enforceUploadPolicy } from './uploadPolicy';
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import crypto from 'crypto';
+import os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import logger from '../utils/logger';
+
+export const IMAGE_UPLOAD_MAX_BYTES = 20 * 1024 * 1024;
+export const AUDIO_UPLOAD_MAX_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Temp-file name for an upload. The original extension is kept only when it
+ * is in `allowedExtensions` (audiowaveform picks its decoder from it); other
+ * names never reach the file system.
+ */
+export function uploadFileName(
+  prefix: string,
+  originalName: string,
+  allowedExtensions: readonly string[] = []
+): string {
+  const ext = path.extname(originalName).toLowerCase().slice(1);
+  const suffix = allowedExtensions.includes(ext) ? `.${ext}` : '';
+  return `${prefix}_${Date.now()}_${crypto.randomBytes(8).toString('hex')}${suffix}`;
+}
+
+/**
+ * Multer instance that streams uploads straight to files in the OS temp
+ * directory instead of buffering them, so a request holds at most one chunk
+ * of the upload in memory. Routes read `file.path`; pair it with
+ * `cleanupUploads` so the files are removed once the response is done.
+ */
+export function createDiskUpload(options: {
+  prefix: string;
+  maxFileSize: number;
+  allowedExtensions?: readonly string[];
+}): multer.Multer {
+  return multer({
+    storage: multer.diskStorage({
+      destination: os.tmpdir(),
+      filename: (_req, file, cb) =>
+        cb(null, uploadFileName(options.prefix, file.originalname, options.allowedExtensions)),
+    }),
+    limits: {
+      fileSize: options.maxFileSize,
+    },
+  });
+}
+
+export function uploadedFiles(req: Request): Express.Multer.File[] {
+  if (req.file) return [req.file];
+  if (Array.isArray(req.files)) return req.files;
+  return req.files ? Object.values(req.files).flat() : [];
+}
+
+/**
+ * Deletes the request's uploaded temp files when the response closes, whether
+ * it finished, failed or the client went away. Mount it before the multer
+ * middleware; multer itself removes partial files when an upload is rejected.
+ */
+export function cleanupUploads(req: Request, res: Response, next: NextFunction): void {
+  res.on('close', () => {
+    for (const file of uploadedFiles(req)) {
+      if (!file.path) continue;
+      fs.unlink(file.path).catch((err: NodeJS.ErrnoException) => {
+        if (err.code !== 'ENOENT') {
+          logger.warn({ err, path: file.path }, 'Failed to remove uploaded file');
+        }
+      });
+    }
+  });
+  next();
+}
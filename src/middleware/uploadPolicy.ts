@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { env } from '../config/env';
+import { uploadPolicies } from '../config/uploadPolicies';
+import { ImageUploadPolicy, uploadPolicyQuerySchema } from '../types';
+import { checkImagePolicy } from '../utils/imagePolicy';
+import logger from '../utils/logger';
+import { uploadedFiles } from './upload';
+
+export type ResolvedUploadPolicy =
+  { ok: true; name?: string; policy?: ImageUploadPolicy } | { ok: false; details: string[] };
+
+/**
+ * The policy a request asks for with `policy=`, else IMAGE_DEFAULT_UPLOAD_POLICY.
+ * Without either, `policy` is undefined and uploads are not checked.
+ */
+export function resolveUploadPolicy(query: unknown): ResolvedUploadPolicy {
+  const result = uploadPolicyQuerySchema.safeParse(query);
+  if (!result.success) {
+    return { ok: false, details: result.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`) };
+  }
+  const name = result.data.policy ?? env.IMAGE_DEFAULT_UPLOAD_POLICY;
+  if (!name) return { ok: true };
+  const policy = uploadPolicies[name];
+  if (!policy) {
+    return { ok: false, details: [`policy: unknown policy "${name}"`] };
+  }
+  return { ok: true, name, policy };
+}
+
+/**
+ * Checks the uploads in `fields` against the request's upload policy and
+ * answers 422 with every failed rule when any of them falls short. Mount it
+ * after the multer middleware; other fields (e.g. watermarks) are not checked.
+ */
+export function enforceUploadPolicy(fields: readonly string[]) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const resolved = resolveUploadPolicy(req.query);
+    if (!resolved.ok) {
+      res.status(400).json({ error: 'Invalid parameters', details: resolved.details });
+      return;
+    }
+    const { name, policy } = resolved;
+    const files = uploadedFiles(req).filter((file) => fields.includes(file.fieldname));
+    if (!policy || files.length === 0) {
+      next();
+      return;
+    }
+
+    const details: string[] = [];
+    for (const [index, file] of files.entries()) {
+      const check = await checkImagePolicy(file.path, policy);
+      // Rules are prefixed with the field (images[1].minWidth) only when several files were checked
+      const label = Array.isArray(req.files) ? `${file.fieldname}[${index}]` : file.fieldname;
+      details.push(...check.failures.map((failure) => (files.length > 1 ? `${label}.${failure}` : failure)));
+    }
+
+    if (details.length > 0) {
+      logger.warn({ path: req.path, policy: name, details }, 'Upload rejected by policy');
+      res.status(422).json({ error: 'Image rejected by upload policy', policy: name, details });
+      return;
+    }
+    next();
+  };
+}
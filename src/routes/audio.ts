@@ -1,39 +1,102 @@
 import { Router, Request, Response } from 'express';
-import multer from 'multer';
 import crypto from 'crypto';
+import * as fs from 'fs';
 import * as path from 'path';
 import {
+  audioConvertQuerySchema,
+  audioInfoQuerySchema,
   audioPeaksQuerySchema,
+  audioPreviewQuerySchema,
+  audioWaveformImageQuerySchema,
+  AUDIO_CONTENT_TYPES,
+  CONTENT_TYPE_MAP,
+  IMAGE_CONVERT_OPTIONS,
   SUPPORTED_AUDIO_FORMATS,
+  AudioFormat,
+  AudioPreview,
+  AudioWaveformData,
   DebugInfo,
+  ImageConvertQuery,
 } from '../types';
 import {
-  detectAudioFormat,
+  detectAudioFileFormat,
   extractPeaksWithAudiowaveform,
-  createTempAudioFile,
+  extractWaveformWithAudiowaveform,
+  resampleWaveform,
+  waveformToPeaks,
+  encodeWaveformDat,
+  negotiateWaveformFormat,
+  extractCoverArt,
+  probeAudio,
+  buildAudioConvertArgs,
+  runAudioConversion,
+  findLoudestSection,
+  previewWindow,
+  buildAudioPreviewArgs,
+  runAudioPreview,
+  pcmPeaks,
+  tempAudioPath,
   cleanupTempFile,
   getAudioDurationSeconds,
   validateAudioExtension,
 } from '../utils/audio';
-import { createDebugInfo, recordStep } from '../utils/debug';
+import { BundleEntry, createZipBundle, createMultipartBundle, createMultipartBoundary } from '../utils/bundle';
+import { createDebugInfo, recordStep, encodeDebugInfo } from '../utils/debug';
+import { WAVEFORM_CONTENT_TYPES, renderWaveformImage, waveformPointCount } from '../utils/waveform';
+import { convertImage } from '../utils/convert';
+import { detectImageFormat } from '../utils/image';
+import { parseImageConvertQuery } from '../utils/preset';
 import logger from '../utils/logger';
 import { mediaRateLimitMiddleware } from '../middleware/rateLimit';
+import { createDiskUpload, cleanupUploads, AUDIO_UPLOAD_MAX_BYTES } from '../middleware/upload';
 
 const router = Router();
 
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
-  },
+// Uploads are written to temp files named like createTempAudioFile's (extension
+// kept for audiowaveform), which the tools then read directly
+const upload = createDiskUpload({
+  prefix: 'audio',
+  maxFileSize: AUDIO_UPLOAD_MAX_BYTES,
+  allowedExtensions: SUPPORTED_AUDIO_FORMATS,
 });
 
+/**
+ * Checks an upload's extension and signature (magic bytes) against the
+ * supported audio formats, recording both steps.
+ */
+async function checkAudioUpload(
+  file: Express.Multer.File,
+  debugInfo: DebugInfo | undefined
+): Promise<{ ok: true; ext: string; detectedFormat: AudioFormat | null } | { ok: false; error: string }> {
+  const extStart = Date.now();
+  const ext = path.extname(file.originalname).toLowerCase().slice(1);
+  if (ext && !validateAudioExtension(ext)) {
+    return {
+      ok: false,
+      error: `Unsupported audio format: ${ext}. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+    };
+  }
+  recordStep(debugInfo, 'validate_extension', extStart);
+
+  const detectStart = Date.now();
+  const detectedFormat = await detectAudioFileFormat(file.path);
+  if (detectedFormat && !validateAudioExtension(detectedFormat)) {
+    return {
+      ok: false,
+      error: `Unsupported audio format: ${detectedFormat}. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
+    };
+  }
+  recordStep(debugInfo, 'detect_format', detectStart);
+
+  return { ok: true, ext, detectedFormat };
+}
+
 /**
  * @openapi
  * /v1/audio/peaks:
  *   post:
  *     summary: Extract audio waveform peaks
- *     description: Upload an audio file to extract waveform peaks for visualization
+ *     description: Upload an audio file to extract waveform peaks for visualization, as normalised peaks or as per-channel min/max data in the audiowaveform JSON layout
  *     tags:
  *       - Audio
  *     security:
@@ -67,6 +130,25 @@ const upload = multer({
  *           minimum: 1
  *           maximum: 10000
  *           default: 120
+ *       - name: output
+ *         in: query
+ *         description: peaks returns one 0-1 amplitude per point, mixed to mono. waveform returns signed min/max pairs in the audiowaveform JSON layout and, without samples or samplesPerMinute, keeps audiowaveform's resolution (AUDIOWAVEFORM_PIXELS_PER_SECOND).
+ *         schema:
+ *           type: string
+ *           enum: [peaks, waveform]
+ *           default: peaks
+ *       - name: splitChannels
+ *         in: query
+ *         description: Return a min/max pair per channel instead of mixing down to mono (output=waveform or format=dat only)
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: format
+ *         in: query
+ *         description: json, or dat for audiowaveform's binary waveform format (version 2, AUDIOWAVEFORM_BITS bits, always min/max data). Unset, dat is returned when the Accept header lists application/octet-stream but not application/json, and the response varies on Accept.
+ *         schema:
+ *           type: string
+ *           enum: [json, dat]
  *       - name: debug
  *         in: query
  *         description: Debug level for response headers
@@ -79,16 +161,14 @@ const upload = multer({
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 peaks:
- *                   type: array
- *                   items:
- *                     type: number
- *                   description: Array of peak values (0-1)
- *                 samples:
- *                   type: integer
- *                   description: Number of samples returned
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AudioPeaksResponse'
+ *                 - $ref: '#/components/schemas/AudioWaveform'
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *               description: audiowaveform .dat file (24-byte little-endian header, then int8 or int16 min/max values)
  *       400:
  *         description: Invalid request
  *       401:
@@ -99,9 +179,9 @@ const upload = multer({
 router.post(
   '/audio/peaks',
   mediaRateLimitMiddleware,
+  cleanupUploads,
   upload.single('audio'),
   async (req: Request, res: Response): Promise<void> => {
-    let tempInputPath: string | null = null;
     const requestId = crypto.randomUUID();
     const startedAt = Date.now();
     let debugInfo: DebugInfo | undefined;
@@ -115,7 +195,25 @@ router.post(
         return;
       }
 
-      const { samples: samplesParam, samplesPerMinute: samplesPerMinuteParam, debug } = queryResult.data;
+      const {
+        samples: samplesParam,
+        samplesPerMinute: samplesPerMinuteParam,
+        output: outputParam,
+        splitChannels,
+        format: formatParam,
+        debug,
+      } = queryResult.data;
+
+      // .dat always carries min/max waveform data, whatever `output` says
+      const format = formatParam ?? negotiateWaveformFormat(req.get('Accept'));
+      const output = format === 'dat' ? 'waveform' : outputParam;
+      if (splitChannels && output !== 'waveform') {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: ['splitChannels: splitChannels requires output=waveform or format=dat'],
+        });
+        return;
+      }
 
       if (debug) {
         debugInfo = createDebugInfo(debug, requestId);
@@ -127,29 +225,12 @@ router.post(
         return;
       }
 
-      // Validate file extension
-      const extStart = Date.now();
-      const ext = path.extname(req.file.originalname).toLowerCase().slice(1);
-      if (ext && !validateAudioExtension(ext)) {
-        res.status(400).json({
-          error: `Unsupported audio format: ${ext}. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
-          debug: debugInfo,
-        });
-        return;
-      }
-      recordStep(debugInfo, 'validate_extension', extStart);
-
-      // Validate audio file signature (magic bytes)
-      const detectStart = Date.now();
-      const detectedFormat = detectAudioFormat(req.file.buffer);
-      if (detectedFormat && !validateAudioExtension(detectedFormat)) {
-        res.status(400).json({
-          error: `Unsupported audio format: ${detectedFormat}. Supported formats: ${SUPPORTED_AUDIO_FORMATS.join(', ')}`,
-          debug: debugInfo,
-        });
+      const check = await checkAudioUpload(req.file, debugInfo);
+      if (!check.ok) {
+        res.status(400).json({ error: check.error, debug: debugInfo });
         return;
       }
-      recordStep(debugInfo, 'detect_format', detectStart);
+      const { ext, detectedFormat } = check;
 
       logger.info(
         {
@@ -158,34 +239,37 @@ router.post(
           size: req.file.size,
           samples: samplesParam,
           samplesPerMinute: samplesPerMinuteParam,
+          output,
+          format,
+          splitChannels,
           detectedFormat,
         },
         'Processing audio peaks extraction'
       );
 
-      // Write buffer to temp file
-      const writeStart = Date.now();
-      tempInputPath = await createTempAudioFile(req.file.buffer, ext);
-      recordStep(debugInfo, 'write_temp_file', writeStart);
+      const inputPath = req.file.path;
 
       let samples = samplesParam;
       let durationSeconds: number | null = null;
       let samplesPerMinute = samplesPerMinuteParam ?? 120;
+      // Waveform output keeps audiowaveform's own resolution unless a point
+      // count is asked for
+      const resample = output === 'peaks' || samplesParam !== undefined || samplesPerMinuteParam !== undefined;
 
-      if (!samples) {
+      if (!samples && resample) {
         const durationStart = Date.now();
-        durationSeconds = await getAudioDurationSeconds(tempInputPath);
+        durationSeconds = await getAudioDurationSeconds(inputPath);
         recordStep(debugInfo, 'get_duration', durationStart);
         const durationMinutes = durationSeconds / 60;
         samples = Math.round(durationMinutes * samplesPerMinute);
       }
 
-      if (!samples || samples <= 0) {
+      if (resample && (!samples || samples <= 0)) {
         res.status(400).json({ error: 'Invalid samples configuration', debug: debugInfo });
         return;
       }
 
-      if (samples > 10000) {
+      if (samples && samples > 10000) {
         res.status(400).json({
           error: 'Invalid samples configuration. Must be between 1 and 10000.',
           debug: debugInfo,
@@ -195,8 +279,19 @@ router.post(
 
       // Extract peaks
       const extractStart = Date.now();
-      const peaks = await extractPeaksWithAudiowaveform(tempInputPath, samples);
-      recordStep(debugInfo, 'extract_peaks', extractStart);
+      let body: AudioWaveformData | { peaks: number[]; samples: number };
+      let samplesReturned: number;
+      if (output === 'waveform') {
+        const waveform = await extractWaveformWithAudiowaveform(inputPath, { splitChannels });
+        recordStep(debugInfo, 'extract_waveform', extractStart);
+        body = samples ? resampleWaveform(waveform, samples) : waveform;
+        samplesReturned = body.length;
+      } else {
+        const peaks = await extractPeaksWithAudiowaveform(inputPath, samples ?? 0);
+        recordStep(debugInfo, 'extract_peaks', extractStart);
+        body = { peaks, samples: peaks.length };
+        samplesReturned = peaks.length;
+      }
 
       if (debugInfo) {
         debugInfo.input = {
@@ -207,16 +302,19 @@ router.post(
           detectedFormat: detectedFormat || null,
         };
         debugInfo.output = {
-          samplesRequested: samples,
-          samplesReturned: peaks.length,
-          samplesPerMinute,
+          output,
+          format,
+          samplesRequested: samples ?? null,
+          samplesReturned,
+          samplesPerMinute: resample ? samplesPerMinute : null,
           durationSeconds,
+          ...('channels' in body && { channels: body.channels }),
         };
         debugInfo.durationMs = Date.now() - startedAt;
       }
 
       logger.info(
-        { requestId, peaksCount: peaks.length, durationMs: Date.now() - startedAt },
+        { requestId, peaksCount: samplesReturned, durationMs: Date.now() - startedAt },
         'Audio peaks extraction complete'
       );
 
@@ -225,8 +323,26 @@ router.post(
         res.set('X-Debug-Level', debugInfo.level);
         res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
       }
+      if (!formatParam) {
+        res.vary('Accept');
+      }
+
+      if (format === 'dat' && 'data' in body) {
+        // No JSON body to carry debug details, so they go in a header as for images
+        if (debugInfo) {
+          res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+        }
+        const baseName = path.basename(req.file.originalname, path.extname(req.file.originalname));
+        res.set('Content-Type', 'application/octet-stream');
+        res.set(
+          'Content-Disposition',
+          `attachment; filename="${baseName.replace(/[^a-zA-Z0-9_-]+/g, '-') || 'waveform'}.dat"`
+        );
+        res.send(encodeWaveformDat(body));
+        return;
+      }
 
-      res.json({ peaks, samples: peaks.length, debug: debugInfo });
+      res.json({ ...body, debug: debugInfo });
     } catch (error) {
       if (debugInfo) {
         debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
@@ -238,8 +354,1020 @@ router.post(
         details: error instanceof Error ? error.message : 'Unknown error',
         debug: debugInfo,
       });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/audio/waveform:
+ *   post:
+ *     summary: Render a waveform image
+ *     description: Upload an audio file to render its waveform as an SVG, PNG or WebP image, for places that cannot run a waveform player (emails, social previews). PNG and WebP are rasterised from the same SVG.
+ *     tags:
+ *       - Audio
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - audio
+ *             properties:
+ *               audio:
+ *                 type: string
+ *                 format: binary
+ *                 description: The audio file to render
+ *     parameters:
+ *       - name: format
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [svg, png, webp]
+ *           default: svg
+ *       - name: style
+ *         in: query
+ *         description: Separate bars, or one continuous filled path. Both are mirrored around the centre line.
+ *         schema:
+ *           type: string
+ *           enum: [bars, path]
+ *           default: bars
+ *       - name: width
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 16
+ *           maximum: 4096
+ *           default: 800
+ *       - name: height
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           minimum: 8
+ *           maximum: 1024
+ *           default: 120
+ *       - name: barWidth
+ *         in: query
+ *         description: Bar width in pixels (style=bars). As many bars as fit are drawn, centred.
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 64
+ *           default: 3
+ *       - name: barGap
+ *         in: query
+ *         description: Gap between bars in pixels (style=bars)
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 64
+ *           default: 1
+ *       - name: color
+ *         in: query
+ *         description: Waveform colour (hex)
+ *         schema:
+ *           type: string
+ *           default: '999999'
+ *       - name: gradientColor
+ *         in: query
+ *         description: Bottom colour of a vertical gradient from color (hex)
+ *         schema:
+ *           type: string
+ *       - name: progress
+ *         in: query
+ *         description: Fraction of the waveform, from the left, drawn in the progress colours (0-1)
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *           default: 0
+ *       - name: progressColor
+ *         in: query
+ *         description: Colour of the played part (hex)
+ *         schema:
+ *           type: string
+ *           default: '333333'
+ *       - name: progressGradientColor
+ *         in: query
+ *         description: Bottom colour of a vertical gradient from progressColor (hex)
+ *         schema:
+ *           type: string
+ *       - name: background
+ *         in: query
+ *         description: Background colour as hex, optionally with alpha (ffffff or ffffff00). Transparent when not given.
+ *         schema:
+ *           type: string
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; details are returned in the X-Debug-Info header (base64 JSON)
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: The rendered waveform
+ *         content:
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/webp:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/audio/waveform',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('audio'),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = audioWaveformImageQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { debug, ...options } = queryResult.data;
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No audio file provided');
+        res.status(400).json({ error: 'No audio file provided', debug: debugInfo });
+        return;
+      }
+
+      const check = await checkAudioUpload(req.file, debugInfo);
+      if (!check.ok) {
+        res.status(400).json({ error: check.error, debug: debugInfo });
+        return;
+      }
+
+      const points = waveformPointCount(options);
+      logger.info(
+        {
+          requestId,
+          fileName: req.file.originalname,
+          size: req.file.size,
+          format: options.format,
+          style: options.style,
+          width: options.width,
+          height: options.height,
+          points,
+          detectedFormat: check.detectedFormat,
+        },
+        'Processing audio waveform image'
+      );
+
+      const extractStart = Date.now();
+      const peaks = await extractPeaksWithAudiowaveform(req.file.path, points);
+      recordStep(debugInfo, 'extract_peaks', extractStart);
+
+      const data = await renderWaveformImage(peaks, options, debugInfo);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          extension: check.ext || null,
+          detectedFormat: check.detectedFormat || null,
+        };
+        debugInfo.output = {
+          format: options.format,
+          style: options.style,
+          width: options.width,
+          height: options.height,
+          points: peaks.length,
+          sizeBytes: data.length,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info(
+        { requestId, outputSize: data.length, durationMs: Date.now() - startedAt },
+        'Audio waveform image complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+      res.set('Content-Type', WAVEFORM_CONTENT_TYPES[options.format]);
+      res.set('Content-Length', data.length.toString());
+      res.send(data);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Audio waveform image error');
+      res.status(500).json({
+        error: 'Failed to render audio waveform',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/audio/info:
+ *   post:
+ *     summary: Read audio metadata and cover art
+ *     description: Upload an audio file to read its codec, container, bitrate, sample rate, channel layout, bit depth, duration and all tags (ID3v2, Vorbis comments, MP4 atoms) via ffprobe. With output=cover, the embedded cover art is returned as an image instead, optionally converted with /v1/image/convert parameters.
+ *     tags:
+ *       - Audio
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - audio
+ *             properties:
+ *               audio:
+ *                 type: string
+ *                 format: binary
+ *                 description: The audio file to inspect
+ *     parameters:
+ *       - name: output
+ *         in: query
+ *         description: json for the metadata, cover for the embedded cover art image (404 when there is none)
+ *         schema:
+ *           type: string
+ *           enum: [json, cover]
+ *           default: json
+ *       - $ref: '#/components/parameters/ImagePreset'
+ *       - name: debug
+ *         in: query
+ *         description: Debug level for response headers
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Audio metadata, or the cover art with output=cover. With output=cover, any /v1/image/convert parameter (format, width, preset, ...) converts the cover; without them it is returned as embedded.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AudioInfo'
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request, or no audio stream in the file
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No embedded cover art (output=cover)
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/audio/info',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('audio'),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = audioInfoQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+      const { output, debug } = queryResult.data;
+
+      // Cover art goes through the /image/convert pipeline when any of its
+      // parameters (or a preset) are given; checked before running any tool
+      let coverConvertQuery: ImageConvertQuery | undefined;
+      if (
+        output === 'cover' &&
+        Object.keys(req.query).some((name) => name === 'preset' || IMAGE_CONVERT_OPTIONS.includes(name))
+      ) {
+        const convertResult = parseImageConvertQuery(req.query);
+        if (!convertResult.ok) {
+          res.status(400).json({ error: 'Invalid parameters', details: convertResult.details });
+          return;
+        }
+        coverConvertQuery = convertResult.data;
+      }
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No audio file provided');
+        res.status(400).json({ error: 'No audio file provided', debug: debugInfo });
+        return;
+      }
+
+      const check = await checkAudioUpload(req.file, debugInfo);
+      if (!check.ok) {
+        res.status(400).json({ error: check.error, debug: debugInfo });
+        return;
+      }
+
+      logger.info(
+        {
+          requestId,
+          fileName: req.file.originalname,
+          size: req.file.size,
+          output,
+          detectedFormat: check.detectedFormat,
+        },
+        'Processing audio info'
+      );
+
+      const probeStart = Date.now();
+      const probe = await probeAudio(req.file.path);
+      recordStep(debugInfo, 'probe', probeStart);
+      if (!probe) {
+        res.status(400).json({ error: 'No audio stream found', debug: debugInfo });
+        return;
+      }
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          extension: check.ext || null,
+          detectedFormat: check.detectedFormat || null,
+        };
+      }
+
+      res.set('X-Request-Id', requestId);
+
+      if (output === 'json') {
+        if (debugInfo) {
+          debugInfo.output = { codec: probe.info.codec, tagCount: Object.keys(probe.info.tags).length };
+          debugInfo.durationMs = Date.now() - startedAt;
+          res.set('X-Debug-Level', debugInfo.level);
+          res.set('X-Processing-Time-Ms', debugInfo.durationMs.toString());
+        }
+        logger.info({ requestId, durationMs: Date.now() - startedAt }, 'Audio info complete');
+        res.json({ ...probe.info, debug: debugInfo });
+        return;
+      }
+
+      if (probe.coverStreamIndex === null) {
+        res.status(404).json({ error: 'No embedded cover art', debug: debugInfo });
+        return;
+      }
+
+      const coverStart = Date.now();
+      let data = await extractCoverArt(req.file.path, probe.coverStreamIndex);
+      recordStep(debugInfo, 'extract_cover', coverStart);
+
+      let contentType: string;
+      let extension: string;
+      if (coverConvertQuery) {
+        const result = await convertImage(data, coverConvertQuery, { accept: req.get('Accept') }, debugInfo);
+        if (!result.ok) {
+          res.status(result.status).json({ error: result.error, details: result.details, debug: debugInfo });
+          return;
+        }
+        if (result.autoFormat) {
+          res.vary('Accept');
+        }
+        data = result.data;
+        contentType = CONTENT_TYPE_MAP[result.format];
+        extension = result.format;
+      } else {
+        const format = detectImageFormat(data);
+        contentType = !format ? 'application/octet-stream' : format === 'svg' ? 'image/svg+xml' : `image/${format}`;
+        extension = format === 'jpeg' ? 'jpg' : (format ?? 'bin');
+      }
+
+      if (debugInfo) {
+        debugInfo.output = { contentType, sizeBytes: data.length, converted: coverConvertQuery !== undefined };
+        debugInfo.durationMs = Date.now() - startedAt;
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs.toString());
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+      logger.info(
+        { requestId, outputSize: data.length, durationMs: Date.now() - startedAt },
+        'Audio cover art complete'
+      );
+
+      const baseName = path.basename(req.file.originalname, path.extname(req.file.originalname));
+      res.set('Content-Type', contentType);
+      res.set(
+        'Content-Disposition',
+        `attachment; filename="${baseName.replace(/[^a-zA-Z0-9_-]+/g, '-') || 'audio'}-cover.${extension}"`
+      );
+      res.set('Content-Length', data.length.toString());
+      res.send(data);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Audio info error');
+      res.status(500).json({
+        error: 'Failed to read audio info',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/audio/convert:
+ *   post:
+ *     summary: Transcode audio
+ *     description: Upload an audio file to transcode it with ffmpeg to another supported format. Only the first audio stream is kept. The converted file is streamed back with the format's content type.
+ *     tags:
+ *       - Audio
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - audio
+ *             properties:
+ *               audio:
+ *                 type: string
+ *                 format: binary
+ *                 description: The audio file to convert
+ *     parameters:
+ *       - name: format
+ *         in: query
+ *         description: Output format
+ *         schema:
+ *           type: string
+ *           enum: [mp3, wav, ogg, flac, aac, m4a, webm]
+ *           default: mp3
+ *       - name: codec
+ *         in: query
+ *         description: Output codec, one the format can hold (mp3 mp3; wav pcm_s16le, pcm_s24le; ogg vorbis, opus, flac; flac flac; aac aac; m4a aac, alac; webm opus, vorbis). Defaults to the first listed.
+ *         schema:
+ *           type: string
+ *           enum: [mp3, aac, alac, opus, vorbis, flac, pcm_s16le, pcm_s24le]
+ *       - name: bitrate
+ *         in: query
+ *         description: Bitrate in kbps for lossy codecs; exact for cbr, the target average for vbr. Defaults to 192 (mp3, aac), 128 (opus) or 160 (vorbis).
+ *         schema:
+ *           type: integer
+ *           minimum: 8
+ *           maximum: 512
+ *       - name: bitrateMode
+ *         in: query
+ *         description: Constant or variable bitrate for lossy codecs. Defaults to cbr for mp3 and aac, vbr for opus and vorbis; aac only supports cbr.
+ *         schema:
+ *           type: string
+ *           enum: [cbr, vbr]
+ *       - name: sampleRate
+ *         in: query
+ *         description: Output sample rate in Hz. Opus supports 8000, 12000, 16000, 24000 and 48000; mp3 up to 48000. Defaults to the source rate (or the nearest the codec supports).
+ *         schema:
+ *           type: integer
+ *           enum: [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000]
+ *       - name: mono
+ *         in: query
+ *         description: Downmix to one channel
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: preserveTags
+ *         in: query
+ *         description: Copy the source tags (file and audio stream) to the output
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - name: preserveArtwork
+ *         in: query
+ *         description: Copy embedded cover art when the output format can hold it (mp3, m4a, flac)
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; details are returned in the X-Debug-Info header (base64 JSON)
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: The converted audio
+ *         content:
+ *           audio/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request, or no audio stream in the file
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/audio/convert',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('audio'),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+    let outputPath: string | null = null;
+    let streaming = false;
+
+    try {
+      const queryResult = audioConvertQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { debug, ...options } = queryResult.data;
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No audio file provided');
+        res.status(400).json({ error: 'No audio file provided', debug: debugInfo });
+        return;
+      }
+
+      const check = await checkAudioUpload(req.file, debugInfo);
+      if (!check.ok) {
+        res.status(400).json({ error: check.error, debug: debugInfo });
+        return;
+      }
+
+      logger.info(
+        {
+          requestId,
+          fileName: req.file.originalname,
+          size: req.file.size,
+          format: options.format,
+          codec: options.codec,
+          detectedFormat: check.detectedFormat,
+        },
+        'Processing audio conversion'
+      );
+
+      const probeStart = Date.now();
+      const probe = await probeAudio(req.file.path);
+      recordStep(debugInfo, 'probe', probeStart);
+      if (!probe) {
+        res.status(400).json({ error: 'No audio stream found', debug: debugInfo });
+        return;
+      }
+
+      outputPath = tempAudioPath(options.format);
+      const conversion = buildAudioConvertArgs(req.file.path, outputPath, options, {
+        tags: probe.info.tags,
+        coverStreamIndex: probe.coverStreamIndex,
+      });
+      const convertStart = Date.now();
+      await runAudioConversion(conversion.args);
+      recordStep(debugInfo, 'convert', convertStart);
+      const { size } = await fs.promises.stat(outputPath);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          extension: check.ext || null,
+          detectedFormat: check.detectedFormat || null,
+          codec: probe.info.codec,
+          sampleRate: probe.info.sampleRate,
+          channels: probe.info.channels,
+          bitRate: probe.info.bitRate,
+        };
+        debugInfo.output = {
+          format: options.format,
+          codec: conversion.codec,
+          artwork: conversion.artwork,
+          sizeBytes: size,
+        };
+        if (conversion.warnings.length > 0) {
+          debugInfo.warnings = conversion.warnings;
+        }
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+      const baseName = path.basename(req.file.originalname, path.extname(req.file.originalname));
+      res.set('Content-Type', AUDIO_CONTENT_TYPES[options.format]);
+      res.set('Content-Length', size.toString());
+      res.set(
+        'Content-Disposition',
+        `attachment; filename="${baseName.replace(/[^a-zA-Z0-9_-]+/g, '-') || 'audio'}.${options.format}"`
+      );
+
+      // The output file is read in chunks straight to the client and removed
+      // once the response closes, like the upload
+      const converted = outputPath;
+      const stream = fs.createReadStream(converted);
+      streaming = true;
+      res.on('close', () => {
+        stream.destroy();
+        void cleanupTempFile(converted);
+      });
+      stream.on('error', (error) => {
+        logger.error({ requestId, err: error }, 'Audio conversion error');
+        res.destroy(error);
+      });
+      res.on('finish', () => {
+        logger.info({ requestId, outputSize: size, durationMs: Date.now() - startedAt }, 'Audio conversion complete');
+      });
+      stream.pipe(res);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Audio conversion error');
+      res.status(500).json({
+        error: 'Failed to convert audio',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    } finally {
+      if (!streaming) {
+        await cleanupTempFile(outputPath);
+      }
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/audio/preview:
+ *   post:
+ *     summary: Cut a preview clip
+ *     description: Upload an audio file to cut a preview clip from a start time, or from its most energetic section (start=auto, found from the audiowaveform peaks). The clip is loudness normalised, faded in and out and encoded like /v1/audio/convert. The response bundles preview.json (the clip's start, duration, fades and peaks) with the clip.
+ *     tags:
+ *       - Audio
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - audio
+ *             properties:
+ *               audio:
+ *                 type: string
+ *                 format: binary
+ *                 description: The audio file to cut the preview from
+ *     parameters:
+ *       - name: start
+ *         in: query
+ *         description: Start of the clip in seconds, or `auto` for the most energetic section
+ *         schema:
+ *           type: string
+ *           default: auto
+ *       - name: duration
+ *         in: query
+ *         description: Clip length in seconds; shortened when the file ends first
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 120
+ *           default: 30
+ *       - name: fadeIn
+ *         in: query
+ *         description: Fade-in length in seconds
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 10
+ *           default: 1
+ *       - name: fadeOut
+ *         in: query
+ *         description: Fade-out length in seconds
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 10
+ *           default: 2
+ *       - name: normalize
+ *         in: query
+ *         description: Normalise the clip's loudness to `loudness` (EBU R128)
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - name: loudness
+ *         in: query
+ *         description: Integrated loudness target in LUFS
+ *         schema:
+ *           type: number
+ *           minimum: -36
+ *           maximum: -6
+ *           default: -14
+ *       - name: samples
+ *         in: query
+ *         description: Number of peaks returned for the clip
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 2000
+ *           default: 200
+ *       - name: format
+ *         in: query
+ *         description: Clip format, with the codec, bitrate, bitrateMode, sampleRate and mono options of /v1/audio/convert
+ *         schema:
+ *           type: string
+ *           enum: [mp3, wav, ogg, flac, aac, m4a, webm]
+ *           default: mp3
+ *       - name: codec
+ *         in: query
+ *         description: Clip codec, one the format can hold (see /v1/audio/convert)
+ *         schema:
+ *           type: string
+ *           enum: [mp3, aac, alac, opus, vorbis, flac, pcm_s16le, pcm_s24le]
+ *       - name: bitrate
+ *         in: query
+ *         description: Bitrate in kbps for lossy codecs
+ *         schema:
+ *           type: integer
+ *           minimum: 8
+ *           maximum: 512
+ *       - name: bitrateMode
+ *         in: query
+ *         description: Constant or variable bitrate for lossy codecs
+ *         schema:
+ *           type: string
+ *           enum: [cbr, vbr]
+ *       - name: sampleRate
+ *         in: query
+ *         description: Clip sample rate in Hz. Normalised clips default to the source rate, or 48000 when the codec cannot take it.
+ *         schema:
+ *           type: integer
+ *           enum: [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000]
+ *       - name: mono
+ *         in: query
+ *         description: Downmix to one channel
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: output
+ *         in: query
+ *         description: Response packaging. `zip` returns an archive with preview.json and the clip; `multipart` returns multipart/mixed with preview.json as the first part.
+ *         schema:
+ *           type: string
+ *           enum: [zip, multipart]
+ *           default: zip
+ *       - name: debug
+ *         in: query
+ *         description: Debug level for response headers
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Preview clip and preview.json
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           multipart/mixed:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request, start past the end of the audio, or no audio stream in the file
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/audio/preview',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('audio'),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+    let outputPath: string | null = null;
+
+    try {
+      const queryResult = audioPreviewQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { debug, output, start, samples, ...options } = queryResult.data;
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No audio file provided');
+        res.status(400).json({ error: 'No audio file provided', debug: debugInfo });
+        return;
+      }
+
+      const check = await checkAudioUpload(req.file, debugInfo);
+      if (!check.ok) {
+        res.status(400).json({ error: check.error, debug: debugInfo });
+        return;
+      }
+
+      logger.info(
+        {
+          requestId,
+          fileName: req.file.originalname,
+          size: req.file.size,
+          start,
+          duration: options.duration,
+          format: options.format,
+          detectedFormat: check.detectedFormat,
+        },
+        'Processing audio preview'
+      );
+
+      const probeStart = Date.now();
+      const probe = await probeAudio(req.file.path);
+      recordStep(debugInfo, 'probe', probeStart);
+      if (!probe) {
+        res.status(400).json({ error: 'No audio stream found', debug: debugInfo });
+        return;
+      }
+
+      let sourceDuration = probe.info.durationSeconds;
+      let clipStart = 0;
+      if (start === 'auto') {
+        const waveformStart = Date.now();
+        const waveform = await extractWaveformWithAudiowaveform(req.file.path);
+        const pointsPerSecond = waveform.sample_rate / waveform.samples_per_pixel;
+        sourceDuration ??= waveform.length / pointsPerSecond;
+        clipStart = findLoudestSection(waveformToPeaks(waveform), pointsPerSecond, options.duration);
+        recordStep(debugInfo, 'find_section', waveformStart);
+      } else {
+        clipStart = start;
+      }
+
+      const window = previewWindow(clipStart, options, sourceDuration);
+      if (!window) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: [`start: ${clipStart}s is past the end of the audio (${sourceDuration}s)`],
+          debug: debugInfo,
+        });
+        return;
+      }
+
+      outputPath = tempAudioPath(options.format);
+      const preview = buildAudioPreviewArgs(req.file.path, outputPath, window, options, probe.info.sampleRate);
+      const encodeStart = Date.now();
+      const pcm = await runAudioPreview(preview.args);
+      const clip = await fs.promises.readFile(outputPath);
+      recordStep(debugInfo, 'encode', encodeStart);
+
+      const fileName = `preview.${options.format}`;
+      const contentType = AUDIO_CONTENT_TYPES[options.format];
+      const peaks = pcmPeaks(pcm, samples);
+      const manifest: AudioPreview = {
+        fileName,
+        format: options.format,
+        codec: preview.codec,
+        contentType,
+        auto: start === 'auto',
+        startSeconds: window.start,
+        durationSeconds: window.duration,
+        fadeInSeconds: window.fadeIn,
+        fadeOutSeconds: window.fadeOut,
+        loudness: options.normalize ? options.loudness : null,
+        sourceDurationSeconds: sourceDuration,
+        peaks,
+        samples: peaks.length,
+      };
+
+      const bundleStart = Date.now();
+      const entries: BundleEntry[] = [
+        { name: 'preview.json', data: Buffer.from(JSON.stringify(manifest, null, 2)), contentType: 'application/json' },
+        { name: fileName, data: clip, contentType },
+      ];
+      let body: Buffer;
+      let bodyType: string;
+      if (output === 'multipart') {
+        const boundary = createMultipartBoundary();
+        body = createMultipartBundle(entries, boundary);
+        bodyType = `multipart/mixed; boundary=${boundary}`;
+      } else {
+        body = createZipBundle(entries);
+        bodyType = 'application/zip';
+      }
+      recordStep(debugInfo, 'bundle', bundleStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          extension: check.ext || null,
+          detectedFormat: check.detectedFormat || null,
+          codec: probe.info.codec,
+          sampleRate: probe.info.sampleRate,
+          durationSeconds: sourceDuration,
+        };
+        debugInfo.output = {
+          output,
+          format: options.format,
+          codec: preview.codec,
+          startSeconds: window.start,
+          durationSeconds: window.duration,
+          clipSizeBytes: clip.length,
+          samples: peaks.length,
+          sizeBytes: body.length,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info(
+        { requestId, startSeconds: window.start, outputSize: body.length, durationMs: Date.now() - startedAt },
+        'Audio preview complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+
+      res.set('Content-Type', bodyType);
+      res.set('Content-Length', body.length.toString());
+      if (output === 'zip') {
+        res.set('Content-Disposition', 'attachment; filename="preview.zip"');
+      }
+      res.send(body);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Audio preview error');
+      res.status(500).json({
+        error: 'Failed to create audio preview',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
     } finally {
-      await cleanupTempFile(tempInputPath);
+      await cleanupTempFile(outputPath);
     }
   }
 );
@@ -1,25 +1,65 @@
 import { Router, Request, Response } from 'express';
-import multer from 'multer';
-import sharp from 'sharp';
 import crypto from 'crypto';
+import { env } from '../config/env';
+import { imagePresets } from '../config/imagePresets';
 import {
-  imageConvertQuerySchema,
+  imageVariantsQuerySchema,
+  imageSheetQuerySchema,
+  imageBatchQuerySchema,
+  MAX_SHEET_IMAGES,
+  MAX_BATCH_IMAGES,
+  imageInfoQuerySchema,
+  imagePlaceholderQuerySchema,
+  imagePaletteQuerySchema,
+  imageHashQuerySchema,
+  imageCompareQuerySchema,
+  imageCardQuerySchema,
+  IMAGE_HASH_BITS,
   CONTENT_TYPE_MAP,
-  OutputFormat,
   DebugInfo,
+  ImageVariant,
+  ImageVariantManifest,
+  ImageInfo,
+  DEFAULT_PLACEHOLDER_OPTIONS,
 } from '../types';
 import { createDebugInfo, recordStep, encodeDebugInfo } from '../utils/debug';
+import {
+  IMAGE_LIMIT_INPUT_PIXELS,
+  createImagePipeline,
+  orientedSize,
+  decodeImage,
+  resolveVariantWidths,
+  variantFileName,
+  renderVariant,
+  buildSrcset,
+  sampleImage,
+  summarizeHistogram,
+  toHexColour,
+  ImageSource,
+} from '../utils/image';
+import { createPlaceholders } from '../utils/placeholder';
+import { createImageHashes, compareHashes } from '../utils/hash';
+import { extractPalette } from '../utils/palette';
+import { computeSheetLayout, renderContactSheet } from '../utils/sheet';
+import { convertImageStream } from '../utils/convert';
+import { convertBatch } from '../utils/batch';
+import { checkImagePolicy } from '../utils/imagePolicy';
+import { parseImageConvertQuery } from '../utils/preset';
+import { listCardTemplates, loadCardTemplate, parseCardText, renderCard } from '../utils/card';
+import { parseAllowedOrigins, isAllowedSourceOrigin, fetchSourceImage } from '../utils/signedUrl';
+import { parseExif } from '../utils/exif';
+import { parseIptc } from '../utils/iptc';
+import { parseXmp } from '../utils/xmp';
+import { BundleEntry, createZipBundle, createMultipartBundle, createMultipartBoundary } from '../utils/bundle';
 import logger from '../utils/logger';
 import { mediaRateLimitMiddleware } from '../middleware/rateLimit';
+import { createDiskUpload, cleanupUploads, IMAGE_UPLOAD_MAX_BYTES } from '../middleware/upload';
+import { enforceUploadPolicy, resolveUploadPolicy } from '../middleware/uploadPolicy';
 
 const router = Router();
 
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 20 * 1024 * 1024, // 20MB limit (reduces peak memory per request)
-  },
-});
+// Uploads go to temp files that sharp reads from, so request bodies are never held in memory
+const upload = createDiskUpload({ prefix: 'image', maxFileSize: IMAGE_UPLOAD_MAX_BYTES });
 
 /**
  * @openapi
@@ -44,13 +84,19 @@ const upload = multer({
  *                 type: string
  *                 format: binary
  *                 description: The image file to convert
+ *               watermark:
+ *                 type: string
+ *                 format: binary
+ *                 description: Optional overlay image (PNG/WebP/SVG with alpha), composited after resizing
  *     parameters:
+ *       - $ref: '#/components/parameters/ImagePreset'
+ *       - $ref: '#/components/parameters/UploadPolicy'
  *       - name: format
  *         in: query
- *         description: Output format
+ *         description: Output format. `auto` picks AVIF or WebP when the Accept header lists them, otherwise PNG for sources with alpha and JPEG for the rest, and responds with `Vary Accept`. The default is configurable via IMAGE_DEFAULT_FORMAT.
  *         schema:
  *           type: string
- *           enum: [jpg, jpeg, png, webp, avif, tiff, gif]
+ *           enum: [auto, jpg, jpeg, png, webp, avif, tiff, gif]
  *           default: jpg
  *       - name: width
  *         in: query
@@ -71,9 +117,277 @@ const upload = multer({
  *           type: string
  *           enum: [cover, contain, fill, inside, outside]
  *           default: cover
+ *       - name: crop
+ *         in: query
+ *         description: Smart crop strategy for fit=cover (cannot be combined with fx/fy)
+ *         schema:
+ *           type: string
+ *           enum: [attention, entropy]
+ *       - name: fx
+ *         in: query
+ *         description: Horizontal focal point (0-1) that fit=cover crops around. Requires fy.
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *       - name: fy
+ *         in: query
+ *         description: Vertical focal point (0-1) that fit=cover crops around. Requires fx.
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *       - name: extract
+ *         in: query
+ *         description: Crop rectangle applied before resizing, as left,top,width,height in source pixels
+ *         schema:
+ *           type: string
+ *           example: "100,50,800,600"
+ *       - name: quality
+ *         in: query
+ *         description: Encoder quality (jpg, webp, avif, tiff; png switches to palette quantisation). Upper bound when maxBytes is set.
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - name: progressive
+ *         in: query
+ *         description: Progressive/interlaced output (jpg, png, gif)
+ *         schema:
+ *           type: boolean
+ *       - name: mozjpeg
+ *         in: query
+ *         description: Use mozjpeg defaults for smaller JPEG output (jpg)
+ *         schema:
+ *           type: boolean
+ *       - name: effort
+ *         in: query
+ *         description: CPU effort (webp 0-6, avif 0-9, png 1-10, gif 1-10)
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 10
+ *       - name: lossless
+ *         in: query
+ *         description: Lossless encoding (webp, avif). For png, false enables palette quantisation.
+ *         schema:
+ *           type: boolean
+ *       - name: chromaSubsampling
+ *         in: query
+ *         description: Chroma subsampling (jpg, avif)
+ *         schema:
+ *           type: string
+ *           enum: ["4:2:0", "4:4:4"]
+ *       - name: maxBytes
+ *         in: query
+ *         description: Byte budget; searches for the highest quality whose output fits (jpg, webp, avif). Returns 422 if even quality 1 is too large. With format=auto it applies to the negotiated format, and returns 400 when that is png (transparent source, no AVIF or WebP in Accept).
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - name: autoOrient
+ *         in: query
+ *         description: Rotate/flip according to EXIF orientation before any other step
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *       - name: metadata
+ *         in: query
+ *         description: Output metadata policy. `strip` removes everything, `copyright` keeps only EXIF Copyright/Artist, `all` keeps EXIF/XMP/IPTC with an sRGB profile. GPS/location data is always removed.
+ *         schema:
+ *           type: string
+ *           enum: [strip, copyright, all]
+ *           default: strip
+ *       - name: embedIcc
+ *         in: query
+ *         description: Embed the sRGB ICC profile in the output. Wide-gamut inputs (Display P3, Adobe RGB) are always converted to sRGB.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: placeholders
+ *         in: query
+ *         description: Add BlurHash, ThumbHash and a base64 LQIP of the output to debugInfo.output.placeholder (requires debug)
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: watermark
+ *         in: query
+ *         description: Name of a server-side watermark asset (file in WATERMARK_ASSETS_DIR without extension). Alternative to uploading a `watermark` file or `overlayText`.
+ *         schema:
+ *           type: string
+ *           example: promo
+ *       - name: overlayText
+ *         in: query
+ *         description: Text rendered via SVG and composited as the overlay (max 200 characters)
+ *         schema:
+ *           type: string
+ *       - name: overlayColor
+ *         in: query
+ *         description: Text overlay colour (hex)
+ *         schema:
+ *           type: string
+ *           default: ffffff
+ *       - name: overlayGravity
+ *         in: query
+ *         description: Overlay placement when no offset is given
+ *         schema:
+ *           type: string
+ *           enum: [centre, north, northeast, east, southeast, south, southwest, west, northwest]
+ *           default: southeast
+ *       - name: overlayLeft
+ *         in: query
+ *         description: Absolute overlay offset from the left edge in output pixels (with overlayTop; overrides gravity)
+ *         schema:
+ *           type: integer
+ *       - name: overlayTop
+ *         in: query
+ *         description: Absolute overlay offset from the top edge in output pixels (with overlayLeft)
+ *         schema:
+ *           type: integer
+ *       - name: overlayMargin
+ *         in: query
+ *         description: Transparent margin around the overlay in pixels; insets gravity placement and spaces tiles
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 1000
+ *           default: 0
+ *       - name: overlayOpacity
+ *         in: query
+ *         description: Overlay opacity (0-1), multiplied with its own alpha
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *           default: 1
+ *       - name: overlayScale
+ *         in: query
+ *         description: Overlay width as a fraction of the output width (0-1). Without it the overlay keeps its size, shrunk only to fit.
+ *         schema:
+ *           type: number
+ *       - name: overlayTile
+ *         in: query
+ *         description: Repeat the overlay across the whole output
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: animated
+ *         in: query
+ *         description: Keep every frame (with its delay and the loop count) of animated GIF/WebP input. Requires format gif, webp or auto (WebP when accepted, otherwise GIF); cannot be combined with overlays, maxBytes, smart crop, trim, rotate, flip, flop, blur or sharpen.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: frame
+ *         in: query
+ *         description: Zero-based index of a single frame to convert, e.g. as a poster image
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *       - name: frameStrip
+ *         in: query
+ *         description: Lay out this many frames, spread evenly from first to last, in a single row. width/height size each frame.
+ *         schema:
+ *           type: integer
+ *           minimum: 2
+ *           maximum: 64
+ *       - name: trim
+ *         in: query
+ *         description: Trim uniform borders (matching the top-left pixel). Adjustments run in this order after auto-orient and extract - trim, rotate, flip, flop, grayscale, resize/crop, pad, blur, brightness/saturation, sharpen, gamma, tint - and each is a separate debug step.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: trimThreshold
+ *         in: query
+ *         description: Colour difference still treated as border by trim
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 255
+ *           default: 10
+ *       - name: rotate
+ *         in: query
+ *         description: Rotate clockwise by this many degrees (any angle; the canvas grows to fit). Applied after auto-orient and before resizing.
+ *         schema:
+ *           type: number
+ *           minimum: -360
+ *           maximum: 360
+ *       - name: rotateBackground
+ *         in: query
+ *         description: Fill for the corners uncovered by non-right-angle rotations (hex, optionally with alpha)
+ *         schema:
+ *           type: string
+ *           default: "000000"
+ *       - name: flip
+ *         in: query
+ *         description: Mirror vertically (top to bottom)
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: flop
+ *         in: query
+ *         description: Mirror horizontally (left to right)
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: grayscale
+ *         in: query
+ *         description: Convert to grayscale (cannot be combined with tint)
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: pad
+ *         in: query
+ *         description: Padding added around the resized image in pixels, as `all`, `vertical,horizontal` or `top,right,bottom,left` (each 0-1000)
+ *         schema:
+ *           type: string
+ *           example: "10,20"
+ *       - name: padColor
+ *         in: query
+ *         description: Padding colour (hex, optionally with alpha, e.g. ffffff00 for transparent)
+ *         schema:
+ *           type: string
+ *           default: "000000"
+ *       - name: blur
+ *         in: query
+ *         description: Gaussian blur sigma
+ *         schema:
+ *           type: number
+ *           minimum: 0.3
+ *           maximum: 100
+ *       - name: sharpen
+ *         in: query
+ *         description: Sharpen sigma
+ *         schema:
+ *           type: number
+ *           minimum: 0.01
+ *           maximum: 10
+ *       - name: brightness
+ *         in: query
+ *         description: Brightness multiplier (1 keeps the image unchanged)
+ *         schema:
+ *           type: number
+ *           maximum: 10
+ *       - name: saturation
+ *         in: query
+ *         description: Saturation multiplier (0 removes colour, 1 keeps the image unchanged)
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 10
+ *       - name: gamma
+ *         in: query
+ *         description: Gamma adjustment; values above 1 brighten mid-tones, below 1 darken them
+ *         schema:
+ *           type: number
+ *           minimum: 0.34
+ *           maximum: 3
+ *       - name: tint
+ *         in: query
+ *         description: Tint the image with this colour, keeping its luminance (hex)
+ *         schema:
+ *           type: string
  *       - name: debug
  *         in: query
- *         description: Debug level for response headers
+ *         description: Debug level for response headers. debugInfo.output.cropBox reports the crop actually used (source pixels); debugInfo.input/output report frame and loop counts.
  *         schema:
  *           type: string
  *           enum: [debug, info, warn, error, crit]
@@ -89,91 +403,85 @@ const upload = multer({
  *         description: Invalid request
  *       401:
  *         description: Unauthorized
+ *       422:
+ *         description: maxBytes cannot be met, or the upload failed its upload policy
  *       500:
  *         description: Server error
  */
 router.post(
   '/image/convert',
   mediaRateLimitMiddleware,
-  upload.single('image'),
+  cleanupUploads,
+  upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'watermark', maxCount: 1 },
+  ]),
+  enforceUploadPolicy(['image']),
   async (req: Request, res: Response): Promise<void> => {
     const requestId = crypto.randomUUID();
     const startedAt = Date.now();
     let debugInfo: DebugInfo | undefined;
 
     try {
-      // Validate query parameters with Zod
-      const queryResult = imageConvertQuerySchema.safeParse(req.query);
-      if (!queryResult.success) {
-        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
-        res.status(400).json({ error: 'Invalid parameters', details: errors });
+      // Expand preset= and validate query parameters with Zod
+      const queryResult = parseImageConvertQuery(req.query);
+      if (!queryResult.ok) {
+        res.status(400).json({ error: 'Invalid parameters', details: queryResult.details });
         return;
       }
 
-      const { format, width, height, fit, debug } = queryResult.data;
+      const { format: requestedFormat, width, height, debug } = queryResult.data;
+
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const file = files?.image?.[0];
+      const watermarkFile = files?.watermark?.[0];
 
       if (debug) {
         debugInfo = createDebugInfo(debug, requestId);
       }
 
-      if (!req.file) {
+      if (!file) {
         logger.warn({ requestId }, 'No image file provided');
         res.status(400).json({ error: 'No image file provided', debug: debugInfo });
         return;
       }
 
       logger.info(
-        { requestId, fileName: req.file.originalname, size: req.file.size, format, width, height },
-        'Processing image conversion'
-      );
-
-      // Process image with sharp
-      const processStart = Date.now();
-      const limitInputPixels = 50 * 1024 * 1024; // 50MP - reject huge images that cause OOM
-      let pipeline = sharp(req.file.buffer, { limitInputPixels });
-      recordStep(debugInfo, 'sharp_init', processStart);
-
-      // Apply resize if dimensions are provided
-      if (width || height) {
-        const resizeStart = Date.now();
-        pipeline = pipeline.resize({
+        {
+          requestId,
+          fileName: file.originalname,
+          size: file.size,
+          preset: queryResult.preset,
+          format: requestedFormat,
           width,
           height,
-          fit,
-        });
-        recordStep(debugInfo, 'resize', resizeStart);
-      }
-
-      // Convert to output format
-      const formatStart = Date.now();
-      const sharpFormat = format === 'jpg' ? 'jpeg' : format;
-      pipeline = pipeline.toFormat(sharpFormat as keyof sharp.FormatEnum);
-      recordStep(debugInfo, 'format', formatStart);
-
-      const bufferStart = Date.now();
-      const outputBuffer = await pipeline.toBuffer();
-      recordStep(debugInfo, 'to_buffer', bufferStart);
+        },
+        'Processing image conversion'
+      );
 
       if (debugInfo) {
         debugInfo.input = {
-          fileName: req.file.originalname,
-          mimeType: req.file.mimetype,
-          sizeBytes: req.file.size,
-        };
-        debugInfo.output = {
-          format,
-          sizeBytes: outputBuffer.length,
-          width,
-          height,
-          fit,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          sizeBytes: file.size,
+          ...(queryResult.preset && { preset: queryResult.preset }),
         };
-        debugInfo.durationMs = Date.now() - startedAt;
       }
 
-      logger.info(
-        { requestId, outputSize: outputBuffer.length, durationMs: Date.now() - startedAt },
-        'Image conversion complete'
+      const result = await convertImageStream(
+        file.path,
+        queryResult.data,
+        { accept: req.get('Accept'), watermarkUpload: watermarkFile?.path },
+        debugInfo
       );
+      if (debugInfo) {
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      if (!result.ok) {
+        res.status(result.status).json({ error: result.error, details: result.details, debug: debugInfo });
+        return;
+      }
+      const { format, autoFormat } = result;
 
       res.set('X-Request-Id', requestId);
       if (debugInfo) {
@@ -182,9 +490,35 @@ router.post(
         res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
       }
 
-      res.set('Content-Type', CONTENT_TYPE_MAP[format as OutputFormat]);
-      res.set('Content-Length', outputBuffer.length.toString());
-      res.send(outputBuffer);
+      if (autoFormat) {
+        res.vary('Accept');
+      }
+      res.set('Content-Type', CONTENT_TYPE_MAP[format]);
+
+      if ('stream' in result) {
+        // Encoded chunks go straight to the client (chunked), so the output is never buffered whole
+        result.stream.on('error', (error) => {
+          logger.error({ requestId, err: error }, 'Image conversion error');
+          if (res.headersSent) {
+            res.destroy(error);
+            return;
+          }
+          res.status(500).json({ error: 'Failed to process image', details: error.message });
+        });
+        res.on('finish', () => {
+          logger.info({ requestId, durationMs: Date.now() - startedAt }, 'Image conversion complete');
+        });
+        res.on('close', () => result.stream.destroy());
+        result.stream.pipe(res);
+        return;
+      }
+
+      logger.info(
+        { requestId, outputSize: result.data.length, durationMs: Date.now() - startedAt },
+        'Image conversion complete'
+      );
+      res.set('Content-Length', result.data.length.toString());
+      res.send(result.data);
     } catch (error) {
       if (debugInfo) {
         debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
@@ -200,4 +534,1992 @@ router.post(
   }
 );
 
+/**
+ * @openapi
+ * /v1/image/presets:
+ *   get:
+ *     summary: List image presets
+ *     description: The named presets /v1/image/convert, /v1/image/batch and signed /v1/image/t URLs accept as `preset=`, with the options each one sets and the options callers may override.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Presets, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 presets:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ImagePreset'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/image/presets', (_req: Request, res: Response): void => {
+  res.json({
+    presets: Object.entries(imagePresets).map(([name, preset]) => ({ name, ...preset })),
+  });
+});
+
+/**
+ * @openapi
+ * /v1/image/variants:
+ *   post:
+ *     summary: Generate a responsive variant set
+ *     description: Upload one image and receive every requested width × format combination in a single response, together with a JSON manifest (dimensions, byte sizes and ready-made srcset strings). The source is decoded once and reused for every variant.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The source image
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: widths
+ *         in: query
+ *         required: true
+ *         description: Comma-separated output widths in pixels (max 10). Widths larger than the source are skipped.
+ *         schema:
+ *           type: string
+ *           example: "320,640,1280"
+ *       - name: formats
+ *         in: query
+ *         description: Comma-separated output formats (max 4); jpeg is treated as jpg and repeats are ignored
+ *         schema:
+ *           type: string
+ *           default: jpg
+ *           example: "avif,webp,jpg"
+ *       - name: aspect
+ *         in: query
+ *         description: Optional aspect ratio (width:height). When set, each variant's height is derived from its width and `fit` applies.
+ *         schema:
+ *           type: string
+ *           example: "16:9"
+ *       - name: fit
+ *         in: query
+ *         description: How each variant should fit within its dimensions (same semantics as /v1/image/convert)
+ *         schema:
+ *           type: string
+ *           enum: [cover, contain, fill, inside, outside]
+ *           default: cover
+ *       - name: output
+ *         in: query
+ *         description: Response packaging. `zip` returns an archive with manifest.json; `multipart` returns multipart/mixed with the manifest as the first part.
+ *         schema:
+ *           type: string
+ *           enum: [zip, multipart]
+ *           default: zip
+ *       - name: baseUrl
+ *         in: query
+ *         description: Prefix prepended to each file name in the srcset strings
+ *         schema:
+ *           type: string
+ *       - name: placeholders
+ *         in: query
+ *         description: Add a `placeholder` (BlurHash, ThumbHash, base64 LQIP) computed from the decoded source to the manifest
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: debug
+ *         in: query
+ *         description: Debug level for response headers
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Variant bundle
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           multipart/mixed:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/variants',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('image'),
+  enforceUploadPolicy(['image']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageVariantsQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { widths, formats, aspect, fit, output, baseUrl, placeholders, debug } = queryResult.data;
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No image file provided');
+        res.status(400).json({ error: 'No image file provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info(
+        { requestId, fileName: req.file.originalname, size: req.file.size, widths, formats, output },
+        'Processing image variant set'
+      );
+
+      const decodeStart = Date.now();
+      const decoded = await decodeImage(req.file.path);
+      recordStep(debugInfo, 'decode', decodeStart);
+
+      const targetWidths = resolveVariantWidths(widths, decoded.info.width);
+      const skippedWidths = widths.filter((w) => !targetWidths.includes(w));
+      if (debugInfo && skippedWidths.length > 0) {
+        debugInfo.warnings = [
+          `Skipped widths larger than the source (${decoded.info.width}px): ${skippedWidths.join(', ')}`,
+        ];
+      }
+
+      const variants: ImageVariant[] = [];
+      const entries: BundleEntry[] = [];
+
+      for (const format of formats) {
+        for (const width of targetWidths) {
+          const renderStart = Date.now();
+          const { variant, data } = await renderVariant(decoded, {
+            fileName: variantFileName(req.file.originalname, width, format),
+            format,
+            width,
+            height: aspect ? Math.max(1, Math.round(width / aspect)) : undefined,
+            fit,
+          });
+          recordStep(debugInfo, `render_${format}_${width}`, renderStart);
+          variants.push(variant);
+          entries.push({ name: variant.fileName, data, contentType: variant.contentType });
+        }
+      }
+
+      const manifest: ImageVariantManifest = {
+        source: {
+          fileName: req.file.originalname,
+          width: decoded.info.width,
+          height: decoded.info.height,
+        },
+        fit,
+        variants,
+        srcset: buildSrcset(variants, baseUrl),
+      };
+
+      if (placeholders) {
+        const placeholderStart = Date.now();
+        manifest.placeholder = await createPlaceholders(decoded, DEFAULT_PLACEHOLDER_OPTIONS);
+        recordStep(debugInfo, 'placeholders', placeholderStart);
+      }
+      const manifestEntry: BundleEntry = {
+        name: 'manifest.json',
+        data: Buffer.from(JSON.stringify(manifest, null, 2)),
+        contentType: 'application/json',
+      };
+
+      const bundleStart = Date.now();
+      let body: Buffer;
+      let contentType: string;
+      if (output === 'multipart') {
+        const boundary = createMultipartBoundary();
+        body = createMultipartBundle([manifestEntry, ...entries], boundary);
+        contentType = `multipart/mixed; boundary=${boundary}`;
+      } else {
+        body = createZipBundle([manifestEntry, ...entries]);
+        contentType = 'application/zip';
+      }
+      recordStep(debugInfo, 'bundle', bundleStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          width: decoded.info.width,
+          height: decoded.info.height,
+        };
+        debugInfo.output = {
+          output,
+          variants: variants.length,
+          sizeBytes: body.length,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info(
+        { requestId, variants: variants.length, outputSize: body.length, durationMs: Date.now() - startedAt },
+        'Image variant set complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+
+      res.set('Content-Type', contentType);
+      res.set('Content-Length', body.length.toString());
+      if (output === 'zip') {
+        res.set('Content-Disposition', 'attachment; filename="variants.zip"');
+      }
+      res.send(body);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image variant set error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/sheet:
+ *   post:
+ *     summary: Build a contact sheet or sprite sheet
+ *     description: Upload several images and receive them laid out on one grid image, together with a JSON tile map giving each image's cell and the rectangle it occupies (e.g. for CSS sprite background positions). Images are placed in upload order, row by row, and each one is subject to the same pixel limit as /v1/image/convert, as is the finished sheet.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - images
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: The images to lay out, in order
+ *               caption:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Caption text per image, in the same order (defaults to the file name without extension)
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: columns
+ *         in: query
+ *         description: Number of columns. Defaults to a near-square grid.
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - name: cellWidth
+ *         in: query
+ *         description: Width of each cell in pixels
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 2000
+ *           default: 200
+ *       - name: cellHeight
+ *         in: query
+ *         description: Height of each cell in pixels (defaults to cellWidth)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 2000
+ *       - name: gutter
+ *         in: query
+ *         description: Space between cells in pixels (none around the edges)
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 1000
+ *           default: 0
+ *       - name: fit
+ *         in: query
+ *         description: How each image fills its cell. `contain` keeps the whole image centred, `cover` crops it to the cell, `fill` stretches it.
+ *         schema:
+ *           type: string
+ *           enum: [contain, cover, fill]
+ *           default: contain
+ *       - name: background
+ *         in: query
+ *         description: Sheet background as hex, with optional alpha (e.g. ffffff00 for transparent sprites)
+ *         schema:
+ *           type: string
+ *           default: ffffff
+ *       - name: captions
+ *         in: query
+ *         description: Add a caption strip below each cell. Long captions are shortened with an ellipsis.
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - name: captionColor
+ *         in: query
+ *         description: Caption text colour as hex
+ *         schema:
+ *           type: string
+ *           default: "000000"
+ *       - name: captionSize
+ *         in: query
+ *         description: Caption font size in pixels
+ *         schema:
+ *           type: integer
+ *           minimum: 8
+ *           maximum: 72
+ *           default: 12
+ *       - name: format
+ *         in: query
+ *         description: Output format of the sheet
+ *         schema:
+ *           type: string
+ *           enum: [jpg, jpeg, png, webp, avif, tiff, gif]
+ *           default: png
+ *       - name: quality
+ *         in: query
+ *         description: Encoder quality (1-100) for formats that support it
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - name: output
+ *         in: query
+ *         description: Response packaging. `zip` returns an archive with sheet.json and the sheet image; `multipart` returns multipart/mixed with the tile map as the first part.
+ *         schema:
+ *           type: string
+ *           enum: [zip, multipart]
+ *           default: zip
+ *       - name: debug
+ *         in: query
+ *         description: Debug level for response headers
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Sheet image and tile map
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           multipart/mixed:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/sheet',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.array('images', MAX_SHEET_IMAGES),
+  enforceUploadPolicy(['images']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageSheetQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const query = queryResult.data;
+
+      if (query.debug) {
+        debugInfo = createDebugInfo(query.debug, requestId);
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        logger.warn({ requestId }, 'No image files provided');
+        res.status(400).json({ error: 'No image files provided', debug: debugInfo });
+        return;
+      }
+
+      const layout = computeSheetLayout(files.length, {
+        ...query,
+        captionSize: query.captions ? query.captionSize : undefined,
+      });
+      if (layout.width * layout.height > IMAGE_LIMIT_INPUT_PIXELS) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: [`sheet: ${layout.width}x${layout.height} exceeds the ${IMAGE_LIMIT_INPUT_PIXELS} pixel limit`],
+          debug: debugInfo,
+        });
+        return;
+      }
+
+      logger.info(
+        { requestId, images: files.length, columns: layout.columns, width: layout.width, height: layout.height },
+        'Processing image sheet'
+      );
+
+      // Repeated `caption` fields arrive as an array, a single one as a string
+      const captions: unknown[] = [].concat(req.body?.caption ?? []);
+      const { data, map } = await renderContactSheet(
+        files.map((file, index) => ({
+          input: file.path,
+          fileName: file.originalname,
+          caption: typeof captions[index] === 'string' && captions[index] ? captions[index] : undefined,
+        })),
+        layout,
+        query,
+        debugInfo
+      );
+
+      const bundleStart = Date.now();
+      const entries: BundleEntry[] = [
+        { name: 'sheet.json', data: Buffer.from(JSON.stringify(map, null, 2)), contentType: 'application/json' },
+        { name: map.fileName, data, contentType: CONTENT_TYPE_MAP[map.format] },
+      ];
+      let body: Buffer;
+      let contentType: string;
+      if (query.output === 'multipart') {
+        const boundary = createMultipartBoundary();
+        body = createMultipartBundle(entries, boundary);
+        contentType = `multipart/mixed; boundary=${boundary}`;
+      } else {
+        body = createZipBundle(entries);
+        contentType = 'application/zip';
+      }
+      recordStep(debugInfo, 'bundle', bundleStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          images: files.length,
+          sizeBytes: files.reduce((sum, file) => sum + file.size, 0),
+        };
+        debugInfo.output = {
+          output: query.output,
+          format: map.format,
+          width: map.width,
+          height: map.height,
+          columns: map.columns,
+          rows: map.rows,
+          sizeBytes: body.length,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info(
+        { requestId, images: files.length, outputSize: body.length, durationMs: Date.now() - startedAt },
+        'Image sheet complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+
+      res.set('Content-Type', contentType);
+      res.set('Content-Length', body.length.toString());
+      if (query.output === 'zip') {
+        res.set('Content-Disposition', 'attachment; filename="sheet.zip"');
+      }
+      res.send(body);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image sheet error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/batch:
+ *   post:
+ *     summary: Convert many images in one request
+ *     description: Upload several images and convert each with the /v1/image/convert pipeline. Every /v1/image/convert query parameter applies to all files; a per-file `options` field overrides them for one file. Files are converted a few at a time (IMAGE_BATCH_CONCURRENCY). The response bundles the converted files with a per-file status report (report.json). A file that fails (invalid options, corrupt data) is listed in the report with its error and the rest of the batch still succeeds.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - images
+ *             properties:
+ *               images:
+ *                 type: array
+ *                 maxItems: 50
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *                 description: The images to convert, in order
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Per-file convert options as a URL-encoded query string (e.g. `width=300&format=webp`), in the same order as `images`. Leave empty to use only the shared options. With a preset, only options it allows can be overridden.
+ *     parameters:
+ *       - $ref: '#/components/parameters/ImagePreset'
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: output
+ *         in: query
+ *         description: Response packaging. `zip` returns an archive with report.json; `multipart` returns multipart/mixed with the report as the first part.
+ *         schema:
+ *           type: string
+ *           enum: [zip, multipart]
+ *           default: zip
+ *       - name: debug
+ *         in: query
+ *         description: Debug level for response headers
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Converted files and status report (also when some files failed)
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           multipart/mixed:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid shared options or no files
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/batch',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.array('images', MAX_BATCH_IMAGES),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageBatchQuerySchema.safeParse(req.query);
+      const sharedResult = parseImageConvertQuery(req.query);
+      const policyResult = resolveUploadPolicy(req.query);
+      if (!queryResult.success || !sharedResult.ok || !policyResult.ok) {
+        const errors = (queryResult.error?.issues ?? []).map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: [
+            ...errors,
+            ...(sharedResult.ok ? [] : sharedResult.details),
+            ...(policyResult.ok ? [] : policyResult.details),
+          ],
+        });
+        return;
+      }
+
+      const { output, debug } = queryResult.data;
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+      if (files.length === 0) {
+        logger.warn({ requestId }, 'No image files provided');
+        res.status(400).json({ error: 'No image files provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info(
+        { requestId, images: files.length, concurrency: env.IMAGE_BATCH_CONCURRENCY, policy: policyResult.name },
+        'Processing image batch'
+      );
+
+      // Repeated `options` fields arrive as an array, a single one as a string
+      const fileOptions: unknown[] = [].concat(req.body?.options ?? []);
+      const { entries, report } = await convertBatch(
+        files.map((file, index) => ({
+          input: file.path,
+          fileName: file.originalname,
+          options: typeof fileOptions[index] === 'string' ? fileOptions[index] : undefined,
+        })),
+        // Shared options are re-validated together with each file's overrides
+        req.query,
+        { accept: req.get('Accept'), concurrency: env.IMAGE_BATCH_CONCURRENCY, policy: policyResult.policy },
+        debugInfo
+      );
+
+      const bundleStart = Date.now();
+      const reportEntry: BundleEntry = {
+        name: 'report.json',
+        data: Buffer.from(JSON.stringify(report, null, 2)),
+        contentType: 'application/json',
+      };
+      let body: Buffer;
+      let contentType: string;
+      if (output === 'multipart') {
+        const boundary = createMultipartBoundary();
+        body = createMultipartBundle([reportEntry, ...entries], boundary);
+        contentType = `multipart/mixed; boundary=${boundary}`;
+      } else {
+        body = createZipBundle([reportEntry, ...entries]);
+        contentType = 'application/zip';
+      }
+      recordStep(debugInfo, 'bundle', bundleStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          images: files.length,
+          sizeBytes: files.reduce((sum, file) => sum + file.size, 0),
+        };
+        debugInfo.output = {
+          output,
+          succeeded: report.succeeded,
+          failed: report.failed,
+          sizeBytes: body.length,
+        };
+        if (report.failed > 0) {
+          debugInfo.warnings = [`${report.failed} of ${report.total} files failed; see report.json`];
+        }
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info(
+        {
+          requestId,
+          succeeded: report.succeeded,
+          failed: report.failed,
+          outputSize: body.length,
+          durationMs: Date.now() - startedAt,
+        },
+        'Image batch complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+
+      res.set('Content-Type', contentType);
+      res.set('Content-Length', body.length.toString());
+      if (output === 'zip') {
+        res.set('Content-Disposition', 'attachment; filename="batch.zip"');
+      }
+      res.send(body);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image batch error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/info:
+ *   post:
+ *     summary: Inspect an image
+ *     description: Upload an image and receive its properties as JSON without converting it - format, stored and displayed dimensions, EXIF orientation, alpha, colour space, DPI, page/frame count, parsed EXIF/IPTC/XMP fields, dominant colour and a per-channel histogram. Histograms are computed from a sample of at most 512px on the longest edge.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The image to inspect
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: bins
+ *         in: query
+ *         description: Number of histogram buckets per channel (2-256)
+ *         schema:
+ *           type: integer
+ *           minimum: 2
+ *           maximum: 256
+ *           default: 16
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; debug info is included in the response body
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Image properties
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 format:
+ *                   type: string
+ *                 width:
+ *                   type: integer
+ *                 height:
+ *                   type: integer
+ *                 orientation:
+ *                   type: integer
+ *                   description: EXIF orientation (1-8)
+ *                 displayWidth:
+ *                   type: integer
+ *                   description: Width after auto-orientation
+ *                 displayHeight:
+ *                   type: integer
+ *                   description: Height after auto-orientation
+ *                 hasAlpha:
+ *                   type: boolean
+ *                 space:
+ *                   type: string
+ *                 density:
+ *                   type: number
+ *                   nullable: true
+ *                   description: Resolution in DPI
+ *                 pages:
+ *                   type: integer
+ *                   description: Number of pages or animation frames
+ *                 exif:
+ *                   type: object
+ *                   nullable: true
+ *                 iptc:
+ *                   type: object
+ *                   nullable: true
+ *                 xmp:
+ *                   type: object
+ *                   nullable: true
+ *                 dominant:
+ *                   type: object
+ *                   properties:
+ *                     r:
+ *                       type: integer
+ *                     g:
+ *                       type: integer
+ *                     b:
+ *                       type: integer
+ *                     hex:
+ *                       type: string
+ *                 histogram:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       channel:
+ *                         type: string
+ *                       min:
+ *                         type: integer
+ *                       max:
+ *                         type: integer
+ *                       mean:
+ *                         type: number
+ *                       stdev:
+ *                         type: number
+ *                       bins:
+ *                         type: array
+ *                         items:
+ *                           type: number
+ *                         description: Fraction of pixels in each bucket
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/info',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('image'),
+  enforceUploadPolicy(['image']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageInfoQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { bins, debug } = queryResult.data;
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No image file provided');
+        res.status(400).json({ error: 'No image file provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info({ requestId, fileName: req.file.originalname, size: req.file.size }, 'Processing image info');
+
+      const metadataStart = Date.now();
+      const pipeline = createImagePipeline(req.file.path);
+      const metadata = await pipeline.metadata();
+      recordStep(debugInfo, 'metadata', metadataStart);
+
+      const parseStart = Date.now();
+      const exif = parseExif(metadata.exif);
+      const iptc = parseIptc(metadata.iptc);
+      const xmp = parseXmp(metadata.xmp);
+      recordStep(debugInfo, 'parse_metadata', parseStart);
+
+      const statsStart = Date.now();
+      const stats = await pipeline.stats();
+      recordStep(debugInfo, 'stats', statsStart);
+
+      const histogramStart = Date.now();
+      const sample = await sampleImage(req.file.path);
+      const histogram = summarizeHistogram(sample, bins);
+      recordStep(debugInfo, 'histogram', histogramStart);
+
+      const display = orientedSize(metadata);
+      const info: ImageInfo = {
+        format: metadata.format ?? null,
+        sizeBytes: req.file.size,
+        width: metadata.width ?? 0,
+        height: metadata.height ?? 0,
+        orientation: metadata.orientation ?? 1,
+        displayWidth: display.width,
+        displayHeight: display.height,
+        hasAlpha: metadata.hasAlpha ?? false,
+        isOpaque: stats.isOpaque,
+        channels: metadata.channels ?? 0,
+        space: metadata.space ?? null,
+        depth: metadata.depth ?? null,
+        density: metadata.density ?? null,
+        hasIccProfile: !!metadata.icc,
+        isProgressive: metadata.isProgressive ?? false,
+        pages: metadata.pages ?? 1,
+        loop: metadata.loop ?? null,
+        exif,
+        iptc,
+        xmp,
+        dominant: { ...stats.dominant, hex: toHexColour(stats.dominant) },
+        histogram,
+      };
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+        };
+        debugInfo.output = {
+          histogramSample: { width: sample.info.width, height: sample.info.height },
+          bins,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info({ requestId, format: info.format, durationMs: Date.now() - startedAt }, 'Image info complete');
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+      }
+
+      res.json({ ...info, debug: debugInfo });
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image info error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/palette:
+ *   post:
+ *     summary: Extract a colour palette
+ *     description: Upload an image (e.g. album art) and receive its most common colours with their share of the pixels, Material-style roles (light/dark vibrant and muted) and a WCAG-checked text colour for each role. Colours come from a median cut of a nearest-neighbour sample of the auto-oriented pixels sharp decodes; transparent pixels are ignored. The same image always yields the same palette.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The source image
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: colors
+ *         in: query
+ *         description: Number of colours to return, most common first (1-16)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 16
+ *           default: 8
+ *       - name: minContrast
+ *         in: query
+ *         description: Contrast ratio a palette colour needs to be picked as text colour for a role (1-21); otherwise white or black is used
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 21
+ *           default: 4.5
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; debug info is included in the response body
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Palette
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 colors:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PaletteColor'
+ *                 roles:
+ *                   type: object
+ *                   description: Swatch per role, or null when no colour fits
+ *                   properties:
+ *                     lightVibrant:
+ *                       $ref: '#/components/schemas/PaletteColor'
+ *                     vibrant:
+ *                       $ref: '#/components/schemas/PaletteColor'
+ *                     darkVibrant:
+ *                       $ref: '#/components/schemas/PaletteColor'
+ *                     lightMuted:
+ *                       $ref: '#/components/schemas/PaletteColor'
+ *                     muted:
+ *                       $ref: '#/components/schemas/PaletteColor'
+ *                     darkMuted:
+ *                       $ref: '#/components/schemas/PaletteColor'
+ *                 pairs:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       role:
+ *                         type: string
+ *                       background:
+ *                         type: string
+ *                       foreground:
+ *                         type: string
+ *                       contrast:
+ *                         type: number
+ *                       aa:
+ *                         type: boolean
+ *                         description: Contrast ≥ 4.5
+ *                       aaLarge:
+ *                         type: boolean
+ *                         description: Contrast ≥ 3
+ *                       aaa:
+ *                         type: boolean
+ *                         description: Contrast ≥ 7
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/palette',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('image'),
+  enforceUploadPolicy(['image']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imagePaletteQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { colors, minContrast, debug } = queryResult.data;
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No image file provided');
+        res.status(400).json({ error: 'No image file provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info({ requestId, fileName: req.file.originalname, size: req.file.size, colors }, 'Processing image palette');
+
+      const sampleStart = Date.now();
+      const sample = await sampleImage(req.file.path);
+      recordStep(debugInfo, 'sample', sampleStart);
+
+      const paletteStart = Date.now();
+      const palette = extractPalette(sample, { colors, minContrast });
+      recordStep(debugInfo, 'palette', paletteStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+        };
+        debugInfo.output = {
+          sample: { width: sample.info.width, height: sample.info.height },
+          colors: palette.colors.length,
+          minContrast,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info({ requestId, durationMs: Date.now() - startedAt }, 'Image palette complete');
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+      }
+
+      res.json({ ...palette, debug: debugInfo });
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image palette error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/card/templates:
+ *   get:
+ *     summary: List share card templates
+ *     description: The templates /v1/image/card can render, with their size, whether they take cover art and the text fields they accept.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Templates, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 templates:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: release-v1
+ *                       description:
+ *                         type: string
+ *                       width:
+ *                         type: integer
+ *                       height:
+ *                         type: integer
+ *                       cover:
+ *                         type: boolean
+ *                         description: Whether the template has a cover art slot (then cover art is required)
+ *                       fields:
+ *                         type: object
+ *                         additionalProperties:
+ *                           type: object
+ *                           properties:
+ *                             required:
+ *                               type: boolean
+ *                             maxLength:
+ *                               type: integer
+ *                             maxLines:
+ *                               type: integer
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get('/image/card/templates', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ templates: await listCardTemplates() });
+  } catch (error) {
+    logger.error({ err: error }, 'Card template listing error');
+    res.status(500).json({
+      error: 'Failed to load card templates',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * @openapi
+ * /v1/image/card:
+ *   post:
+ *     summary: Render a share card
+ *     description: Renders an Open Graph / social share image from a server-side SVG template (see /v1/image/card/templates). Text fields are sent as form fields; text that overflows its box wraps, shrinks to the template's minimum size and is then truncated with an ellipsis. The cover art, uploaded or fetched from an allow-listed origin, is cropped into the template's cover slot, and the template's accent colour is picked from its palette.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               cover:
+ *                 type: string
+ *                 format: binary
+ *                 description: Cover art (or give coverUrl)
+ *             additionalProperties:
+ *               type: string
+ *               description: Text for the template's fields (e.g. title, artist)
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: template
+ *         in: query
+ *         required: true
+ *         description: Template name, including its version (e.g. release-v1)
+ *         schema:
+ *           type: string
+ *       - name: coverUrl
+ *         in: query
+ *         description: Fetch the cover art from this URL instead of an upload. Its origin must be in IMAGE_SOURCE_ALLOWED_ORIGINS.
+ *         schema:
+ *           type: string
+ *           format: uri
+ *       - name: accent
+ *         in: query
+ *         description: Accent colour as hex, instead of the one picked from the cover art
+ *         schema:
+ *           type: string
+ *       - name: format
+ *         in: query
+ *         description: Output format
+ *         schema:
+ *           type: string
+ *           enum: [png, jpg, jpeg, webp, avif]
+ *           default: png
+ *       - name: quality
+ *         in: query
+ *         description: Encoder quality (1-100) for formats that support it
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - name: debug
+ *         in: query
+ *         description: Debug level for response headers
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Rendered card
+ *         headers:
+ *           X-Card-Accent:
+ *             description: Accent colour the card was rendered with
+ *             schema:
+ *               type: string
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid request (unknown template, missing or too long text, missing cover art)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: coverUrl origin not allowed
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ *       502:
+ *         description: Cover art could not be fetched
+ *       504:
+ *         description: Cover art source timed out
+ */
+router.post(
+  '/image/card',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('cover'),
+  enforceUploadPolicy(['cover']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageCardQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const query = queryResult.data;
+
+      if (query.debug) {
+        debugInfo = createDebugInfo(query.debug, requestId);
+      }
+
+      const template = await loadCardTemplate(query.template);
+      if (!template) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: [`template: unknown template "${query.template}"`],
+          debug: debugInfo,
+        });
+        return;
+      }
+
+      const textResult = parseCardText(template, req.body ?? {});
+      if ('details' in textResult) {
+        res.status(400).json({ error: 'Invalid parameters', details: textResult.details, debug: debugInfo });
+        return;
+      }
+
+      if (req.file && query.coverUrl) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: ['coverUrl: upload a cover or give coverUrl, not both'],
+          debug: debugInfo,
+        });
+        return;
+      }
+
+      let cover: ImageSource | undefined = req.file?.path;
+      if (query.coverUrl) {
+        const coverUrl = new URL(query.coverUrl);
+        if (!isAllowedSourceOrigin(coverUrl, parseAllowedOrigins(env.IMAGE_SOURCE_ALLOWED_ORIGINS))) {
+          logger.warn({ requestId, origin: coverUrl.origin }, 'Cover origin not allowed');
+          res.status(403).json({ error: 'Source origin not allowed', details: coverUrl.origin, debug: debugInfo });
+          return;
+        }
+        const fetchStart = Date.now();
+        const fetched = await fetchSourceImage(coverUrl, {
+          timeoutMs: env.IMAGE_FETCH_TIMEOUT_MS,
+          maxBytes: IMAGE_UPLOAD_MAX_BYTES,
+        });
+        recordStep(debugInfo, 'fetch', fetchStart);
+        if (!fetched.ok) {
+          logger.warn({ requestId, source: coverUrl.href, status: fetched.status }, fetched.message);
+          // A 404 here would read as a missing endpoint
+          res.status(fetched.status === 404 ? 502 : fetched.status).json({
+            error: 'Failed to fetch cover image',
+            details: fetched.message,
+            debug: debugInfo,
+          });
+          return;
+        }
+
+        // Fetched covers get the same policy check as uploads, which the
+        // middleware only sees for multipart files
+        const policyResult = resolveUploadPolicy(req.query);
+        if (policyResult.ok && policyResult.policy) {
+          const policyStart = Date.now();
+          const { failures } = await checkImagePolicy(fetched.data, policyResult.policy);
+          recordStep(debugInfo, 'policy', policyStart);
+          if (failures.length > 0) {
+            logger.warn({ requestId, policy: policyResult.name, details: failures }, 'Cover rejected by policy');
+            res.status(422).json({
+              error: 'Image rejected by upload policy',
+              policy: policyResult.name,
+              details: failures,
+              debug: debugInfo,
+            });
+            return;
+          }
+        }
+        cover = fetched.data;
+      }
+
+      if (template.cover && !cover) {
+        logger.warn({ requestId }, 'No cover image provided');
+        res.status(400).json({ error: 'No cover image provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info({ requestId, template: template.name, format: query.format }, 'Processing share card');
+
+      const card = await renderCard(
+        template,
+        textResult.text,
+        { cover, accent: query.accent, format: query.format, quality: query.quality },
+        debugInfo
+      );
+
+      if (debugInfo) {
+        if (req.file) {
+          debugInfo.input = {
+            fileName: req.file.originalname,
+            mimeType: req.file.mimetype,
+            sizeBytes: req.file.size,
+          };
+        } else if (query.coverUrl) {
+          debugInfo.input = { coverUrl: query.coverUrl };
+        }
+        debugInfo.output = {
+          template: template.name,
+          format: query.format,
+          width: template.width,
+          height: template.height,
+          accent: card.colours.accent,
+          accentSource: card.accentSource,
+          text: card.text,
+          sizeBytes: card.data.length,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+        const truncated = card.text.filter((layout) => layout.truncated).map((layout) => layout.field);
+        if (truncated.length > 0) {
+          debugInfo.warnings = [`Text truncated to fit: ${truncated.join(', ')}`];
+        }
+      }
+
+      logger.info(
+        { requestId, outputSize: card.data.length, durationMs: Date.now() - startedAt },
+        'Share card complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+        res.set('X-Debug-Info', encodeDebugInfo(debugInfo));
+      }
+
+      res.set('X-Card-Accent', card.colours.accent);
+      res.set('Content-Type', CONTENT_TYPE_MAP[query.format]);
+      res.set('Content-Length', card.data.length.toString());
+      res.send(card.data);
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Share card error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/placeholder:
+ *   post:
+ *     summary: Generate low-quality image placeholders
+ *     description: Upload an image and receive a BlurHash, a ThumbHash (base64) and a tiny base64 data URI preview, all computed in-service from the auto-oriented pixels sharp decoded.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The source image
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: componentsX
+ *         in: query
+ *         description: BlurHash horizontal components (1-9)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 9
+ *           default: 4
+ *       - name: componentsY
+ *         in: query
+ *         description: BlurHash vertical components (1-9)
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 9
+ *           default: 3
+ *       - name: lqipWidth
+ *         in: query
+ *         description: Width of the inline preview in pixels (4-64)
+ *         schema:
+ *           type: integer
+ *           minimum: 4
+ *           maximum: 64
+ *           default: 16
+ *       - name: lqipFormat
+ *         in: query
+ *         description: Encoding of the inline preview
+ *         schema:
+ *           type: string
+ *           enum: [webp, jpg, png]
+ *           default: webp
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; debug info is included in the response body
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Placeholders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 width:
+ *                   type: integer
+ *                 height:
+ *                   type: integer
+ *                 blurhash:
+ *                   type: string
+ *                 thumbhash:
+ *                   type: string
+ *                   description: Base64-encoded ThumbHash bytes
+ *                 lqip:
+ *                   type: object
+ *                   properties:
+ *                     dataUri:
+ *                       type: string
+ *                     format:
+ *                       type: string
+ *                     width:
+ *                       type: integer
+ *                     height:
+ *                       type: integer
+ *                     sizeBytes:
+ *                       type: integer
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/placeholder',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('image'),
+  enforceUploadPolicy(['image']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imagePlaceholderQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { componentsX, componentsY, lqipWidth, lqipFormat, debug } = queryResult.data;
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No image file provided');
+        res.status(400).json({ error: 'No image file provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info({ requestId, fileName: req.file.originalname, size: req.file.size }, 'Processing image placeholders');
+
+      const decodeStart = Date.now();
+      const decoded = await decodeImage(req.file.path);
+      recordStep(debugInfo, 'decode', decodeStart);
+
+      const placeholderStart = Date.now();
+      const placeholder = await createPlaceholders(decoded, { componentsX, componentsY, lqipWidth, lqipFormat });
+      recordStep(debugInfo, 'placeholders', placeholderStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+          width: decoded.info.width,
+          height: decoded.info.height,
+        };
+        debugInfo.output = {
+          componentsX,
+          componentsY,
+          lqipSizeBytes: placeholder.lqip.sizeBytes,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info({ requestId, durationMs: Date.now() - startedAt }, 'Image placeholders complete');
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+      }
+
+      res.json({ ...placeholder, debug: debugInfo });
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image placeholder error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/hash:
+ *   post:
+ *     summary: Compute perceptual hashes
+ *     description: Upload an image and receive its 64-bit aHash (average), dHash (difference) and pHash (DCT) as 16-digit hex strings. Hashes are computed from the auto-oriented pixels sharp decodes, with transparency flattened onto white, so re-encoded, resized or lightly cropped copies of a photo hash alike. Compare hashes by Hamming distance (see /v1/image/compare).
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The source image
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; debug info is included in the response body
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Perceptual hashes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ahash:
+ *                   type: string
+ *                   example: 000327070f1f7fff
+ *                 dhash:
+ *                   type: string
+ *                 phash:
+ *                   type: string
+ *                 bits:
+ *                   type: integer
+ *                   example: 64
+ *       400:
+ *         description: Invalid request
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/hash',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.single('image'),
+  enforceUploadPolicy(['image']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageHashQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { debug } = queryResult.data;
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!req.file) {
+        logger.warn({ requestId }, 'No image file provided');
+        res.status(400).json({ error: 'No image file provided', debug: debugInfo });
+        return;
+      }
+
+      logger.info({ requestId, fileName: req.file.originalname, size: req.file.size }, 'Processing image hashes');
+
+      const hashStart = Date.now();
+      const hashes = await createImageHashes(req.file.path);
+      recordStep(debugInfo, 'hash', hashStart);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: req.file.originalname,
+          mimeType: req.file.mimetype,
+          sizeBytes: req.file.size,
+        };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info({ requestId, durationMs: Date.now() - startedAt }, 'Image hashes complete');
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+      }
+
+      res.json({ ...hashes, bits: IMAGE_HASH_BITS, debug: debugInfo });
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image hash error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /v1/image/compare:
+ *   post:
+ *     summary: Detect near-duplicate images
+ *     description: Compares two uploaded images, or one uploaded image against a previously computed hash, by the Hamming distance between their perceptual hashes. A distance of at most 4 (of 64 bits) is reported as `same`, at most 12 as `similar` and anything larger as `different`. Re-encoded and resized copies usually land in `same`, small crops in `similar`; mirrored images are `different`.
+ *     tags:
+ *       - Image
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - image
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *                 description: The image to check
+ *               other:
+ *                 type: string
+ *                 format: binary
+ *                 description: The image to compare against (omit when `hash` is given)
+ *     parameters:
+ *       - $ref: '#/components/parameters/UploadPolicy'
+ *       - name: algorithm
+ *         in: query
+ *         description: Hash to compare by
+ *         schema:
+ *           type: string
+ *           enum: [ahash, dhash, phash]
+ *           default: phash
+ *       - name: hash
+ *         in: query
+ *         description: Known hash (16 hex digits, computed with `algorithm` by /v1/image/hash) to compare the upload against instead of a second image
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{16}$'
+ *       - name: debug
+ *         in: query
+ *         description: Debug level; debug info is included in the response body
+ *         schema:
+ *           type: string
+ *           enum: [debug, info, warn, error, crit]
+ *     responses:
+ *       200:
+ *         description: Comparison result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 algorithm:
+ *                   type: string
+ *                 distance:
+ *                   type: integer
+ *                   description: Number of differing hash bits (0-64)
+ *                 bits:
+ *                   type: integer
+ *                 similarity:
+ *                   type: number
+ *                   description: 1 - distance / bits
+ *                 verdict:
+ *                   type: string
+ *                   enum: [same, similar, different]
+ *                 hashes:
+ *                   type: array
+ *                   description: Hash of `image`, then of `other` (or the given `hash`)
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: Invalid request (missing image, or both/neither of `other` and `hash`)
+ *       401:
+ *         description: Unauthorized
+ *       422:
+ *         $ref: '#/components/responses/UploadPolicyRejected'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/image/compare',
+  mediaRateLimitMiddleware,
+  cleanupUploads,
+  upload.fields([
+    { name: 'image', maxCount: 1 },
+    { name: 'other', maxCount: 1 },
+  ]),
+  enforceUploadPolicy(['image', 'other']),
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let debugInfo: DebugInfo | undefined;
+
+    try {
+      const queryResult = imageCompareQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const errors = queryResult.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`);
+        res.status(400).json({ error: 'Invalid parameters', details: errors });
+        return;
+      }
+
+      const { algorithm, hash, debug } = queryResult.data;
+
+      const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const file = files?.image?.[0];
+      const otherFile = files?.other?.[0];
+
+      if (debug) {
+        debugInfo = createDebugInfo(debug, requestId);
+      }
+
+      if (!file) {
+        logger.warn({ requestId }, 'No image file provided');
+        res.status(400).json({ error: 'No image file provided', debug: debugInfo });
+        return;
+      }
+
+      if (!otherFile === !hash) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: ['other: provide either a second image or a hash to compare against'],
+          debug: debugInfo,
+        });
+        return;
+      }
+
+      logger.info(
+        { requestId, fileName: file.originalname, otherFileName: otherFile?.originalname, algorithm },
+        'Processing image comparison'
+      );
+
+      const hashStart = Date.now();
+      const hashes = await createImageHashes(file.path);
+      const otherHash = otherFile ? (await createImageHashes(otherFile.path))[algorithm] : (hash as string);
+      recordStep(debugInfo, 'hash', hashStart);
+
+      const comparison = compareHashes(algorithm, hashes[algorithm], otherHash);
+
+      if (debugInfo) {
+        debugInfo.input = {
+          fileName: file.originalname,
+          sizeBytes: file.size,
+          otherFileName: otherFile?.originalname,
+          otherSizeBytes: otherFile?.size,
+        };
+        debugInfo.output = { hashes };
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+
+      logger.info(
+        { requestId, distance: comparison.distance, verdict: comparison.verdict, durationMs: Date.now() - startedAt },
+        'Image comparison complete'
+      );
+
+      res.set('X-Request-Id', requestId);
+      if (debugInfo) {
+        res.set('X-Debug-Level', debugInfo.level);
+        res.set('X-Processing-Time-Ms', debugInfo.durationMs?.toString() || '0');
+      }
+
+      res.json({ ...comparison, debug: debugInfo });
+    } catch (error) {
+      if (debugInfo) {
+        debugInfo.error = error instanceof Error ? error.message : 'Unknown error';
+        debugInfo.durationMs = Date.now() - startedAt;
+      }
+      logger.error({ requestId, err: error }, 'Image comparison error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        debug: debugInfo,
+      });
+    }
+  }
+);
+
 export default router;
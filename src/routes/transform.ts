@@ -0,0 +1,204 @@
+import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
+import { env } from '../config/env';
+import { CONTENT_TYPE_MAP } from '../types';
+import { convertImage } from '../utils/convert';
+import { parseImageConvertQuery } from '../utils/preset';
+import {
+  verifyTransformSignature,
+  parseTransformOptions,
+  decodeSourceUrl,
+  parseAllowedOrigins,
+  isAllowedSourceOrigin,
+  fetchSourceImage,
+} from '../utils/signedUrl';
+import logger from '../utils/logger';
+import { mediaRateLimitMiddleware } from '../middleware/rateLimit';
+import { IMAGE_UPLOAD_MAX_BYTES } from '../middleware/upload';
+
+const router = Router();
+
+// Output is fully determined by the signed path (and Accept for format=auto)
+const TRANSFORM_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * @openapi
+ * /v1/image/t/{signature}/{options}/{encodedSourceUrl}:
+ *   get:
+ *     summary: Transform a remote image via a signed URL
+ *     description: Fetches the source image from an allow-listed origin (IMAGE_SOURCE_ALLOWED_ORIGINS) and applies the same transformations as /v1/image/convert. No API key is needed; instead the path is signed with IMAGE_URL_SIGNING_KEY, so URLs can be embedded in pages and cached by CDNs. Responses carry a one-year immutable Cache-Control and a strong ETag (SHA-256 of the output), and honour If-None-Match.
+ *     tags:
+ *       - Image
+ *     parameters:
+ *       - name: signature
+ *         in: path
+ *         required: true
+ *         description: base64url HMAC-SHA256 of `{options}/{encodedSourceUrl}` (URL-decoded) keyed with IMAGE_URL_SIGNING_KEY
+ *         schema:
+ *           type: string
+ *       - name: options
+ *         in: path
+ *         required: true
+ *         description: /image/convert query parameters as a URL-encoded query string (e.g. `width=400&format=webp` or `preset=avatar-128`), or `_` for the defaults. `debug` and uploaded watermarks are not available.
+ *         schema:
+ *           type: string
+ *           example: width=400&format=webp
+ *       - name: encodedSourceUrl
+ *         in: path
+ *         required: true
+ *         description: base64url-encoded absolute http(s) URL of the source image
+ *         schema:
+ *           type: string
+ *       - name: If-None-Match
+ *         in: header
+ *         description: ETag of a cached copy; a match returns 304
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transformed image
+ *         headers:
+ *           ETag:
+ *             description: Strong validator (quoted base64url SHA-256 of the body)
+ *             schema:
+ *               type: string
+ *           Cache-Control:
+ *             schema:
+ *               type: string
+ *               example: public, max-age=31536000, immutable
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       304:
+ *         description: Not modified (If-None-Match matched the ETag)
+ *       400:
+ *         description: Invalid options or source URL
+ *       403:
+ *         description: Invalid signature or source origin not allowed
+ *       404:
+ *         description: Source image not found
+ *       422:
+ *         description: maxBytes cannot be met
+ *       500:
+ *         description: Server error
+ *       502:
+ *         description: Source could not be fetched (HTTP error, redirect, too large)
+ *       503:
+ *         description: Signed URLs are not configured (IMAGE_URL_SIGNING_KEY unset)
+ *       504:
+ *         description: Source fetch timed out
+ */
+router.get(
+  '/image/t/:signature/:options/:encodedSourceUrl',
+  mediaRateLimitMiddleware,
+  async (req: Request, res: Response): Promise<void> => {
+    const requestId = crypto.randomUUID();
+    const startedAt = Date.now();
+    const { signature, options, encodedSourceUrl } = req.params as Record<string, string>;
+    res.set('X-Request-Id', requestId);
+
+    try {
+      if (!env.IMAGE_URL_SIGNING_KEY) {
+        logger.error({ requestId }, 'IMAGE_URL_SIGNING_KEY is not set');
+        res.status(503).json({ error: 'Signed URLs are not configured' });
+        return;
+      }
+
+      if (!verifyTransformSignature(signature, options, encodedSourceUrl, env.IMAGE_URL_SIGNING_KEY)) {
+        logger.warn({ requestId }, 'Invalid transform signature');
+        res.status(403).json({ error: 'Invalid signature' });
+        return;
+      }
+
+      const sourceUrl = decodeSourceUrl(encodedSourceUrl);
+      if (!sourceUrl) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: ['encodedSourceUrl: expected a base64url-encoded http(s) URL'],
+        });
+        return;
+      }
+
+      if (!isAllowedSourceOrigin(sourceUrl, parseAllowedOrigins(env.IMAGE_SOURCE_ALLOWED_ORIGINS))) {
+        logger.warn({ requestId, origin: sourceUrl.origin }, 'Source origin not allowed');
+        res.status(403).json({
+          error: 'Source origin not allowed',
+          details: sourceUrl.origin,
+        });
+        return;
+      }
+
+      const parsedOptions = parseTransformOptions(options);
+      if ('error' in parsedOptions) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          details: [parsedOptions.error],
+        });
+        return;
+      }
+      const queryResult = parseImageConvertQuery(parsedOptions.query);
+      if (!queryResult.ok) {
+        res.status(400).json({ error: 'Invalid parameters', details: queryResult.details });
+        return;
+      }
+
+      logger.info({ requestId, source: sourceUrl.href, options }, 'Processing signed image transformation');
+
+      const fetched = await fetchSourceImage(sourceUrl, {
+        timeoutMs: env.IMAGE_FETCH_TIMEOUT_MS,
+        // Same cap as the /image/convert upload limit
+        maxBytes: IMAGE_UPLOAD_MAX_BYTES,
+      });
+      if (!fetched.ok) {
+        logger.warn({ requestId, source: sourceUrl.href, status: fetched.status }, fetched.message);
+        res.status(fetched.status).json({
+          error: 'Failed to fetch source image',
+          details: fetched.message,
+        });
+        return;
+      }
+
+      const result = await convertImage(fetched.data, queryResult.data, {
+        accept: req.get('Accept'),
+      });
+      if (!result.ok) {
+        res.status(result.status).json({ error: result.error, details: result.details });
+        return;
+      }
+      const { data: outputBuffer, format, autoFormat } = result;
+
+      logger.info(
+        {
+          requestId,
+          outputSize: outputBuffer.length,
+          durationMs: Date.now() - startedAt,
+        },
+        'Signed image transformation complete'
+      );
+
+      if (autoFormat) {
+        res.vary('Accept');
+      }
+      res.set('Cache-Control', TRANSFORM_CACHE_CONTROL);
+      res.set('ETag', `"${crypto.createHash('sha256').update(outputBuffer).digest('base64url')}"`);
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      res.set('Content-Type', CONTENT_TYPE_MAP[format]);
+      res.set('Content-Length', outputBuffer.length.toString());
+      res.send(outputBuffer);
+    } catch (error) {
+      logger.error({ requestId, err: error }, 'Signed image transformation error');
+      res.status(500).json({
+        error: 'Failed to process image',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+export default router;
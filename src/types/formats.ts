@@ -0,0 +1,4 @@
+// Image formats. Kept free of imports so config/env.ts can build on them
+// without importing the schemas, which read env.
+export const SUPPORTED_IMAGE_FORMATS = ['jpg', 'jpeg', 'png', 'webp', 'avif', 'tiff', 'gif'] as const;
+export type OutputFormat = (typeof SUPPORTED_IMAGE_FORMATS)[number];
@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import { env } from '../config/env';
+import type { ParsedExif } from '../utils/exif';
+import type { IptcFields } from '../utils/iptc';
+import type { XmpFields } from '../utils/xmp';
+import { SUPPORTED_IMAGE_FORMATS, OutputFormat } from './formats';
 
 // Debug levels
 export const DEBUG_LEVELS = ['debug', 'info', 'warn', 'error', 'crit'] as const;
@@ -17,13 +22,15 @@ export type DebugInfo = {
   input?: Record<string, unknown>;
   output?: Record<string, unknown>;
   steps?: DebugStep[];
+  // Process RSS when the request started and the highest value seen at a step boundary
+  memory?: { rssStartBytes: number; rssPeakBytes: number };
   warnings?: string[];
   error?: string;
 };
 
 // Image formats
-export const SUPPORTED_IMAGE_FORMATS = ['jpg', 'jpeg', 'png', 'webp', 'avif', 'tiff', 'gif'] as const;
-export type OutputFormat = (typeof SUPPORTED_IMAGE_FORMATS)[number];
+export { SUPPORTED_IMAGE_FORMATS } from './formats';
+export type { OutputFormat } from './formats';
 
 export const CONTENT_TYPE_MAP: Record<OutputFormat, string> = {
   jpg: 'image/jpeg',
@@ -39,18 +46,170 @@ export const CONTENT_TYPE_MAP: Record<OutputFormat, string> = {
 export const VALID_FIT_OPTIONS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
 export type FitOption = (typeof VALID_FIT_OPTIONS)[number];
 
+// Smart crop strategies (sharp.strategy) for fit=cover
+export const VALID_CROP_STRATEGIES = ['attention', 'entropy'] as const;
+export type CropStrategy = (typeof VALID_CROP_STRATEGIES)[number];
+
+export type CropRegion = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+// format=auto negotiates one of these from the Accept header and source alpha
+export const AUTO_IMAGE_FORMAT = 'auto';
+export const AUTO_FORMAT_CANDIDATES = ['avif', 'webp', 'png', 'jpg'] as const satisfies readonly OutputFormat[];
+export type RequestedImageFormat = OutputFormat | typeof AUTO_IMAGE_FORMAT;
+
+// Encoder options per output format (mapped onto sharp's per-format options)
+export const ENCODER_OPTIONS = ['quality', 'progressive', 'mozjpeg', 'effort', 'lossless', 'chromaSubsampling'] as const;
+export type EncoderOption = (typeof ENCODER_OPTIONS)[number];
+
+export const FORMAT_ENCODER_OPTIONS: Record<OutputFormat, readonly EncoderOption[]> = {
+  jpg: ['quality', 'progressive', 'mozjpeg', 'chromaSubsampling'],
+  jpeg: ['quality', 'progressive', 'mozjpeg', 'chromaSubsampling'],
+  png: ['quality', 'progressive', 'effort', 'lossless'],
+  webp: ['quality', 'effort', 'lossless'],
+  avif: ['quality', 'effort', 'lossless', 'chromaSubsampling'],
+  tiff: ['quality'],
+  gif: ['progressive', 'effort'],
+};
+
+export const EFFORT_RANGES: Partial<Record<OutputFormat, readonly [number, number]>> = {
+  png: [1, 10],
+  webp: [0, 6],
+  avif: [0, 9],
+  gif: [1, 10],
+};
+
+export const CHROMA_SUBSAMPLING_OPTIONS = ['4:2:0', '4:4:4'] as const;
+
+// Formats whose size can be steered by quality alone (maxBytes search)
+export const MAX_BYTES_FORMATS = ['jpg', 'jpeg', 'webp', 'avif'] as const satisfies readonly OutputFormat[];
+
+// Formats that can carry every frame of an animated source (libvips 8.15
+// writes AVIF as a single image). format=auto negotiates WebP, falling back to GIF.
+export const ANIMATED_FORMATS = ['gif', 'webp'] as const satisfies readonly OutputFormat[];
+
+// Upper bound for frameStrip (frames sampled from an animation into one row)
+export const MAX_FRAME_STRIP_FRAMES = 64;
+
+// Adjustment limits (pixels for pad, sigma for blur/sharpen)
+export const MAX_PAD = 1000;
+export const MAX_BLUR_SIGMA = 100;
+
+export type PadEdges = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type ImageEncoderOptions = {
+  quality?: number;
+  progressive?: boolean;
+  mozjpeg?: boolean;
+  effort?: number;
+  lossless?: boolean;
+  chromaSubsampling?: (typeof CHROMA_SUBSAMPLING_OPTIONS)[number];
+};
+
+// Metadata policies: strip everything, keep only copyright/artist EXIF, or keep
+// all metadata (GPS is removed regardless)
+export const METADATA_POLICIES = ['strip', 'copyright', 'all'] as const;
+export type MetadataPolicy = (typeof METADATA_POLICIES)[number];
+
+// Watermark / overlay compositing
+export const OVERLAY_GRAVITIES = [
+  'centre',
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+] as const;
+export type OverlayGravity = (typeof OVERLAY_GRAVITIES)[number];
+
+export type OverlayPlacement = {
+  gravity: OverlayGravity;
+  left?: number;
+  top?: number;
+  tile: boolean;
+};
+
+export type OverlayOptions = OverlayPlacement & {
+  margin: number;
+  opacity: number;
+  scale?: number;
+};
+
+// Low-quality image placeholders
+export const LQIP_FORMATS = ['webp', 'jpg', 'png'] as const satisfies readonly OutputFormat[];
+export type LqipFormat = (typeof LQIP_FORMATS)[number];
+
+export const DEFAULT_PLACEHOLDER_OPTIONS = {
+  componentsX: 4,
+  componentsY: 3,
+  lqipWidth: 16,
+  lqipFormat: 'webp',
+} as const satisfies { componentsX: number; componentsY: number; lqipWidth: number; lqipFormat: LqipFormat };
+
+export type ImagePlaceholder = {
+  width: number;
+  height: number;
+  blurhash: string;
+  thumbhash: string;
+  lqip: {
+    dataUri: string;
+    format: LqipFormat;
+    width: number;
+    height: number;
+    sizeBytes: number;
+  };
+};
+
 // Audio formats
 export const SUPPORTED_AUDIO_FORMATS = ['mp3', 'wav', 'ogg', 'flac', 'aac', 'm4a', 'webm'] as const;
 export type AudioFormat = (typeof SUPPORTED_AUDIO_FORMATS)[number];
 
 // Zod Schemas for validation
-export const imageConvertQuerySchema = z.object({
+const commaSeparated = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+const queryBoolean = z
+  .string()
+  .transform((v) => v.toLowerCase())
+  .pipe(z.enum(['true', 'false', '1', '0']))
+  .transform((v) => v === 'true' || v === '1');
+
+const hexColour = z
+  .string()
+  .regex(/^#?[0-9a-f]{6}$/i, 'Expected a hex colour (e.g. ffffff)')
+  .transform((v) => `#${v.replace('#', '').toLowerCase()}`);
+
+// #rrggbb or #rrggbbaa, so padding and rotated corners can be transparent
+const hexColourWithAlpha = z
+  .string()
+  .regex(/^#?([0-9a-f]{6}|[0-9a-f]{8})$/i, 'Expected a hex colour (e.g. ffffff or ffffff00)')
+  .transform((v) => `#${v.replace('#', '').toLowerCase()}`);
+
+// Adjustments that would mix pixels across stacked frames or change the frame geometry
+const MULTI_FRAME_UNSAFE_ADJUSTMENTS = ['trim', 'rotate', 'flip', 'flop', 'blur', 'sharpen'] as const;
+
+const imageConvertBaseSchema = z.object({
   format: z
     .string()
     .transform((v) => v.toLowerCase())
-    .pipe(z.enum(SUPPORTED_IMAGE_FORMATS))
+    .pipe(z.enum([...SUPPORTED_IMAGE_FORMATS, AUTO_IMAGE_FORMAT]))
     .optional()
-    .default('jpg'),
+    .default(env.IMAGE_DEFAULT_FORMAT),
   width: z.coerce.number().int().positive().optional(),
   height: z.coerce.number().int().positive().optional(),
   fit: z
@@ -59,6 +218,91 @@ export const imageConvertQuerySchema = z.object({
     .pipe(z.enum(VALID_FIT_OPTIONS))
     .optional()
     .default('cover'),
+  crop: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(VALID_CROP_STRATEGIES))
+    .optional(),
+  fx: z.coerce.number().min(0).max(1).optional(),
+  fy: z.coerce.number().min(0).max(1).optional(),
+  extract: z
+    .string()
+    .transform((v) => commaSeparated(v).map(Number))
+    .pipe(
+      z
+        .tuple([
+          z.number().int().nonnegative(),
+          z.number().int().nonnegative(),
+          z.number().int().positive(),
+          z.number().int().positive(),
+        ])
+        .transform(([left, top, width, height]): CropRegion => ({ left, top, width, height }))
+    )
+    .optional(),
+  quality: z.coerce.number().int().min(1).max(100).optional(),
+  progressive: queryBoolean.optional(),
+  mozjpeg: queryBoolean.optional(),
+  effort: z.coerce.number().int().min(0).max(10).optional(),
+  lossless: queryBoolean.optional(),
+  chromaSubsampling: z.enum(CHROMA_SUBSAMPLING_OPTIONS).optional(),
+  maxBytes: z.coerce.number().int().min(1).optional(),
+  autoOrient: queryBoolean.optional().default(true),
+  metadata: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(METADATA_POLICIES))
+    .optional()
+    .default('strip'),
+  embedIcc: queryBoolean.optional().default(false),
+  placeholders: queryBoolean.optional().default(false),
+  watermark: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/i, 'Expected a watermark asset name (letters, digits, - and _)')
+    .optional(),
+  overlayText: z.string().trim().min(1).max(200).optional(),
+  overlayColor: hexColour.optional().default('#ffffff'),
+  overlayGravity: z
+    .string()
+    .transform((v) => v.toLowerCase().replace(/^center$/, 'centre'))
+    .pipe(z.enum(OVERLAY_GRAVITIES))
+    .optional()
+    .default('southeast'),
+  overlayLeft: z.coerce.number().int().optional(),
+  overlayTop: z.coerce.number().int().optional(),
+  overlayMargin: z.coerce.number().int().min(0).max(1000).optional().default(0),
+  overlayOpacity: z.coerce.number().min(0).max(1).optional().default(1),
+  overlayScale: z.coerce.number().gt(0).max(1).optional(),
+  overlayTile: queryBoolean.optional().default(false),
+  animated: queryBoolean.optional().default(false),
+  frame: z.coerce.number().int().min(0).optional(),
+  frameStrip: z.coerce.number().int().min(2).max(MAX_FRAME_STRIP_FRAMES).optional(),
+  trim: queryBoolean.optional().default(false),
+  trimThreshold: z.coerce.number().int().min(0).max(255).optional().default(10),
+  rotate: z.coerce.number().min(-360).max(360).optional(),
+  rotateBackground: hexColourWithAlpha.optional().default('#000000'),
+  flip: queryBoolean.optional().default(false),
+  flop: queryBoolean.optional().default(false),
+  grayscale: queryBoolean.optional().default(false),
+  pad: z
+    .string()
+    .transform((v) => commaSeparated(v).map(Number))
+    .pipe(
+      z
+        .array(z.number().int().min(0).max(MAX_PAD))
+        .refine((edges) => [1, 2, 4].includes(edges.length), 'Expected 1, 2 or 4 values (top,right,bottom,left)')
+        .transform((edges): PadEdges => {
+          const [top, right = top, bottom = top, left = right] = edges;
+          return { top, right, bottom, left };
+        })
+    )
+    .optional(),
+  padColor: hexColourWithAlpha.optional().default('#000000'),
+  blur: z.coerce.number().min(0.3).max(MAX_BLUR_SIGMA).optional(),
+  sharpen: z.coerce.number().min(0.01).max(10).optional(),
+  brightness: z.coerce.number().gt(0).max(10).optional(),
+  saturation: z.coerce.number().min(0).max(10).optional(),
+  gamma: z.coerce.number().min(0.34).max(3).optional(),
+  tint: hexColour.optional(),
   debug: z
     .string()
     .transform((v) => v.toLowerCase())
@@ -66,11 +310,690 @@ export const imageConvertQuerySchema = z.object({
     .optional(),
 });
 
+export const imageConvertQuerySchema = imageConvertBaseSchema.superRefine((query, ctx) => {
+  // With format=auto, an option is accepted if any candidate supports it; the
+  // negotiated format only receives the options it understands.
+  const supported =
+    query.format === AUTO_IMAGE_FORMAT
+      ? AUTO_FORMAT_CANDIDATES.flatMap((candidate) => FORMAT_ENCODER_OPTIONS[candidate])
+      : FORMAT_ENCODER_OPTIONS[query.format];
+  for (const option of ENCODER_OPTIONS) {
+    if (query[option] !== undefined && !supported.includes(option)) {
+      ctx.addIssue({ code: 'custom', path: [option], message: `${option} is not supported for format ${query.format}` });
+    }
+  }
+  const effortRange = query.format === AUTO_IMAGE_FORMAT ? undefined : EFFORT_RANGES[query.format];
+  if (query.effort !== undefined && effortRange && (query.effort < effortRange[0] || query.effort > effortRange[1])) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['effort'],
+      message: `effort for ${query.format} must be between ${effortRange[0]} and ${effortRange[1]}`,
+    });
+  }
+  if (query.lossless === true && (query.quality !== undefined || query.maxBytes !== undefined)) {
+    ctx.addIssue({ code: 'custom', path: ['lossless'], message: 'lossless cannot be combined with quality or maxBytes' });
+  }
+  // With format=auto, maxBytes is checked against the negotiated format (see convertImage)
+  if (
+    query.maxBytes !== undefined &&
+    query.format !== AUTO_IMAGE_FORMAT &&
+    !(MAX_BYTES_FORMATS as readonly string[]).includes(query.format)
+  ) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['maxBytes'],
+      message: `maxBytes is only supported for formats: ${MAX_BYTES_FORMATS.join(', ')}`,
+    });
+  }
+
+  if ((query.fx === undefined) !== (query.fy === undefined)) {
+    ctx.addIssue({ code: 'custom', path: ['fx'], message: 'fx and fy must be provided together' });
+  }
+  if (query.crop && query.fx !== undefined) {
+    ctx.addIssue({ code: 'custom', path: ['crop'], message: 'crop cannot be combined with a focal point (fx, fy)' });
+  }
+  if ((query.crop || query.fx !== undefined) && query.fit !== 'cover') {
+    ctx.addIssue({ code: 'custom', path: ['fit'], message: 'crop and focal point require fit=cover' });
+  }
+
+  if (query.watermark && query.overlayText) {
+    ctx.addIssue({ code: 'custom', path: ['overlayText'], message: 'cannot be combined with watermark' });
+  }
+  if ((query.overlayLeft === undefined) !== (query.overlayTop === undefined)) {
+    ctx.addIssue({ code: 'custom', path: ['overlayLeft'], message: 'overlayLeft and overlayTop must be provided together' });
+  }
+  if (query.overlayTile && query.overlayLeft !== undefined) {
+    ctx.addIssue({ code: 'custom', path: ['overlayTile'], message: 'cannot be combined with overlayLeft/overlayTop' });
+  }
+
+  // Multi-frame modes: keep the animation, pick one frame, or lay frames out in a row
+  const frameModes = [query.animated && 'animated', query.frame !== undefined && 'frame', query.frameStrip && 'frameStrip'];
+  if (frameModes.filter(Boolean).length > 1) {
+    ctx.addIssue({ code: 'custom', path: ['animated'], message: 'use only one of animated, frame and frameStrip' });
+  }
+  if (query.animated) {
+    if (query.format !== AUTO_IMAGE_FORMAT && !(ANIMATED_FORMATS as readonly string[]).includes(query.format)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['format'],
+        message: `animated output requires format ${ANIMATED_FORMATS.join(', ')} or auto`,
+      });
+    }
+    if (query.maxBytes !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['maxBytes'], message: 'maxBytes is not supported for animated output' });
+    }
+    if (query.watermark || query.overlayText) {
+      ctx.addIssue({ code: 'custom', path: ['animated'], message: 'overlays are not supported for animated output' });
+    }
+  }
+  if ((query.animated || query.frameStrip) && query.crop) {
+    ctx.addIssue({ code: 'custom', path: ['crop'], message: 'smart crop is not supported for multi-frame output' });
+  }
+  if (query.animated || query.frameStrip) {
+    for (const option of MULTI_FRAME_UNSAFE_ADJUSTMENTS) {
+      if (query[option] !== undefined && query[option] !== false) {
+        ctx.addIssue({ code: 'custom', path: [option], message: `${option} is not supported for multi-frame output` });
+      }
+    }
+  }
+
+  if (query.tint && query.grayscale) {
+    ctx.addIssue({ code: 'custom', path: ['tint'], message: 'cannot be combined with grayscale' });
+  }
+});
+
 export type ImageConvertQuery = z.infer<typeof imageConvertQuerySchema>;
 
+// /image/convert options a preset can set or allow callers to override (all but debug)
+export const IMAGE_CONVERT_OPTIONS = Object.keys(imageConvertBaseSchema.shape).filter((key) => key !== 'debug');
+
+export const IMAGE_PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export const imagePresetSchema = z
+  .object({
+    description: z.string().optional(),
+    // Query values as a caller would send them (numbers and booleans are accepted in config)
+    options: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]).transform(String)),
+    // Options a caller may still pass alongside preset=
+    allowOverrides: z.array(z.string()).default([]),
+  })
+  .strict()
+  .superRefine((preset, ctx) => {
+    for (const key of Object.keys(preset.options)) {
+      if (!IMAGE_CONVERT_OPTIONS.includes(key)) {
+        ctx.addIssue({ code: 'custom', path: ['options', key], message: `${key} is not a /image/convert option` });
+      }
+    }
+    for (const [index, key] of preset.allowOverrides.entries()) {
+      if (!IMAGE_CONVERT_OPTIONS.includes(key)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['allowOverrides', index],
+          message: `${key} is not a /image/convert option`,
+        });
+      }
+    }
+    const result = imageConvertQuerySchema.safeParse(preset.options);
+    for (const issue of result.error?.issues ?? []) {
+      ctx.addIssue({ code: 'custom', path: ['options', ...issue.path], message: issue.message });
+    }
+  });
+
+export type ImagePreset = z.infer<typeof imagePresetSchema>;
+
+export const imagePresetQuerySchema = z.object({
+  preset: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.string().regex(IMAGE_PRESET_NAME_PATTERN, 'Expected a preset name (letters, digits, - and _)'))
+    .optional(),
+});
+
+// Responsive variant sets
+export const VARIANT_OUTPUT_MODES = ['zip', 'multipart'] as const;
+export type VariantOutputMode = (typeof VARIANT_OUTPUT_MODES)[number];
+
+export const MAX_VARIANT_WIDTHS = 10;
+export const MAX_VARIANT_FORMATS = 4;
+
+export const imageVariantsQuerySchema = imageConvertBaseSchema.pick({ fit: true, placeholders: true, debug: true }).extend({
+  widths: z
+    .string()
+    .transform((v) => commaSeparated(v).map(Number))
+    .pipe(z.array(z.number().int().positive().max(10000)).min(1).max(MAX_VARIANT_WIDTHS)),
+  formats: z
+    .string()
+    .transform(commaSeparated)
+    .pipe(z.array(z.enum(SUPPORTED_IMAGE_FORMATS)).min(1).max(MAX_VARIANT_FORMATS))
+    // jpeg and jpg are the same encoder: keep one group per format
+    .transform((formats) => [...new Set(formats.map((format) => (format === 'jpeg' ? 'jpg' : format)))])
+    .optional()
+    .default(['jpg']),
+  aspect: z
+    .string()
+    .regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/, 'Expected aspect ratio as width:height (e.g. 16:9)')
+    .transform((v) => {
+      const [w, h] = v.split(':').map(Number);
+      return w / h;
+    })
+    .pipe(z.number().positive().finite())
+    .optional(),
+  output: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(VARIANT_OUTPUT_MODES))
+    .optional()
+    .default('zip'),
+  baseUrl: z.string().max(2048).optional(),
+});
+
+export type ImageVariantsQuery = z.infer<typeof imageVariantsQuerySchema>;
+
+export type ImageVariant = {
+  fileName: string;
+  format: OutputFormat;
+  contentType: string;
+  width: number;
+  height: number;
+  sizeBytes: number;
+};
+
+export type ImageVariantManifest = {
+  source: {
+    fileName: string;
+    width: number;
+    height: number;
+  };
+  fit: FitOption;
+  variants: ImageVariant[];
+  srcset: Partial<Record<OutputFormat, string>>;
+  placeholder?: ImagePlaceholder;
+};
+
+export const imagePlaceholderQuerySchema = z.object({
+  componentsX: z.coerce.number().int().min(1).max(9).optional().default(DEFAULT_PLACEHOLDER_OPTIONS.componentsX),
+  componentsY: z.coerce.number().int().min(1).max(9).optional().default(DEFAULT_PLACEHOLDER_OPTIONS.componentsY),
+  lqipWidth: z.coerce.number().int().min(4).max(64).optional().default(DEFAULT_PLACEHOLDER_OPTIONS.lqipWidth),
+  lqipFormat: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(LQIP_FORMATS))
+    .optional()
+    .default(DEFAULT_PLACEHOLDER_OPTIONS.lqipFormat),
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type ImagePlaceholderQuery = z.infer<typeof imagePlaceholderQuerySchema>;
+
+// Image inspection
+export const DEFAULT_HISTOGRAM_BINS = 16;
+
+export const imageInfoQuerySchema = z.object({
+  bins: z.coerce.number().int().min(2).max(256).optional().default(DEFAULT_HISTOGRAM_BINS),
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type ImageInfoQuery = z.infer<typeof imageInfoQuerySchema>;
+
+export type ChannelHistogram = {
+  channel: string;
+  min: number;
+  max: number;
+  mean: number;
+  stdev: number;
+  bins: number[];
+};
+
+export type ImageInfo = {
+  format: string | null;
+  sizeBytes: number;
+  width: number;
+  height: number;
+  orientation: number;
+  displayWidth: number;
+  displayHeight: number;
+  hasAlpha: boolean;
+  isOpaque: boolean;
+  channels: number;
+  space: string | null;
+  depth: string | null;
+  density: number | null;
+  hasIccProfile: boolean;
+  isProgressive: boolean;
+  pages: number;
+  loop: number | null;
+  exif: ParsedExif | null;
+  iptc: IptcFields | null;
+  xmp: XmpFields | null;
+  dominant: { r: number; g: number; b: number; hex: string };
+  histogram: ChannelHistogram[];
+};
+
+// Colour palettes
+export const MAX_PALETTE_COLOURS = 16;
+
+// Material/Android Palette style roles, in the order they are assigned
+export const PALETTE_ROLES = ['lightVibrant', 'vibrant', 'darkVibrant', 'lightMuted', 'muted', 'darkMuted'] as const;
+export type PaletteRole = (typeof PALETTE_ROLES)[number];
+
+export type PaletteColour = {
+  hex: string;
+  rgb: { r: number; g: number; b: number };
+  hsl: { h: number; s: number; l: number };
+  population: number;
+  share: number;
+};
+
+export type PaletteContrastPair = {
+  role: PaletteRole;
+  background: string;
+  foreground: string;
+  contrast: number;
+  aa: boolean;
+  aaLarge: boolean;
+  aaa: boolean;
+};
+
+export type ImagePalette = {
+  colors: PaletteColour[];
+  roles: Record<PaletteRole, PaletteColour | null>;
+  pairs: PaletteContrastPair[];
+};
+
+export const imagePaletteQuerySchema = z.object({
+  colors: z.coerce.number().int().min(1).max(MAX_PALETTE_COLOURS).optional().default(8),
+  minContrast: z.coerce.number().min(1).max(21).optional().default(4.5),
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type ImagePaletteQuery = z.infer<typeof imagePaletteQuerySchema>;
+
+// Perceptual hashing
+export const HASH_ALGORITHMS = ['ahash', 'dhash', 'phash'] as const;
+export type HashAlgorithm = (typeof HASH_ALGORITHMS)[number];
+
+export const IMAGE_HASH_BITS = 64;
+
+export type HashVerdict = 'same' | 'similar' | 'different';
+
+export type ImageHashes = Record<HashAlgorithm, string>;
+
+export type ImageHashComparison = {
+  algorithm: HashAlgorithm;
+  distance: number;
+  bits: number;
+  similarity: number;
+  verdict: HashVerdict;
+  hashes: [string, string];
+};
+
+export const imageHashQuerySchema = z.object({
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type ImageHashQuery = z.infer<typeof imageHashQuerySchema>;
+
+export const imageCompareQuerySchema = z.object({
+  algorithm: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(HASH_ALGORITHMS))
+    .optional()
+    .default('phash'),
+  hash: z
+    .string()
+    .regex(new RegExp(`^[0-9a-fA-F]{${IMAGE_HASH_BITS / 4}}$`), `Expected ${IMAGE_HASH_BITS / 4} hex digits`)
+    .transform((v) => v.toLowerCase())
+    .optional(),
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type ImageCompareQuery = z.infer<typeof imageCompareQuerySchema>;
+
+// Contact / sprite sheets
+export const MAX_SHEET_IMAGES = 100;
+export const MAX_SHEET_CELL_SIZE = 2000;
+
+// How each image fills its cell: contain keeps the whole image (centred), cover
+// crops it to the cell and fill stretches it
+export const SHEET_FIT_OPTIONS = ['contain', 'cover', 'fill'] as const;
+export type SheetFit = (typeof SHEET_FIT_OPTIONS)[number];
+
+export const imageSheetQuerySchema = z
+  .object({
+    columns: z.coerce.number().int().min(1).max(MAX_SHEET_IMAGES).optional(),
+    cellWidth: z.coerce.number().int().min(1).max(MAX_SHEET_CELL_SIZE).optional().default(200),
+    cellHeight: z.coerce.number().int().min(1).max(MAX_SHEET_CELL_SIZE).optional(),
+    gutter: z.coerce.number().int().min(0).max(MAX_PAD).optional().default(0),
+    fit: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(SHEET_FIT_OPTIONS))
+      .optional()
+      .default('contain'),
+    background: hexColourWithAlpha.optional().default('#ffffff'),
+    captions: queryBoolean.optional().default(false),
+    captionColor: hexColour.optional().default('#000000'),
+    captionSize: z.coerce.number().int().min(8).max(72).optional().default(12),
+    format: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(SUPPORTED_IMAGE_FORMATS))
+      .optional()
+      .default('png'),
+    quality: z.coerce.number().int().min(1).max(100).optional(),
+    output: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(VARIANT_OUTPUT_MODES))
+      .optional()
+      .default('zip'),
+    debug: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(DEBUG_LEVELS))
+      .optional(),
+  })
+  .superRefine((query, ctx) => {
+    if (query.quality !== undefined && !FORMAT_ENCODER_OPTIONS[query.format].includes('quality')) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['quality'],
+        message: `quality is not supported for format ${query.format}`,
+      });
+    }
+  });
+
+export type ImageSheetQuery = z.infer<typeof imageSheetQuerySchema>;
+
+export type ImageSheetTile = {
+  index: number;
+  fileName: string;
+  caption?: string;
+  // Cell of the grid (without the caption strip) and where the image sits in it
+  cell: CropRegion;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  source: { width: number; height: number };
+};
+
+export type ImageSheetMap = {
+  fileName: string;
+  format: OutputFormat;
+  width: number;
+  height: number;
+  columns: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number;
+  gutter: number;
+  fit: SheetFit;
+  tiles: ImageSheetTile[];
+};
+
+// Share cards
+export const CARD_FORMATS = ['png', 'jpg', 'jpeg', 'webp', 'avif'] as const;
+export type CardFormat = (typeof CARD_FORMATS)[number];
+
+export const MAX_CARD_SIZE = 4096;
+
+export const CARD_TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Colours picked from the cover art; templates use them as {{accent}} / {{accentText}}
+export const CARD_COLOUR_TOKENS = ['accent', 'accentText'] as const;
+export type CardColourToken = (typeof CARD_COLOUR_TOKENS)[number];
+
+const cardHexColour = z.string().regex(/^#[0-9a-f]{6}$/i, 'Expected a hex colour (e.g. #ffffff)');
+
+export const cardTextFieldSchema = z
+  .object({
+    // First baseline; x is the left edge, centre or right edge depending on anchor
+    x: z.number().int().min(0),
+    y: z.number().int().min(0),
+    width: z.number().int().positive(),
+    anchor: z.enum(['start', 'middle', 'end']).default('start'),
+    fontSize: z.number().positive(),
+    // Text that does not fit in maxLines shrinks down to this size before it is truncated
+    minFontSize: z.number().positive().optional(),
+    fontWeight: z.enum(['normal', 'bold']).default('normal'),
+    lineHeight: z.number().positive().default(1.2),
+    maxLines: z.number().int().min(1).max(10).default(1),
+    maxLength: z.number().int().positive().max(1000).default(200),
+    required: z.boolean().default(false),
+    fill: z.union([z.enum(CARD_COLOUR_TOKENS), cardHexColour]).default('#ffffff'),
+  })
+  .strict()
+  .superRefine((field, ctx) => {
+    if (field.minFontSize !== undefined && field.minFontSize > field.fontSize) {
+      ctx.addIssue({ code: 'custom', path: ['minFontSize'], message: 'minFontSize cannot be greater than fontSize' });
+    }
+  });
+
+export type CardTextField = z.infer<typeof cardTextFieldSchema>;
+
+export const cardTemplateSchema = z
+  .object({
+    description: z.string().optional(),
+    width: z.number().int().min(1).max(MAX_CARD_SIZE),
+    height: z.number().int().min(1).max(MAX_CARD_SIZE),
+    // Used when there is no cover art or no colour in it fits
+    accent: cardHexColour.default('#444444'),
+    cover: z
+      .object({
+        left: z.number().int().min(0),
+        top: z.number().int().min(0),
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+        radius: z.number().min(0).default(0),
+      })
+      .strict()
+      .optional(),
+    fields: z
+      .record(z.string().regex(CARD_TEMPLATE_NAME_PATTERN, 'Expected a field name'), cardTextFieldSchema)
+      .refine((fields) => Object.keys(fields).length > 0, 'Expected at least one text field'),
+  })
+  .strict()
+  .superRefine((template, ctx) => {
+    const { cover } = template;
+    if (cover && (cover.left + cover.width > template.width || cover.top + cover.height > template.height)) {
+      ctx.addIssue({ code: 'custom', path: ['cover'], message: 'cover must fit within the card' });
+    }
+  });
+
+export type CardTemplate = z.infer<typeof cardTemplateSchema>;
+
+export const imageCardQuerySchema = z
+  .object({
+    template: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.string().regex(CARD_TEMPLATE_NAME_PATTERN, 'Expected a template name (letters, digits, - and _)')),
+    coverUrl: z.string().url().optional(),
+    // Overrides the accent colour picked from the cover art
+    accent: hexColour.optional(),
+    format: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(CARD_FORMATS))
+      .optional()
+      .default('png'),
+    quality: z.coerce.number().int().min(1).max(100).optional(),
+    debug: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(DEBUG_LEVELS))
+      .optional(),
+  })
+  .superRefine((query, ctx) => {
+    if (query.quality !== undefined && !FORMAT_ENCODER_OPTIONS[query.format].includes('quality')) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['quality'],
+        message: `quality is not supported for format ${query.format}`,
+      });
+    }
+  });
+
+export type ImageCardQuery = z.infer<typeof imageCardQuerySchema>;
+
+export type CardTextLayout = {
+  field: string;
+  lines: string[];
+  fontSize: number;
+  // True when the text was cut short with an ellipsis
+  truncated: boolean;
+};
+
+export type CardTemplateSummary = {
+  name: string;
+  description?: string;
+  width: number;
+  height: number;
+  cover: boolean;
+  fields: Record<string, { required: boolean; maxLength: number; maxLines: number }>;
+};
+
+// Batch conversion
+export const MAX_BATCH_IMAGES = 50;
+
+export const imageBatchQuerySchema = z.object({
+  output: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(VARIANT_OUTPUT_MODES))
+    .optional()
+    .default('zip'),
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type ImageBatchQuery = z.infer<typeof imageBatchQuerySchema>;
+
+export type ImageBatchFileResult = {
+  index: number;
+  fileName: string;
+  status: 'ok' | 'error';
+  output?: {
+    fileName: string;
+    format: OutputFormat;
+    contentType: string;
+    width?: number;
+    height?: number;
+    sizeBytes: number;
+  };
+  error?: string;
+  details?: string | string[];
+};
+
+export type ImageBatchReport = {
+  total: number;
+  succeeded: number;
+  failed: number;
+  files: ImageBatchFileResult[];
+};
+
+// Upload validation policies
+// Image types recognised from their leading bytes (HEIC covers HEIF)
+export const IMAGE_SIGNATURE_FORMATS = ['jpeg', 'png', 'gif', 'webp', 'avif', 'heic', 'tiff', 'svg'] as const;
+export type ImageSignatureFormat = (typeof IMAGE_SIGNATURE_FORMATS)[number];
+
+export const imageUploadPolicySchema = z
+  .object({
+    formats: z.array(z.enum(IMAGE_SIGNATURE_FORMATS)).min(1),
+    minWidth: z.number().int().positive().optional(),
+    maxWidth: z.number().int().positive().optional(),
+    minHeight: z.number().int().positive().optional(),
+    maxHeight: z.number().int().positive().optional(),
+    // Width divided by height
+    minAspect: z.number().positive().optional(),
+    maxAspect: z.number().positive().optional(),
+    maxMegapixels: z.number().positive().optional(),
+  })
+  .strict()
+  .superRefine((policy, ctx) => {
+    const ranges = [
+      ['minWidth', 'maxWidth'],
+      ['minHeight', 'maxHeight'],
+      ['minAspect', 'maxAspect'],
+    ] as const;
+    for (const [min, max] of ranges) {
+      const low = policy[min];
+      const high = policy[max];
+      if (low !== undefined && high !== undefined && low > high) {
+        ctx.addIssue({ code: 'custom', path: [min], message: `${min} cannot be greater than ${max}` });
+      }
+    }
+  });
+
+export type ImageUploadPolicy = z.infer<typeof imageUploadPolicySchema>;
+
+export const UPLOAD_POLICY_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export const uploadPolicyQuerySchema = z.object({
+  policy: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.string().regex(UPLOAD_POLICY_NAME_PATTERN, 'Expected a policy name (letters, digits, - and _)'))
+    .optional(),
+});
+
+export type ImagePolicyCheck = {
+  format: ImageSignatureFormat | null;
+  width?: number;
+  height?: number;
+  // One message per failed rule, prefixed with the rule name
+  failures: string[];
+};
+
+// peaks: one 0-1 amplitude per point (mono); waveform: audiowaveform's JSON
+// layout with signed min/max pairs per channel
+export const AUDIO_PEAKS_OUTPUTS = ['peaks', 'waveform'] as const;
+export type AudioPeaksOutput = (typeof AUDIO_PEAKS_OUTPUTS)[number];
+
+// json: the JSON bodies above; dat: audiowaveform's binary waveform format
+export const AUDIO_WAVEFORM_FORMATS = ['json', 'dat'] as const;
+export type AudioWaveformFormat = (typeof AUDIO_WAVEFORM_FORMATS)[number];
+
 export const audioPeaksQuerySchema = z.object({
   samples: z.coerce.number().int().min(1).max(10000).optional(),
   samplesPerMinute: z.coerce.number().int().min(1).max(10000).optional(),
+  output: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(AUDIO_PEAKS_OUTPUTS))
+    .default('peaks'),
+  splitChannels: queryBoolean.default(false),
+  // Unset: negotiated from the Accept header
+  format: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(AUDIO_WAVEFORM_FORMATS))
+    .optional(),
   debug: z
     .string()
     .transform((v) => v.toLowerCase())
@@ -80,6 +1003,295 @@ export const audioPeaksQuerySchema = z.object({
 
 export type AudioPeaksQuery = z.infer<typeof audioPeaksQuerySchema>;
 
+// Waveform images: SVG, or rasterised from the same SVG by sharp
+export const WAVEFORM_IMAGE_FORMATS = ['svg', 'png', 'webp'] as const;
+export type WaveformImageFormat = (typeof WAVEFORM_IMAGE_FORMATS)[number];
+export const WAVEFORM_STYLES = ['bars', 'path'] as const;
+export const MAX_WAVEFORM_IMAGE_WIDTH = 4096;
+export const MAX_WAVEFORM_IMAGE_HEIGHT = 1024;
+
+export const audioWaveformImageQuerySchema = z
+  .object({
+    format: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(WAVEFORM_IMAGE_FORMATS))
+      .optional()
+      .default('svg'),
+    style: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(WAVEFORM_STYLES))
+      .optional()
+      .default('bars'),
+    width: z.coerce.number().int().min(16).max(MAX_WAVEFORM_IMAGE_WIDTH).optional().default(800),
+    height: z.coerce.number().int().min(8).max(MAX_WAVEFORM_IMAGE_HEIGHT).optional().default(120),
+    barWidth: z.coerce.number().int().min(1).max(64).optional().default(3),
+    barGap: z.coerce.number().int().min(0).max(64).optional().default(1),
+    color: hexColour.optional().default('#999999'),
+    // Bottom colour of a vertical gradient starting at `color`
+    gradientColor: hexColour.optional(),
+    // Fraction of the waveform (from the left) drawn in the progress colours
+    progress: z.coerce.number().min(0).max(1).optional().default(0),
+    progressColor: hexColour.optional().default('#333333'),
+    progressGradientColor: hexColour.optional(),
+    // Transparent when not given
+    background: hexColourWithAlpha.optional(),
+    debug: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(DEBUG_LEVELS))
+      .optional(),
+  })
+  .superRefine((query, ctx) => {
+    if (query.style === 'bars' && query.barWidth > query.width) {
+      ctx.addIssue({ code: 'custom', path: ['barWidth'], message: 'barWidth cannot be wider than the image' });
+    }
+  });
+
+export type AudioWaveformImageQuery = z.infer<typeof audioWaveformImageQuerySchema>;
+
+/**
+ * audiowaveform's JSON output (version 2). `data` holds `length` pixels, each
+ * a min/max pair per channel in channel order: [c0min, c0max, c1min, c1max, ...].
+ * Values are signed integers in the range of `bits`.
+ */
+export type AudioWaveformData = {
+  version: 2;
+  channels: number;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8 | 16;
+  length: number;
+  data: number[];
+};
+
+// json: stream and tag details; cover: the embedded cover art image itself
+export const AUDIO_INFO_OUTPUTS = ['json', 'cover'] as const;
+
+export const audioInfoQuerySchema = z.object({
+  output: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(AUDIO_INFO_OUTPUTS))
+    .optional()
+    .default('json'),
+  debug: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(DEBUG_LEVELS))
+    .optional(),
+});
+
+export type AudioInfoQuery = z.infer<typeof audioInfoQuerySchema>;
+
+// Common tags, looked up case-insensitively under their ID3v2, Vorbis comment
+// and MP4 names as ffprobe reports them
+export type AudioTrackTags = {
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  albumArtist: string | null;
+  date: string | null;
+  genre: string | null;
+  trackNumber: string | null;
+  isrc: string | null;
+};
+
+export type AudioInfo = {
+  // ffprobe's format name (e.g. mp3, flac, "mov,mp4,m4a,3gp,3g2,mj2")
+  container: string;
+  containerLongName: string | null;
+  codec: string;
+  codecLongName: string | null;
+  profile: string | null;
+  lossless: boolean;
+  // Bits per second: the audio stream's, or the whole file's when the stream has none
+  bitRate: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+  channelLayout: string | null;
+  // Only known for PCM and lossless codecs
+  bitDepth: number | null;
+  durationSeconds: number | null;
+  // Every tag of the file and of the audio stream, as ffprobe names them
+  tags: Record<string, string>;
+  track: AudioTrackTags;
+  coverArt: { codec: string; width: number | null; height: number | null } | null;
+};
+
+// Audio conversion: codecs each output format can carry, the first being the
+// default. Names follow ffprobe's codec names rather than ffmpeg's encoders.
+export const AUDIO_CODECS = ['mp3', 'aac', 'alac', 'opus', 'vorbis', 'flac', 'pcm_s16le', 'pcm_s24le'] as const;
+export type AudioCodec = (typeof AUDIO_CODECS)[number];
+
+export const AUDIO_FORMAT_CODECS: Record<AudioFormat, readonly AudioCodec[]> = {
+  mp3: ['mp3'],
+  wav: ['pcm_s16le', 'pcm_s24le'],
+  ogg: ['vorbis', 'opus', 'flac'],
+  flac: ['flac'],
+  aac: ['aac'],
+  m4a: ['aac', 'alac'],
+  webm: ['opus', 'vorbis'],
+};
+
+export const AUDIO_CONTENT_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  aac: 'audio/aac',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+};
+
+// Codecs with a bitrate setting; the others are lossless
+export const AUDIO_BITRATE_CODECS: readonly AudioCodec[] = ['mp3', 'aac', 'opus', 'vorbis'];
+export const AUDIO_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000];
+const OPUS_SAMPLE_RATES = [8000, 12000, 16000, 24000, 48000];
+const MP3_MAX_SAMPLE_RATE = 48000;
+export const AUDIO_BITRATE_MODES = ['cbr', 'vbr'] as const;
+
+// Output encoding options shared by /audio/convert and /audio/preview
+const audioEncodeBaseSchema = z.object({
+  format: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(SUPPORTED_AUDIO_FORMATS))
+    .optional()
+    .default('mp3'),
+  // Defaults to the format's first codec
+  codec: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(AUDIO_CODECS))
+    .optional(),
+  // kbps: the exact rate for cbr, the target average for vbr
+  bitrate: z.coerce.number().int().min(8).max(512).optional(),
+  bitrateMode: z
+    .string()
+    .transform((v) => v.toLowerCase())
+    .pipe(z.enum(AUDIO_BITRATE_MODES))
+    .optional(),
+  sampleRate: z.coerce
+    .number()
+    .int()
+    .refine((rate) => AUDIO_SAMPLE_RATES.includes(rate), `Expected one of ${AUDIO_SAMPLE_RATES.join(', ')}`)
+    .optional(),
+  mono: queryBoolean.optional().default(false),
+});
+
+function checkAudioEncoding(query: z.infer<typeof audioEncodeBaseSchema>, ctx: z.RefinementCtx): void {
+  const codecs = AUDIO_FORMAT_CODECS[query.format];
+  const codec = query.codec ?? codecs[0];
+  if (!codecs.includes(codec)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['codec'],
+      message: `${query.format} can hold ${codecs.join(', ')}, not ${codec}`,
+    });
+    return;
+  }
+  if (!AUDIO_BITRATE_CODECS.includes(codec)) {
+    for (const key of ['bitrate', 'bitrateMode'] as const) {
+      if (query[key] !== undefined) {
+        ctx.addIssue({ code: 'custom', path: [key], message: `${key} is not supported for lossless ${codec}` });
+      }
+    }
+  }
+  if (codec === 'aac' && query.bitrateMode === 'vbr') {
+    ctx.addIssue({ code: 'custom', path: ['bitrateMode'], message: 'vbr is not supported for aac' });
+  }
+  if (query.sampleRate !== undefined && codec === 'opus' && !OPUS_SAMPLE_RATES.includes(query.sampleRate)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['sampleRate'],
+      message: `opus supports ${OPUS_SAMPLE_RATES.join(', ')}`,
+    });
+  }
+  if (query.sampleRate !== undefined && codec === 'mp3' && query.sampleRate > MP3_MAX_SAMPLE_RATE) {
+    ctx.addIssue({ code: 'custom', path: ['sampleRate'], message: `mp3 supports up to ${MP3_MAX_SAMPLE_RATE}` });
+  }
+}
+
+export const audioConvertQuerySchema = audioEncodeBaseSchema
+  .extend({
+    preserveTags: queryBoolean.optional().default(true),
+    preserveArtwork: queryBoolean.optional().default(true),
+    debug: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(DEBUG_LEVELS))
+      .optional(),
+  })
+  .superRefine(checkAudioEncoding);
+
+export type AudioConvertQuery = z.infer<typeof audioConvertQuerySchema>;
+
+// Preview clips: longest clip, and the peaks returned with it
+export const MAX_AUDIO_PREVIEW_SECONDS = 120;
+export const MAX_AUDIO_PREVIEW_SAMPLES = 2000;
+
+export const audioPreviewQuerySchema = audioEncodeBaseSchema
+  .extend({
+    // Seconds into the file, or `auto` for the most energetic section
+    start: z
+      .string()
+      .regex(/^(auto|\d+(\.\d+)?)$/i, 'Expected seconds (e.g. 42.5) or auto')
+      .transform((v) => (v.toLowerCase() === 'auto' ? ('auto' as const) : Number(v)))
+      .optional()
+      .default('auto'),
+    duration: z.coerce.number().min(1).max(MAX_AUDIO_PREVIEW_SECONDS).optional().default(30),
+    fadeIn: z.coerce.number().min(0).max(10).optional().default(1),
+    fadeOut: z.coerce.number().min(0).max(10).optional().default(2),
+    normalize: queryBoolean.optional().default(true),
+    // Integrated loudness target in LUFS (EBU R128)
+    loudness: z.coerce.number().min(-36).max(-6).optional().default(-14),
+    samples: z.coerce.number().int().min(1).max(MAX_AUDIO_PREVIEW_SAMPLES).optional().default(200),
+    output: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(VARIANT_OUTPUT_MODES))
+      .optional()
+      .default('zip'),
+    debug: z
+      .string()
+      .transform((v) => v.toLowerCase())
+      .pipe(z.enum(DEBUG_LEVELS))
+      .optional(),
+  })
+  .superRefine((query, ctx) => {
+    checkAudioEncoding(query, ctx);
+    if (query.fadeIn + query.fadeOut > query.duration) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['fadeOut'],
+        message: `fadeIn and fadeOut together cannot exceed the ${query.duration}s duration`,
+      });
+    }
+  });
+
+export type AudioPreviewQuery = z.infer<typeof audioPreviewQuerySchema>;
+
+// preview.json: the clip actually cut (shortened when the file ends first)
+// and its peaks
+export type AudioPreview = {
+  fileName: string;
+  format: AudioFormat;
+  codec: AudioCodec;
+  contentType: string;
+  auto: boolean;
+  startSeconds: number;
+  durationSeconds: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+  // Target in LUFS, or null when not normalised
+  loudness: number | null;
+  sourceDurationSeconds: number | null;
+  peaks: number[];
+  samples: number;
+};
+
 // Health check types
 export type HealthCheckResult = {
   status: 'ok' | 'degraded';
@@ -0,0 +1,139 @@
+import sharp from 'sharp';
+import { CropRegion, DebugInfo, ImageConvertQuery } from '../types';
+import { recordStep } from './debug';
+import { DecodedImage, pipelineFromDecoded } from './image';
+
+export type SourceAdjustments = Pick<
+  ImageConvertQuery,
+  'trim' | 'trimThreshold' | 'rotate' | 'rotateBackground' | 'flip' | 'flop'
+>;
+
+export type OutputAdjustments = Pick<
+  ImageConvertQuery,
+  'grayscale' | 'pad' | 'padColor' | 'blur' | 'brightness' | 'saturation' | 'sharpen' | 'gamma' | 'tint'
+>;
+
+export type SourceAdjustmentResult = {
+  image: DecodedImage;
+  // Region kept by trim, in the coordinates of the pixels that were trimmed
+  trimRegion?: CropRegion;
+};
+
+export function hasSourceAdjustments(adjustments: SourceAdjustments): boolean {
+  return adjustments.trim || adjustments.rotate !== undefined || adjustments.flip || adjustments.flop;
+}
+
+async function renderPass(decoded: DecodedImage, apply: (pipeline: sharp.Sharp) => sharp.Sharp): Promise<DecodedImage> {
+  const { data, info } = await apply(pipelineFromDecoded(decoded)).raw().toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+/**
+ * Geometry edits on the oriented and extracted source, in the order trim →
+ * rotate → flip → flop, before resizing. Each runs as its own pass because
+ * sharp always trims first and honours only one rotation per pipeline, so a
+ * single pipeline cannot keep this order after auto-orient and extract.
+ */
+export async function applySourceAdjustments(
+  decoded: DecodedImage,
+  adjustments: SourceAdjustments,
+  debugInfo?: DebugInfo
+): Promise<SourceAdjustmentResult> {
+  let image = decoded;
+  let trimRegion: CropRegion | undefined;
+
+  if (adjustments.trim) {
+    const trimStart = Date.now();
+    image = await renderPass(image, (pipeline) => pipeline.trim({ threshold: adjustments.trimThreshold }));
+    trimRegion = {
+      left: -(image.info.trimOffsetLeft ?? 0),
+      top: -(image.info.trimOffsetTop ?? 0),
+      width: image.info.width,
+      height: image.info.height,
+    };
+    recordStep(debugInfo, 'trim', trimStart);
+  }
+
+  if (adjustments.rotate !== undefined) {
+    const rotateStart = Date.now();
+    const angle = adjustments.rotate;
+    image = await renderPass(image, (pipeline) => pipeline.rotate(angle, { background: adjustments.rotateBackground }));
+    recordStep(debugInfo, 'rotate', rotateStart);
+  }
+
+  if (adjustments.flip) {
+    const flipStart = Date.now();
+    image = await renderPass(image, (pipeline) => pipeline.flip());
+    recordStep(debugInfo, 'flip', flipStart);
+  }
+
+  if (adjustments.flop) {
+    const flopStart = Date.now();
+    image = await renderPass(image, (pipeline) => pipeline.flop());
+    recordStep(debugInfo, 'flop', flopStart);
+  }
+
+  return { image, trimRegion };
+}
+
+/**
+ * Adds the tone and framing edits to a pipeline. sharp applies them in a
+ * fixed order whatever the call order: grayscale (before resizing) → pad →
+ * blur → brightness/saturation → sharpen → gamma → tint. Gamma above 1
+ * brightens mid-tones and below 1 darkens them.
+ */
+export function applyOutputAdjustments(
+  pipeline: sharp.Sharp,
+  adjustments: OutputAdjustments,
+  debugInfo?: DebugInfo
+): sharp.Sharp {
+  if (adjustments.grayscale) {
+    const grayscaleStart = Date.now();
+    pipeline = pipeline.grayscale();
+    recordStep(debugInfo, 'grayscale', grayscaleStart);
+  }
+
+  if (adjustments.pad) {
+    const padStart = Date.now();
+    pipeline = pipeline.extend({ ...adjustments.pad, background: adjustments.padColor });
+    recordStep(debugInfo, 'pad', padStart);
+  }
+
+  if (adjustments.blur !== undefined) {
+    const blurStart = Date.now();
+    pipeline = pipeline.blur(adjustments.blur);
+    recordStep(debugInfo, 'blur', blurStart);
+  }
+
+  if (adjustments.brightness !== undefined || adjustments.saturation !== undefined) {
+    const modulateStart = Date.now();
+    // sharp rejects keys that are present but undefined
+    pipeline = pipeline.modulate({
+      ...(adjustments.brightness !== undefined && { brightness: adjustments.brightness }),
+      ...(adjustments.saturation !== undefined && { saturation: adjustments.saturation }),
+    });
+    recordStep(debugInfo, 'modulate', modulateStart);
+  }
+
+  if (adjustments.sharpen !== undefined) {
+    const sharpenStart = Date.now();
+    pipeline = pipeline.sharpen({ sigma: adjustments.sharpen });
+    recordStep(debugInfo, 'sharpen', sharpenStart);
+  }
+
+  if (adjustments.gamma !== undefined) {
+    const gammaStart = Date.now();
+    // sharp darkens by 1/gamma before resizing and brightens by gammaOut after it
+    const gamma = adjustments.gamma;
+    pipeline = gamma >= 1 ? pipeline.gamma(1, gamma) : pipeline.gamma(1 / gamma, 1);
+    recordStep(debugInfo, 'gamma', gammaStart);
+  }
+
+  if (adjustments.tint) {
+    const tintStart = Date.now();
+    pipeline = pipeline.tint(adjustments.tint);
+    recordStep(debugInfo, 'tint', tintStart);
+  }
+
+  return pipeline;
+}
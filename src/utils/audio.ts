@@ -3,7 +3,20 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { env } from '../config/env';
-import { SUPPORTED_AUDIO_FORMATS, AudioFormat } from '../types';
+import {
+  AUDIO_FORMAT_CODECS,
+  AUDIO_SAMPLE_RATES,
+  SUPPORTED_AUDIO_FORMATS,
+  AudioCodec,
+  AudioConvertQuery,
+  AudioPreviewQuery,
+  AudioFormat,
+  AudioInfo,
+  AudioTrackTags,
+  AudioWaveformData,
+  AudioWaveformFormat,
+} from '../types';
+import { parseAcceptedTypes } from './image';
 
 export function detectAudioFormat(buffer: Buffer): AudioFormat | null {
   if (buffer.length < 4) return null;
@@ -68,6 +81,21 @@ export function detectAudioFormat(buffer: Buffer): AudioFormat | null {
   return null;
 }
 
+// Longest signature detectAudioFormat looks at (RIFF....WAVE, ....ftypXXXX)
+const AUDIO_SIGNATURE_BYTES = 12;
+
+/** detectAudioFormat on the first bytes of a file, without reading the rest. */
+export async function detectAudioFileFormat(filePath: string): Promise<AudioFormat | null> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(AUDIO_SIGNATURE_BYTES);
+    const { bytesRead } = await handle.read(header, 0, AUDIO_SIGNATURE_BYTES, 0);
+    return detectAudioFormat(header.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
 export function resamplePeaks(peaks: number[], targetSamples: number): number[] {
   if (peaks.length === 0) return [];
   if (peaks.length === targetSamples) return peaks;
@@ -96,7 +124,148 @@ export function resamplePeaks(peaks: number[], targetSamples: number): number[]
   return result;
 }
 
-export function extractPeaksWithAudiowaveform(inputPath: string, samples: number): Promise<number[]> {
+/**
+ * Resamples an audiowaveform min/max waveform to `targetLength` pixels. Each
+ * output pixel keeps the lowest min and highest max of the pixels it covers,
+ * per channel, so peaks are never averaged away; upsampling repeats pixels.
+ * samples_per_pixel is rescaled (and rounded, as the format stores an integer).
+ */
+export function resampleWaveform(waveform: AudioWaveformData, targetLength: number): AudioWaveformData {
+  if (waveform.length === 0 || waveform.length === targetLength) return waveform;
+
+  const { channels } = waveform;
+  const ratio = waveform.length / targetLength;
+  const data: number[] = [];
+
+  for (let i = 0; i < targetLength; i++) {
+    const start = Math.min(Math.floor(i * ratio), waveform.length - 1);
+    const end = Math.max(start + 1, Math.min(Math.floor((i + 1) * ratio), waveform.length));
+
+    for (let channel = 0; channel < channels; channel++) {
+      let min = Infinity;
+      let max = -Infinity;
+      for (let j = start; j < end; j++) {
+        const offset = (j * channels + channel) * 2;
+        min = Math.min(min, waveform.data[offset]);
+        max = Math.max(max, waveform.data[offset + 1]);
+      }
+      data.push(min, max);
+    }
+  }
+
+  return {
+    ...waveform,
+    samples_per_pixel: Math.max(1, Math.round((waveform.samples_per_pixel * waveform.length) / targetLength)),
+    length: targetLength,
+    data,
+  };
+}
+
+/**
+ * Folds a waveform into one 0-1 amplitude per pixel: the largest absolute
+ * value of any channel's min or max, relative to the bit depth's full scale.
+ */
+export function waveformToPeaks(waveform: AudioWaveformData): number[] {
+  const fullScale = waveform.bits === 8 ? 128 : 32768;
+  const valuesPerPixel = waveform.channels * 2;
+  const peaks: number[] = [];
+
+  for (let offset = 0; offset < waveform.length * valuesPerPixel; offset += valuesPerPixel) {
+    let peak = 0;
+    for (let j = offset; j < offset + valuesPerPixel; j++) {
+      peak = Math.max(peak, Math.abs(waveform.data[j] || 0));
+    }
+    peaks.push(Math.min(1, peak / fullScale));
+  }
+
+  return peaks;
+}
+
+// audiowaveform .dat header: version, flags, sample rate, samples per pixel,
+// length and channels, each a little-endian 32-bit integer
+const WAVEFORM_DAT_HEADER_BYTES = 24;
+
+// Flags bit 0: samples are 8-bit (set) or 16-bit (clear)
+const WAVEFORM_DAT_FLAG_8_BIT = 0x1;
+
+/**
+ * Encodes a waveform in audiowaveform's binary .dat format (version 2): a
+ * 24-byte header followed by the same min/max values as the JSON `data`, as
+ * little-endian int8 or int16 depending on `bits`.
+ */
+export function encodeWaveformDat(waveform: AudioWaveformData): Buffer {
+  const bytesPerValue = waveform.bits === 8 ? 1 : 2;
+  const buffer = Buffer.alloc(WAVEFORM_DAT_HEADER_BYTES + waveform.data.length * bytesPerValue);
+
+  buffer.writeInt32LE(2, 0);
+  buffer.writeUInt32LE(waveform.bits === 8 ? WAVEFORM_DAT_FLAG_8_BIT : 0, 4);
+  buffer.writeInt32LE(waveform.sample_rate, 8);
+  buffer.writeInt32LE(waveform.samples_per_pixel, 12);
+  buffer.writeUInt32LE(waveform.length, 16);
+  buffer.writeInt32LE(waveform.channels, 20);
+
+  waveform.data.forEach((value, index) => {
+    const offset = WAVEFORM_DAT_HEADER_BYTES + index * bytesPerValue;
+    if (bytesPerValue === 1) {
+      buffer.writeInt8(value, offset);
+    } else {
+      buffer.writeInt16LE(value, offset);
+    }
+  });
+
+  return buffer;
+}
+
+/**
+ * Picks the /audio/peaks response format when `format` is not given: .dat
+ * when the Accept header names application/octet-stream and not
+ * application/json, so wildcards and ambiguous clients keep getting JSON.
+ */
+export function negotiateWaveformFormat(accept: string | undefined): AudioWaveformFormat {
+  const accepted = parseAcceptedTypes(accept);
+  return accepted.has('application/octet-stream') && !accepted.has('application/json') ? 'dat' : 'json';
+}
+
+/**
+ * Checks and normalises audiowaveform's JSON output. Version 1 files have no
+ * `channels` field and are always mono; both are returned as version 2.
+ */
+export function parseAudiowaveformJson(json: string): AudioWaveformData {
+  const result = JSON.parse(json);
+  const channels = result.channels ?? 1;
+  const bits = result.bits ?? 8;
+  const data: unknown = result.data ?? [];
+
+  if (!Number.isInteger(channels) || channels < 1) {
+    throw new Error(`invalid channel count: ${result.channels}`);
+  }
+  if (bits !== 8 && bits !== 16) {
+    throw new Error(`unsupported bit depth: ${result.bits}`);
+  }
+  if (!Array.isArray(data) || data.length % (channels * 2) !== 0 || !data.every(Number.isInteger)) {
+    throw new Error(`data is not a list of min/max pairs for ${channels} channel(s)`);
+  }
+
+  return {
+    version: 2,
+    channels,
+    sample_rate: result.sample_rate,
+    samples_per_pixel: result.samples_per_pixel,
+    bits,
+    length: data.length / (channels * 2),
+    data,
+  };
+}
+
+/**
+ * Runs audiowaveform at AUDIOWAVEFORM_PIXELS_PER_SECOND and
+ * AUDIOWAVEFORM_BITS. Channels are mixed down to mono unless `splitChannels`
+ * is set, in which case each channel gets its own min/max pair per pixel.
+ */
+export function extractWaveformWithAudiowaveform(
+  inputPath: string,
+  options: { splitChannels?: boolean } = {}
+): Promise<AudioWaveformData> {
   return new Promise((resolve, reject) => {
     const args = [
       '-i',
@@ -108,6 +277,9 @@ export function extractPeaksWithAudiowaveform(inputPath: string, samples: number
       '-b',
       env.AUDIOWAVEFORM_BITS.toString(),
     ];
+    if (options.splitChannels) {
+      args.push('--split-channels');
+    }
 
     const proc = spawn('audiowaveform', args);
     let settled = false;
@@ -150,21 +322,7 @@ export function extractPeaksWithAudiowaveform(inputPath: string, samples: number
       }
 
       try {
-        const result = JSON.parse(stdout);
-        const rawData: number[] = result.data || [];
-        const bits = result.bits || 8;
-        const maxVal = bits === 8 ? 128 : 32768;
-
-        const extractedPeaks: number[] = [];
-        for (let i = 0; i < rawData.length; i += 2) {
-          const min = Math.abs(rawData[i] || 0);
-          const max = Math.abs(rawData[i + 1] || 0);
-          const peak = Math.max(min, max) / maxVal;
-          extractedPeaks.push(Math.min(1, peak));
-        }
-
-        const resampled = resamplePeaks(extractedPeaks, samples);
-        resolve(resampled);
+        resolve(parseAudiowaveformJson(stdout));
       } catch (parseError) {
         reject(new Error(`Failed to parse audiowaveform output: ${parseError}`));
       }
@@ -172,6 +330,11 @@ export function extractPeaksWithAudiowaveform(inputPath: string, samples: number
   });
 }
 
+export async function extractPeaksWithAudiowaveform(inputPath: string, samples: number): Promise<number[]> {
+  const waveform = await extractWaveformWithAudiowaveform(inputPath);
+  return resamplePeaks(waveformToPeaks(waveform), samples);
+}
+
 export function getAudioDurationSeconds(inputPath: string): Promise<number> {
   return new Promise((resolve, reject) => {
     const args = [
@@ -229,11 +392,466 @@ export function getAudioDurationSeconds(inputPath: string): Promise<number> {
   });
 }
 
-export async function createTempAudioFile(buffer: Buffer, ext: string): Promise<string> {
-  const tempDir = os.tmpdir();
+/**
+ * Runs ffprobe or ffmpeg and collects stdout as bytes (cover art is binary),
+ * killing the process after `timeoutMs`.
+ */
+function runMediaTool(command: 'ffprobe' | 'ffmpeg', args: string[], timeoutMs: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args);
+    let settled = false;
+    const timeout = setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      proc.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    proc.stdout.on('data', (data: Buffer) => {
+      stdout.push(data);
+    });
+
+    proc.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    proc.on('error', (err) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error(`${command} binary not found. Please install it.`));
+      } else {
+        reject(err);
+      }
+    });
+
+    proc.on('close', (code) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      if (code !== 0) {
+        reject(new Error(`${command} exited with code ${code}: ${stderr}`));
+        return;
+      }
+      resolve(Buffer.concat(stdout));
+    });
+  });
+}
+
+const LOSSLESS_AUDIO_CODECS = ['flac', 'alac', 'ape', 'wavpack', 'tta', 'mlp', 'truehd'];
+
+// Tag names for AudioTrackTags, lower-cased: ffprobe's generic name first,
+// then the raw ID3v2 / Vorbis comment / MP4 names it leaves unmapped
+const TRACK_TAG_NAMES: Record<keyof AudioTrackTags, string[]> = {
+  title: ['title'],
+  artist: ['artist'],
+  album: ['album'],
+  albumArtist: ['album_artist', 'albumartist', 'album artist', 'tpe2'],
+  date: ['date', 'year', 'tdrc', 'tyer'],
+  genre: ['genre'],
+  trackNumber: ['track', 'tracknumber', 'trck'],
+  isrc: ['isrc', 'tsrc'],
+};
+
+type ProbeStream = Record<string, unknown> & {
+  index?: number;
+  codec_type?: string;
+  disposition?: Record<string, number>;
+  tags?: Record<string, string>;
+};
+
+function probeNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) && number > 0 ? number : null;
+}
+
+function probeString(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' && value !== 'unknown' ? value : null;
+}
+
+/**
+ * Reads ffprobe's `-show_format -show_streams` JSON into AudioInfo, using the
+ * first audio stream. Embedded cover art is a video stream with the
+ * attached_pic disposition; its index is returned for extractCoverArt.
+ * Returns null when the file has no audio stream.
+ */
+export function parseAudioProbe(json: string): { info: AudioInfo; coverStreamIndex: number | null } | null {
+  const probe = JSON.parse(json) as { format?: Record<string, unknown>; streams?: ProbeStream[] };
+  const format = probe.format ?? {};
+  const streams = probe.streams ?? [];
+  const audio = streams.find((stream) => stream.codec_type === 'audio');
+  if (!audio) return null;
+  const cover = streams.find((stream) => stream.codec_type === 'video' && stream.disposition?.attached_pic === 1);
+
+  // File-level tags (ID3v2, MP4 atoms) win over stream-level ones (Vorbis
+  // comments in Ogg live on the stream)
+  const tags: Record<string, string> = { ...audio.tags, ...(format.tags as Record<string, string> | undefined) };
+  const lowerCaseTags = new Map(Object.entries(tags).map(([name, value]) => [name.toLowerCase(), value]));
+  const track = Object.fromEntries(
+    Object.entries(TRACK_TAG_NAMES).map(([field, names]) => [
+      field,
+      names.map((name) => lowerCaseTags.get(name)).find((value) => value !== undefined && value !== '') ?? null,
+    ])
+  ) as AudioTrackTags;
+
+  const codec = String(audio.codec_name ?? 'unknown');
+  return {
+    info: {
+      container: String(format.format_name ?? 'unknown'),
+      containerLongName: probeString(format.format_long_name),
+      codec,
+      codecLongName: probeString(audio.codec_long_name),
+      profile: probeString(audio.profile),
+      lossless: codec.startsWith('pcm_') || LOSSLESS_AUDIO_CODECS.includes(codec),
+      bitRate: probeNumber(audio.bit_rate) ?? probeNumber(format.bit_rate),
+      sampleRate: probeNumber(audio.sample_rate),
+      channels: probeNumber(audio.channels),
+      channelLayout: probeString(audio.channel_layout),
+      bitDepth: probeNumber(audio.bits_per_raw_sample) ?? probeNumber(audio.bits_per_sample),
+      durationSeconds: probeNumber(format.duration) ?? probeNumber(audio.duration),
+      tags,
+      track,
+      coverArt: cover
+        ? {
+            codec: String(cover.codec_name ?? 'unknown'),
+            width: probeNumber(cover.width),
+            height: probeNumber(cover.height),
+          }
+        : null,
+    },
+    coverStreamIndex: cover?.index ?? null,
+  };
+}
+
+export async function probeAudio(inputPath: string): Promise<ReturnType<typeof parseAudioProbe>> {
+  const stdout = await runMediaTool(
+    'ffprobe',
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', inputPath],
+    env.AUDIO_INFO_TIMEOUT_MS
+  );
+  try {
+    return parseAudioProbe(stdout.toString());
+  } catch (parseError) {
+    throw new Error(`Failed to parse ffprobe output: ${parseError}`);
+  }
+}
+
+/** Copies an embedded cover art stream out unchanged (usually JPEG or PNG). */
+export async function extractCoverArt(inputPath: string, streamIndex: number): Promise<Buffer> {
+  const args = [
+    '-v',
+    'error',
+    '-i',
+    inputPath,
+    '-map',
+    `0:${streamIndex}`,
+    '-c',
+    'copy',
+    '-frames:v',
+    '1',
+    '-f',
+    'image2pipe',
+    'pipe:1',
+  ];
+  const data = await runMediaTool('ffmpeg', args, env.AUDIO_INFO_TIMEOUT_MS);
+  if (data.length === 0) {
+    throw new Error('ffmpeg returned no cover art data');
+  }
+  return data;
+}
+
+const AUDIO_ENCODERS: Record<AudioCodec, string> = {
+  mp3: 'libmp3lame',
+  aac: 'aac',
+  alac: 'alac',
+  opus: 'libopus',
+  vorbis: 'libvorbis',
+  flac: 'flac',
+  pcm_s16le: 'pcm_s16le',
+  pcm_s24le: 'pcm_s24le',
+};
+
+const AUDIO_MUXERS: Record<AudioFormat, string> = {
+  mp3: 'mp3',
+  wav: 'wav',
+  ogg: 'ogg',
+  flac: 'flac',
+  aac: 'adts',
+  m4a: 'ipod',
+  webm: 'webm',
+};
+
+// Formats ffmpeg can embed cover art in, as an attached picture stream
+export const ARTWORK_AUDIO_FORMATS: readonly AudioFormat[] = ['mp3', 'm4a', 'flac'];
+
+// Used when a lossy codec is given no bitrate or bitrate mode: each encoder's
+// usual mode, at a rate suited to streaming previews
+const DEFAULT_BITRATE_KBPS: Partial<Record<AudioCodec, number>> = { mp3: 192, aac: 192, opus: 128, vorbis: 160 };
+const DEFAULT_BITRATE_MODES: Partial<Record<AudioCodec, AudioConvertQuery['bitrateMode']>> = {
+  mp3: 'cbr',
+  aac: 'cbr',
+  opus: 'vbr',
+  vorbis: 'vbr',
+};
+
+// Approximate average kbps of LAME's -V0..-V9 and libvorbis' -q0..-q10, so a
+// vbr bitrate can be mapped to the nearest quality level
+const LAME_VBR_KBPS = [245, 225, 190, 175, 165, 130, 115, 100, 85, 65];
+const VORBIS_QUALITY_KBPS = [64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 500];
+
+function nearestLevel(levels: number[], kbps: number): number {
+  return levels.reduce(
+    (best, level, index) => (Math.abs(level - kbps) < Math.abs(levels[best] - kbps) ? index : best),
+    0
+  );
+}
+
+function bitrateArgs(codec: AudioCodec, options: Pick<AudioConvertQuery, 'bitrate' | 'bitrateMode'>): string[] {
+  const kbps = options.bitrate ?? DEFAULT_BITRATE_KBPS[codec];
+  if (kbps === undefined) return [];
+  const mode = options.bitrateMode ?? DEFAULT_BITRATE_MODES[codec];
+  switch (codec) {
+    case 'mp3':
+      return mode === 'vbr' ? ['-q:a', String(nearestLevel(LAME_VBR_KBPS, kbps))] : ['-b:a', `${kbps}k`];
+    case 'opus':
+      return ['-b:a', `${kbps}k`, '-vbr', mode === 'vbr' ? 'on' : 'off'];
+    case 'vorbis':
+      return mode === 'vbr'
+        ? ['-q:a', String(nearestLevel(VORBIS_QUALITY_KBPS, kbps))]
+        : ['-b:a', `${kbps}k`, '-minrate', `${kbps}k`, '-maxrate', `${kbps}k`];
+    default:
+      return ['-b:a', `${kbps}k`];
+  }
+}
+
+export type AudioConvertOptions = Omit<AudioConvertQuery, 'debug'>;
+
+type AudioEncodeOptions = Pick<AudioConvertOptions, 'format' | 'bitrate' | 'bitrateMode' | 'sampleRate' | 'mono'>;
+
+// Encoder, rate, channel and container arguments up to the output path
+function audioEncodeArgs(codec: AudioCodec, options: AudioEncodeOptions): string[] {
+  const args = ['-c:a', AUDIO_ENCODERS[codec], ...bitrateArgs(codec, options)];
+  if (options.sampleRate) args.push('-ar', String(options.sampleRate));
+  if (options.mono) args.push('-ac', '1');
+  if (options.format === 'mp3') args.push('-id3v2_version', '3');
+  if (options.format === 'm4a') args.push('-movflags', '+faststart');
+  args.push('-f', AUDIO_MUXERS[options.format]);
+  return args;
+}
+
+/**
+ * ffmpeg arguments for /audio/convert. Only the first audio stream is kept.
+ * Tags are written from `source.tags` (what parseAudioProbe read from the
+ * file and its audio stream) rather than copied, so tags stored on the stream
+ * (Ogg) and on the file (ID3v2, MP4) both reach any output container. Cover
+ * art is copied unchanged when the output format can hold it.
+ */
+export function buildAudioConvertArgs(
+  inputPath: string,
+  outputPath: string,
+  options: AudioConvertOptions,
+  source: { tags: Record<string, string>; coverStreamIndex: number | null }
+): { args: string[]; codec: AudioCodec; artwork: boolean; warnings: string[] } {
+  const codec = options.codec ?? AUDIO_FORMAT_CODECS[options.format][0];
+  const warnings: string[] = [];
+  const args = ['-v', 'error', '-nostdin', '-y', '-i', inputPath, '-map', '0:a:0'];
+
+  const artwork = options.preserveArtwork && source.coverStreamIndex !== null;
+  const embedArtwork = artwork && ARTWORK_AUDIO_FORMATS.includes(options.format);
+  if (embedArtwork) {
+    args.push('-map', `0:${source.coverStreamIndex}`, '-c:v', 'copy', '-disposition:v:0', 'attached_pic');
+  } else if (artwork) {
+    warnings.push(`Cover art dropped: ${options.format} output cannot hold it`);
+  }
+
+  args.push('-map_metadata', '-1', '-map_metadata:s:a', '-1');
+  if (options.preserveTags) {
+    for (const [name, value] of Object.entries(source.tags)) {
+      // ffmpeg writes its own encoder tag
+      if (name.toLowerCase() !== 'encoder') args.push('-metadata', `${name}=${value}`);
+    }
+  }
+
+  args.push(...audioEncodeArgs(codec, options), outputPath);
+
+  return { args, codec, artwork: embedArtwork, warnings };
+}
+
+/** Runs an ffmpeg conversion built by buildAudioConvertArgs, within AUDIO_CONVERT_TIMEOUT_MS. */
+export async function runAudioConversion(args: string[]): Promise<void> {
+  await runMediaTool('ffmpeg', args, env.AUDIO_CONVERT_TIMEOUT_MS);
+}
+
+// Clip peaks are read from 16-bit mono PCM at this rate, which ffmpeg writes
+// to stdout alongside the encoded clip
+const PREVIEW_PEAKS_SAMPLE_RATE = 16000;
+
+// loudnorm works at 192 kHz, so normalised clips are resampled to the source
+// rate, or to this one when the codec cannot take it
+const PREVIEW_FALLBACK_SAMPLE_RATE = 48000;
+
+export type AudioPreviewOptions = Omit<AudioPreviewQuery, 'debug' | 'output' | 'start' | 'samples'>;
+
+export type AudioPreviewWindow = { start: number; duration: number; fadeIn: number; fadeOut: number };
+
+function roundSeconds(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Start (in seconds) of the most energetic `durationSeconds` of a file, going
+ * by its peaks: the window with the largest sum of squared peaks, the
+ * earliest one on a tie. Files shorter than the window start at 0.
+ */
+export function findLoudestSection(peaks: number[], pointsPerSecond: number, durationSeconds: number): number {
+  const window = Math.max(1, Math.round(durationSeconds * pointsPerSecond));
+  if (peaks.length <= window) return 0;
+
+  let energy = 0;
+  for (let i = 0; i < window; i++) {
+    energy += peaks[i] ** 2;
+  }
+  let bestEnergy = energy;
+  let bestIndex = 0;
+  for (let i = window; i < peaks.length; i++) {
+    energy += peaks[i] ** 2 - peaks[i - window] ** 2;
+    // The margin keeps rounding drift in the running sum from moving a tie
+    if (energy > bestEnergy + 1e-9) {
+      bestEnergy = energy;
+      bestIndex = i - window + 1;
+    }
+  }
+  return roundSeconds(bestIndex / pointsPerSecond);
+}
+
+/**
+ * The clip actually cut from a file `sourceDuration` seconds long (null when
+ * unknown): shortened when the file ends first, with both fades scaled down
+ * when they no longer fit. Returns null when `start` is past the end.
+ */
+export function previewWindow(
+  start: number,
+  options: Pick<AudioPreviewOptions, 'duration' | 'fadeIn' | 'fadeOut'>,
+  sourceDuration: number | null
+): AudioPreviewWindow | null {
+  if (sourceDuration !== null && start >= sourceDuration) return null;
+  const duration = sourceDuration === null ? options.duration : Math.min(options.duration, sourceDuration - start);
+  const scale = Math.min(1, duration / (options.fadeIn + options.fadeOut || 1));
+  return {
+    start: roundSeconds(start),
+    duration: roundSeconds(duration),
+    fadeIn: roundSeconds(options.fadeIn * scale),
+    fadeOut: roundSeconds(options.fadeOut * scale),
+  };
+}
+
+/**
+ * ffmpeg arguments for /audio/preview. The clip is trimmed, loudness
+ * normalised (single-pass EBU R128 loudnorm) and faded once, then split: one
+ * copy is encoded to `outputPath` like /audio/convert, the other goes to
+ * stdout as PCM for pcmPeaks, so the peaks show exactly what was encoded.
+ * Tags and cover art are not copied.
+ */
+export function buildAudioPreviewArgs(
+  inputPath: string,
+  outputPath: string,
+  window: AudioPreviewWindow,
+  options: AudioPreviewOptions,
+  sourceSampleRate: number | null
+): { args: string[]; codec: AudioCodec } {
+  const codec = options.codec ?? AUDIO_FORMAT_CODECS[options.format][0];
+  const filters: string[] = [];
+  let { sampleRate } = options;
+  if (options.normalize) {
+    filters.push(`loudnorm=I=${options.loudness}:TP=-1.5:LRA=11`);
+    if (!sampleRate) {
+      const keepSource =
+        codec !== 'opus' &&
+        sourceSampleRate !== null &&
+        sourceSampleRate <= PREVIEW_FALLBACK_SAMPLE_RATE &&
+        AUDIO_SAMPLE_RATES.includes(sourceSampleRate);
+      sampleRate = keepSource ? sourceSampleRate : PREVIEW_FALLBACK_SAMPLE_RATE;
+    }
+  }
+  if (window.fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${window.fadeIn}`);
+  }
+  if (window.fadeOut > 0) {
+    filters.push(`afade=t=out:st=${roundSeconds(window.duration - window.fadeOut)}:d=${window.fadeOut}`);
+  }
+  filters.push('asplit=2[clip][peaks]');
+
+  const args = [
+    '-v',
+    'error',
+    '-nostdin',
+    '-y',
+    '-ss',
+    String(window.start),
+    '-t',
+    String(window.duration),
+    '-i',
+    inputPath,
+    '-filter_complex',
+    `[0:a:0]${filters.join(',')}`,
+    '-map',
+    '[clip]',
+    '-map_metadata',
+    '-1',
+    ...audioEncodeArgs(codec, { ...options, sampleRate }),
+    outputPath,
+    '-map',
+    '[peaks]',
+    '-ac',
+    '1',
+    '-ar',
+    String(PREVIEW_PEAKS_SAMPLE_RATE),
+    '-c:a',
+    'pcm_s16le',
+    '-f',
+    's16le',
+    'pipe:1',
+  ];
+  return { args, codec };
+}
+
+/** Runs ffmpeg with buildAudioPreviewArgs, within AUDIO_PREVIEW_TIMEOUT_MS, and returns the clip's PCM. */
+export async function runAudioPreview(args: string[]): Promise<Buffer> {
+  return runMediaTool('ffmpeg', args, env.AUDIO_PREVIEW_TIMEOUT_MS);
+}
+
+/**
+ * Peaks (0-1, like /audio/peaks) of 16-bit little-endian mono PCM: the largest
+ * absolute sample in each of `samples` equal slices, or one per sample when
+ * there are fewer.
+ */
+export function pcmPeaks(pcm: Buffer, samples: number): number[] {
+  const frames = Math.floor(pcm.length / 2);
+  const count = Math.min(samples, frames);
+  const peaks: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const end = Math.floor(((i + 1) * frames) / count);
+    let peak = 0;
+    for (let j = Math.floor((i * frames) / count); j < end; j++) {
+      peak = Math.max(peak, Math.abs(pcm.readInt16LE(j * 2)));
+    }
+    peaks.push(Math.round(Math.min(1, peak / 32768) * 1000) / 1000);
+  }
+  return peaks;
+}
+
+export function tempAudioPath(ext: string): string {
   const safeExt = validateAudioExtension(ext) ? ext : '';
   const tempFileName = `audio_${Date.now()}_${Math.random().toString(36).slice(2)}${safeExt ? '.' + safeExt : ''}`;
-  const tempPath = path.join(tempDir, tempFileName);
+  return path.join(os.tmpdir(), tempFileName);
+}
+
+export async function createTempAudioFile(buffer: Buffer, ext: string): Promise<string> {
+  const tempPath = tempAudioPath(ext);
   await fs.promises.writeFile(tempPath, buffer);
   return tempPath;
 }
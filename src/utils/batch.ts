@@ -0,0 +1,162 @@
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  CONTENT_TYPE_MAP,
+  DebugInfo,
+  ImageBatchFileResult,
+  ImageBatchReport,
+  ImageUploadPolicy,
+} from '../types';
+import { BundleEntry } from './bundle';
+import { convertImage } from './convert';
+import { recordStep } from './debug';
+import { ImageSource } from './image';
+import { checkImagePolicy } from './imagePolicy';
+import { parseImageConvertQuery } from './preset';
+
+export type BatchFile = {
+  input: ImageSource;
+  fileName: string;
+  // URL-encoded convert options for this file, applied over the shared ones
+  options?: string;
+};
+
+/**
+ * Runs `fn` over every item with at most `limit` calls in flight, keeping
+ * results in input order. Workers pick the next item as soon as they finish,
+ * so one slow item does not hold up a whole group.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Parses one file's option overrides (`width=300&format=webp`). Options may
+ * not repeat, as on signed URLs, so a typo cannot silently win over another.
+ */
+export function parseBatchFileOptions(value: string): { query: Record<string, string> } | { error: string } {
+  const query: Record<string, string> = {};
+  for (const [name, optionValue] of new URLSearchParams(value.trim())) {
+    if (name === 'debug') {
+      return { error: 'debug: set it on the batch request instead' };
+    }
+    if (name in query) {
+      return { error: `${name}: given more than once` };
+    }
+    query[name] = optionValue;
+  }
+  return { query };
+}
+
+/**
+ * Archive name for a converted file: the sanitised base name with the output
+ * format's extension, suffixed with -2, -3, ... when the name is taken.
+ */
+export function batchOutputName(originalName: string, format: string, taken: Set<string>): string {
+  const base = path.basename(originalName, path.extname(originalName)).replace(/[^a-zA-Z0-9_-]+/g, '-') || 'image';
+  let name = `${base}.${format}`;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}-${suffix}.${format}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Converts each file with the shared /image/convert options plus its own
+ * overrides, `concurrency` files at a time. A file that fails (bad options,
+ * upload policy, corrupt data) is reported with its error instead of failing
+ * the batch.
+ */
+export async function convertBatch(
+  files: BatchFile[],
+  sharedQuery: Record<string, unknown>,
+  options: { accept?: string; concurrency: number; policy?: ImageUploadPolicy },
+  debugInfo?: DebugInfo
+): Promise<{ entries: BundleEntry[]; report: ImageBatchReport }> {
+  const converted = await mapWithConcurrency(files, options.concurrency, async (file, index) => {
+    const fileStart = Date.now();
+    const result: ImageBatchFileResult = { index, fileName: file.fileName, status: 'error' };
+    try {
+      const overrides = parseBatchFileOptions(file.options ?? '');
+      if ('error' in overrides) {
+        return { result: { ...result, error: 'Invalid parameters', details: [overrides.error] } };
+      }
+      const queryResult = parseImageConvertQuery({ ...sharedQuery, ...overrides.query });
+      if (!queryResult.ok) {
+        return { result: { ...result, error: 'Invalid parameters', details: queryResult.details } };
+      }
+
+      if (options.policy) {
+        const { failures } = await checkImagePolicy(file.input, options.policy);
+        if (failures.length > 0) {
+          return { result: { ...result, error: 'Image rejected by upload policy', details: failures } };
+        }
+      }
+
+      const conversion = await convertImage(file.input, queryResult.data, { accept: options.accept });
+      if (!conversion.ok) {
+        return { result: { ...result, error: conversion.error, details: conversion.details } };
+      }
+      const metadata = await sharp(conversion.data).metadata();
+      return {
+        result: { ...result, status: 'ok' as const },
+        data: conversion.data,
+        format: conversion.format,
+        width: metadata.width,
+        height: metadata.height,
+      };
+    } catch (error) {
+      return {
+        result: {
+          ...result,
+          error: 'Failed to process image',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        },
+      };
+    } finally {
+      recordStep(debugInfo, `file_${index}`, fileStart);
+    }
+  });
+
+  // Names are assigned in upload order once all files are done, so they do
+  // not depend on which conversion finished first
+  const taken = new Set<string>();
+  const entries: BundleEntry[] = [];
+  const results = converted.map(({ result, ...output }) => {
+    if (!output.data || !output.format) return result;
+    const fileName = batchOutputName(result.fileName, output.format, taken);
+    const contentType = CONTENT_TYPE_MAP[output.format];
+    entries.push({ name: fileName, data: output.data, contentType });
+    return {
+      ...result,
+      output: {
+        fileName,
+        format: output.format,
+        contentType,
+        width: output.width,
+        height: output.height,
+        sizeBytes: output.data.length,
+      },
+    };
+  });
+
+  const succeeded = results.filter((result) => result.status === 'ok').length;
+  return {
+    entries,
+    report: { total: files.length, succeeded, failed: files.length - succeeded, files: results },
+  };
+}
@@ -0,0 +1,332 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { env } from '../config/env';
+import {
+  CARD_TEMPLATE_NAME_PATTERN,
+  CardColourToken,
+  CardFormat,
+  CardTemplate,
+  CardTemplateSummary,
+  CardTextField,
+  CardTextLayout,
+  DebugInfo,
+  ImagePalette,
+  PaletteRole,
+  cardTemplateSchema,
+} from '../types';
+import { recordStep } from './debug';
+import { ImageSource, buildEncoderOptions, createImagePipeline, sampleImage, toSharpFormat } from './image';
+import { escapeXml } from './overlay';
+import { contrastRatio, extractPalette } from './palette';
+
+// Rough average glyph widths (as a fraction of the font size) of DejaVu Sans,
+// used to wrap text before librsvg renders it
+const GLYPH_WIDTH = 0.6;
+const BOLD_GLYPH_WIDTH = 0.66;
+
+// Text that does not fit shrinks in steps of this many pixels
+const FONT_SIZE_STEP = 2;
+
+// Roles tried in order for the accent colour; the vivid ones read best on a card
+const ACCENT_ROLES: PaletteRole[] = ['vibrant', 'lightVibrant', 'darkVibrant', 'muted', 'lightMuted', 'darkMuted'];
+
+export type LoadedCardTemplate = CardTemplate & {
+  name: string;
+  // The design, with {{accent}} / {{accentText}} placeholders
+  svg: string;
+};
+
+export type CardColours = Record<CardColourToken, string>;
+
+export type RenderedCard = {
+  data: Buffer;
+  colours: CardColours;
+  accentSource: 'query' | 'cover' | 'template';
+  text: CardTextLayout[];
+};
+
+function fillColours(svg: string, colours: CardColours): string {
+  return svg.replace(/\{\{(accent|accentText)\}\}/g, (_match, token: CardColourToken) => colours[token]);
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.slice(1, 7), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+}
+
+/**
+ * Loads `<name>.json` (layout) and `<name>.svg` (design) from the template
+ * directory, or returns null when either file is missing. A template that
+ * fails validation, or whose design is not the declared size, throws: it is a
+ * bug in the repo, not in the request.
+ */
+export async function loadCardTemplate(
+  name: string,
+  directory = env.CARD_TEMPLATES_DIR
+): Promise<LoadedCardTemplate | null> {
+  if (!CARD_TEMPLATE_NAME_PATTERN.test(name)) return null;
+  const base = path.join(path.resolve(directory), name);
+
+  let manifest: string;
+  let svg: string;
+  try {
+    [manifest, svg] = await Promise.all([fs.readFile(`${base}.json`, 'utf8'), fs.readFile(`${base}.svg`, 'utf8')]);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(manifest);
+  } catch (error) {
+    throw new Error(`Card template ${name}: invalid JSON (${error instanceof Error ? error.message : error})`);
+  }
+  const result = cardTemplateSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Card template ${name}: ${issues.join('; ')}`);
+  }
+
+  const template = result.data;
+  const design = await sharp(Buffer.from(fillColours(svg, { accent: template.accent, accentText: '#ffffff' })))
+    .metadata()
+    .catch((error: Error) => {
+      throw new Error(`Card template ${name}: ${name}.svg could not be read (${error.message})`);
+    });
+  if (design.width !== template.width || design.height !== template.height) {
+    throw new Error(
+      `Card template ${name}: ${name}.svg is ${design.width}x${design.height}, expected ${template.width}x${template.height}`
+    );
+  }
+
+  return { ...template, name, svg };
+}
+
+/** Every template in the directory, by name, as clients need to fill it in. */
+export async function listCardTemplates(directory = env.CARD_TEMPLATES_DIR): Promise<CardTemplateSummary[]> {
+  const files = await fs.readdir(path.resolve(directory)).catch(() => [] as string[]);
+  const names = files
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .filter((name) => CARD_TEMPLATE_NAME_PATTERN.test(name))
+    .sort();
+
+  const summaries: CardTemplateSummary[] = [];
+  for (const name of names) {
+    const template = await loadCardTemplate(name, directory);
+    if (!template) continue;
+    summaries.push({
+      name,
+      ...(template.description && { description: template.description }),
+      width: template.width,
+      height: template.height,
+      cover: template.cover !== undefined,
+      fields: Object.fromEntries(
+        Object.entries(template.fields).map(([field, spec]) => [
+          field,
+          { required: spec.required, maxLength: spec.maxLength, maxLines: spec.maxLines },
+        ])
+      ),
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Checks the text values sent for a template: every required field present,
+ * none too long, no unknown or repeated fields. Runs of whitespace collapse to
+ * one space, and empty optional fields are left out.
+ */
+export function parseCardText(
+  template: CardTemplate,
+  body: Record<string, unknown>
+): { text: Record<string, string> } | { details: string[] } {
+  const details: string[] = [];
+  const text: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(body)) {
+    const field = template.fields[name];
+    if (!field) {
+      details.push(`${name}: not a field of this template (fields: ${Object.keys(template.fields).join(', ')})`);
+      continue;
+    }
+    if (typeof value !== 'string') {
+      details.push(`${name}: given more than once`);
+      continue;
+    }
+    const normalised = value.replace(/\s+/g, ' ').trim();
+    if ([...normalised].length > field.maxLength) {
+      details.push(`${name}: must be at most ${field.maxLength} characters`);
+    } else if (normalised) {
+      text[name] = normalised;
+    }
+  }
+
+  for (const [name, field] of Object.entries(template.fields)) {
+    if (field.required && !(name in text) && !details.some((detail) => detail.startsWith(`${name}:`))) {
+      details.push(`${name}: required`);
+    }
+  }
+
+  return details.length > 0 ? { details } : { text };
+}
+
+/** Greedy word wrap at `maxChars` per line; words longer than a line are split. */
+function breakLines(words: string[], maxChars: number): string[] {
+  const lines: string[] = [];
+  let current: string[] = [];
+
+  for (const word of words) {
+    let chars = [...word];
+    if (current.length > 0 && current.length + 1 + chars.length <= maxChars) {
+      current.push(' ', ...chars);
+      continue;
+    }
+    if (current.length > 0) {
+      lines.push(current.join(''));
+    }
+    while (chars.length > maxChars) {
+      lines.push(chars.slice(0, maxChars).join(''));
+      chars = chars.slice(maxChars);
+    }
+    current = chars;
+  }
+  if (current.length > 0) {
+    lines.push(current.join(''));
+  }
+  return lines;
+}
+
+/**
+ * Wraps text into the field's box. Text that needs more than maxLines lines
+ * first shrinks towards minFontSize; if it still does not fit, the last line
+ * ends with an ellipsis. Widths go by an average glyph width, since real font
+ * metrics are only known to librsvg.
+ */
+export function layoutCardText(name: string, field: CardTextField, text: string): CardTextLayout {
+  const words = text.split(/\s+/).filter(Boolean);
+  const glyphWidth = field.fontWeight === 'bold' ? BOLD_GLYPH_WIDTH : GLYPH_WIDTH;
+  const minFontSize = field.minFontSize ?? field.fontSize;
+
+  for (let fontSize = field.fontSize; ; fontSize = Math.max(minFontSize, fontSize - FONT_SIZE_STEP)) {
+    const maxChars = Math.max(1, Math.floor(field.width / (fontSize * glyphWidth)));
+    const lines = breakLines(words, maxChars);
+    if (lines.length <= field.maxLines) {
+      return { field: name, lines, fontSize, truncated: false };
+    }
+    if (fontSize <= minFontSize) {
+      const kept = lines.slice(0, field.maxLines);
+      const last = [...kept[kept.length - 1]];
+      kept[kept.length - 1] = `${(last.length >= maxChars ? last.slice(0, maxChars - 1) : last).join('').trimEnd()}…`;
+      return { field: name, lines: kept, fontSize, truncated: true };
+    }
+  }
+}
+
+/**
+ * The accent is the first palette role that found a colour (vivid roles
+ * first), else the most common colour, else the template's own. accentText is
+ * whichever of white and black contrasts more with it.
+ */
+export function pickCardColours(palette: ImagePalette | null, fallback: string): CardColours {
+  const role = ACCENT_ROLES.find((candidate) => palette?.roles[candidate]);
+  const accent = (role && palette?.roles[role]?.hex) || palette?.colors[0]?.hex || fallback;
+  return { accent, accentText: textColourFor(accent) };
+}
+
+function textColourFor(background: string): string {
+  const rgb = hexToRgb(background);
+  return contrastRatio({ r: 255, g: 255, b: 255 }, rgb) >= contrastRatio({ r: 0, g: 0, b: 0 }, rgb)
+    ? '#ffffff'
+    : '#000000';
+}
+
+function textElement(layout: CardTextLayout, field: CardTextField, colours: CardColours): string {
+  const fill = field.fill === 'accent' || field.fill === 'accentText' ? colours[field.fill] : field.fill;
+  const lineStep = layout.fontSize * field.lineHeight;
+  const lines = layout.lines
+    .map(
+      (line, index) => `<tspan x="${field.x}" y="${Math.round(field.y + index * lineStep)}">${escapeXml(line)}</tspan>`
+    )
+    .join('');
+  return (
+    `<text font-family="DejaVu Sans, Arial, sans-serif" font-size="${layout.fontSize}" ` +
+    `font-weight="${field.fontWeight}" text-anchor="${field.anchor}" fill="${fill}">${lines}</text>`
+  );
+}
+
+/** The template's design with its colours filled in and the text drawn on top. */
+export function fillCardTemplate(template: LoadedCardTemplate, text: CardTextLayout[], colours: CardColours): string {
+  const svg = fillColours(template.svg, colours);
+  const elements = text.map((layout) => textElement(layout, template.fields[layout.field], colours)).join('');
+  const end = svg.lastIndexOf('</svg>');
+  return `${svg.slice(0, end)}${elements}${svg.slice(end)}`;
+}
+
+/** Crops the cover to fill its slot, rounding the corners when the template asks for it. */
+async function renderCover(input: ImageSource, slot: NonNullable<CardTemplate['cover']>): Promise<Buffer> {
+  let pipeline = createImagePipeline(input).rotate().resize(slot.width, slot.height, { fit: 'cover' });
+  if (slot.radius > 0) {
+    const mask =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${slot.width}" height="${slot.height}">` +
+      `<rect width="${slot.width}" height="${slot.height}" rx="${slot.radius}" ry="${slot.radius}" fill="#ffffff"/></svg>`;
+    pipeline = pipeline.ensureAlpha().composite([{ input: Buffer.from(mask), blend: 'dest-in' }]);
+  }
+  return pipeline.png().toBuffer();
+}
+
+/**
+ * Renders a share card: picks the accent colour from the cover art (unless
+ * one is given), lays out the text, rasterises the filled-in design, places
+ * the cover in its slot and encodes the result.
+ */
+export async function renderCard(
+  template: LoadedCardTemplate,
+  text: Record<string, string>,
+  options: { cover?: ImageSource; accent?: string; format: CardFormat; quality?: number },
+  debugInfo?: DebugInfo
+): Promise<RenderedCard> {
+  let colours: CardColours;
+  let accentSource: RenderedCard['accentSource'];
+  if (options.accent) {
+    colours = { accent: options.accent, accentText: textColourFor(options.accent) };
+    accentSource = 'query';
+  } else if (options.cover) {
+    const paletteStart = Date.now();
+    const palette = extractPalette(await sampleImage(options.cover), { colors: 1, minContrast: 4.5 });
+    recordStep(debugInfo, 'palette', paletteStart);
+    colours = pickCardColours(palette, template.accent);
+    // Only a fully transparent cover has no colours
+    accentSource = palette.colors.length > 0 ? 'cover' : 'template';
+  } else {
+    colours = pickCardColours(null, template.accent);
+    accentSource = 'template';
+  }
+
+  const layoutStart = Date.now();
+  const layouts = Object.entries(text).map(([name, value]) => layoutCardText(name, template.fields[name], value));
+  const svg = fillCardTemplate(template, layouts, colours);
+  recordStep(debugInfo, 'layout', layoutStart);
+
+  const composites: sharp.OverlayOptions[] = [];
+  if (template.cover && options.cover) {
+    const coverStart = Date.now();
+    composites.push({
+      input: await renderCover(options.cover, template.cover),
+      left: template.cover.left,
+      top: template.cover.top,
+    });
+    recordStep(debugInfo, 'cover', coverStart);
+  }
+
+  const encodeStart = Date.now();
+  const data = await sharp(Buffer.from(svg))
+    .composite(composites)
+    .toFormat(toSharpFormat(options.format), buildEncoderOptions(options.format, { quality: options.quality }))
+    .toBuffer();
+  recordStep(debugInfo, 'encode', encodeStart);
+
+  return { data, colours, accentSource, text: layouts };
+}
@@ -0,0 +1,469 @@
+import sharp from 'sharp';
+import {
+  AUTO_IMAGE_FORMAT,
+  MAX_BYTES_FORMATS,
+  CropRegion,
+  DEFAULT_PLACEHOLDER_OPTIONS,
+  DebugInfo,
+  ImageConvertQuery,
+  ImagePlaceholder,
+  OutputFormat,
+} from '../types';
+import { applyOutputAdjustments, applySourceAdjustments, hasSourceAdjustments } from './adjust';
+import { recordStep } from './debug';
+import {
+  DecodedImage,
+  ImageSource,
+  MetadataPolicyResult,
+  SizedEncodeResult,
+  applyMetadataPolicy,
+  buildEncoderOptions,
+  coverScale,
+  createImagePipeline,
+  decodeImage,
+  encodeWithinBytes,
+  isRegionWithin,
+  negotiateImageFormat,
+  negotiateAnimatedFormat,
+  selectStripFrames,
+  layoutFrameStrip,
+  orientedSize,
+  pipelineFromDecoded,
+  resolveFocalCrop,
+  toSharpFormat,
+  toSourceRegion,
+} from './image';
+import {
+  PreparedOverlay,
+  compositeOverlay,
+  defaultTextSize,
+  prepareOverlay,
+  renderTextOverlay,
+  resolveWatermarkAsset,
+} from './overlay';
+import { createPlaceholders } from './placeholder';
+
+export type ConvertImageResult =
+  | { ok: true; data: Buffer; format: OutputFormat; autoFormat: boolean }
+  | { ok: false; status: 400 | 422; error: string; details: string | string[] };
+
+export type ConvertImageStreamResult =
+  ConvertImageResult | { ok: true; stream: sharp.Sharp; format: OutputFormat; autoFormat: boolean };
+
+export type ConvertImageOptions = { accept?: string; watermarkUpload?: ImageSource };
+
+/**
+ * Runs the /image/convert pipeline: auto-orient, extract, resize/crop,
+ * overlay, metadata policy and encoding. Shared by the upload route and the
+ * signed-URL GET route so both apply identical transformations. Request
+ * problems that only show up once the image is read (extract out of bounds,
+ * unknown watermark asset, unreachable maxBytes) come back as `ok: false`
+ * with the HTTP status to send; debug steps and output are recorded on
+ * `debugInfo` when given.
+ */
+export async function convertImage(
+  input: ImageSource,
+  query: ImageConvertQuery,
+  options: ConvertImageOptions,
+  debugInfo?: DebugInfo
+): Promise<ConvertImageResult> {
+  // Only runConvertImage(..., true) hands back a stream
+  return (await runConvertImage(input, query, options, false, debugInfo)) as ConvertImageResult;
+}
+
+/**
+ * convertImage, except that the result is the encoding pipeline rather than
+ * a buffer whenever nothing else needs the encoded bytes (no debug output, no
+ * maxBytes search), so the caller can pipe it out.
+ */
+export async function convertImageStream(
+  input: ImageSource,
+  query: ImageConvertQuery,
+  options: ConvertImageOptions,
+  debugInfo?: DebugInfo
+): Promise<ConvertImageStreamResult> {
+  return runConvertImage(input, query, options, true, debugInfo);
+}
+
+async function runConvertImage(
+  input: ImageSource,
+  query: ImageConvertQuery,
+  options: ConvertImageOptions,
+  stream: boolean,
+  debugInfo?: DebugInfo
+): Promise<ConvertImageStreamResult> {
+  const {
+    format: requestedFormat,
+    width,
+    height,
+    fit,
+    crop,
+    fx,
+    fy,
+    extract,
+    quality,
+    progressive,
+    mozjpeg,
+    effort,
+    lossless,
+    chromaSubsampling,
+    maxBytes,
+    autoOrient,
+    metadata,
+    embedIcc,
+    placeholders,
+    watermark,
+    overlayText,
+    overlayColor,
+    overlayGravity,
+    overlayLeft,
+    overlayTop,
+    overlayMargin,
+    overlayOpacity,
+    overlayScale,
+    overlayTile,
+    animated,
+    frame,
+    frameStrip,
+  } = query;
+
+  if ([options.watermarkUpload, watermark, overlayText].filter(Boolean).length > 1) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid parameters',
+      details: ['watermark: provide only one of an uploaded watermark, watermark or overlayText'],
+    };
+  }
+
+  if (animated && options.watermarkUpload) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid parameters',
+      details: ['animated: overlays are not supported for animated output'],
+    };
+  }
+
+  let overlayInput = options.watermarkUpload;
+  if (watermark) {
+    const assetPath = await resolveWatermarkAsset(watermark);
+    if (!assetPath) {
+      return {
+        ok: false,
+        status: 400,
+        error: 'Invalid parameters',
+        details: [`watermark: unknown asset "${watermark}"`],
+      };
+    }
+    overlayInput = assetPath;
+  }
+
+  // Process image with sharp
+  const processStart = Date.now();
+  let pipeline = createImagePipeline(input);
+  recordStep(debugInfo, 'sharp_init', processStart);
+
+  // Source metadata drives orientation, cover crops, extract bounds, format
+  // negotiation and the metadata policy
+  const metadataStart = Date.now();
+  const sourceMetadata = await pipeline.metadata();
+  recordStep(debugInfo, 'metadata', metadataStart);
+
+  // Metadata describes the first frame; pages/loop/delay cover the animation
+  const frameCount = sourceMetadata.pages ?? 1;
+  if (frame !== undefined && frame >= frameCount) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid parameters',
+      details: [`frame: exceeds the frame count (${frameCount})`],
+    };
+  }
+  if (animated || frameStrip || frame !== undefined) {
+    pipeline = createImagePipeline(input, { animated: animated || !!frameStrip, page: frame });
+  }
+
+  const autoFormat = requestedFormat === AUTO_IMAGE_FORMAT;
+  const coverCrop = fit === 'cover' && !!width && !!height;
+  let { width: sourceWidth, height: sourceHeight } = orientedSize(sourceMetadata, autoOrient);
+  const hasAlpha = sourceMetadata.hasAlpha ?? false;
+
+  // Apply EXIF orientation first so every later step sees upright pixels
+  if (autoOrient) {
+    const orientStart = Date.now();
+    pipeline = pipeline.rotate();
+    recordStep(debugInfo, 'auto_orient', orientStart);
+  }
+
+  let format = requestedFormat as OutputFormat;
+  if (autoFormat) {
+    format = animated ? negotiateAnimatedFormat(options.accept) : negotiateImageFormat(options.accept, hasAlpha);
+  }
+  // Every lossy candidate supports maxBytes; a PNG picked for a transparent
+  // source (no AVIF or WebP in Accept) does not
+  if (maxBytes && !(MAX_BYTES_FORMATS as readonly string[]).includes(format)) {
+    return {
+      ok: false,
+      status: 400,
+      error: 'Invalid parameters',
+      details: [
+        `maxBytes: format=auto chose ${format} for this image and Accept header, which maxBytes does not support`,
+      ],
+    };
+  }
+
+  // Apply explicit extract rectangle before resizing
+  if (extract) {
+    if (!isRegionWithin(extract, sourceWidth, sourceHeight)) {
+      return {
+        ok: false,
+        status: 400,
+        error: 'Invalid parameters',
+        details: [`extract: region exceeds image bounds (${sourceWidth}x${sourceHeight})`],
+      };
+    }
+    const extractStart = Date.now();
+    pipeline = pipeline.extract(extract);
+    sourceWidth = extract.width;
+    sourceHeight = extract.height;
+    recordStep(debugInfo, 'extract', extractStart);
+  }
+
+  // Trim, rotate, flip and flop work on rendered source pixels, so later steps
+  // (resize, crop boxes) see the adjusted dimensions
+  let sourceAdjusted = false;
+  let trimRegion: CropRegion | undefined;
+  if (hasSourceAdjustments(query)) {
+    const rasterStart = Date.now();
+    const source = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    recordStep(debugInfo, 'rasterize_source', rasterStart);
+
+    const adjusted = await applySourceAdjustments(source, query, debugInfo);
+    pipeline = pipelineFromDecoded(adjusted.image);
+    sourceWidth = adjusted.image.info.width;
+    sourceHeight = adjusted.image.info.height;
+    trimRegion = adjusted.trimRegion;
+    sourceAdjusted = true;
+  }
+
+  // Apply resize if dimensions are provided. Cover crops around a focal point
+  // (centre by default) are resolved here so the crop box can be reported;
+  // smart crops are left to libvips and read back from the output info.
+  let cropRegion: CropRegion | undefined;
+  if (width || height) {
+    const resizeStart = Date.now();
+    if (coverCrop && crop) {
+      pipeline = pipeline.resize({
+        width,
+        height,
+        fit,
+        position: sharp.strategy[crop],
+      });
+    } else if (coverCrop) {
+      const focal = resolveFocalCrop(sourceWidth, sourceHeight, width, height, fx, fy);
+      pipeline = pipeline
+        .resize({
+          width: focal.resizeWidth,
+          height: focal.resizeHeight,
+          fit: 'fill',
+        })
+        .extract(focal.region);
+      cropRegion = focal.region;
+    } else {
+      pipeline = pipeline.resize({
+        width,
+        height,
+        fit,
+      });
+    }
+    recordStep(debugInfo, 'resize', resizeStart);
+  }
+
+  pipeline = applyOutputAdjustments(pipeline, query, debugInfo);
+
+  // A negotiated PNG stays lossless; quality only targets the lossy candidates
+  const encoderOptions = buildEncoderOptions(format, {
+    quality: autoFormat && format === 'png' ? undefined : quality,
+    progressive,
+    mozjpeg,
+    effort,
+    lossless,
+    chromaSubsampling,
+  });
+
+  let outputBuffer: Buffer;
+  let outputInfo: sharp.OutputInfo;
+  let sizedEncode: SizedEncodeResult | undefined;
+  let metadataResult: MetadataPolicyResult | undefined;
+  let rendered: DecodedImage | undefined;
+  let overlay: PreparedOverlay | undefined;
+
+  // Overlays are sized against the rendered output, maxBytes searches encoder
+  // quality and frame strips rearrange frames, so all work from pixels rendered once
+  let stripFrames: number[] | undefined;
+  if (maxBytes || overlayInput || overlayText || frameStrip) {
+    const rasterStart = Date.now();
+    rendered = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    recordStep(debugInfo, 'rasterize', rasterStart);
+  }
+  if (rendered && frameStrip) {
+    const stripStart = Date.now();
+    stripFrames = selectStripFrames(frameCount, frameStrip);
+    rendered = layoutFrameStrip(rendered, frameCount, stripFrames);
+    recordStep(debugInfo, 'frame_strip', stripStart);
+  }
+  const renderedInfo = rendered?.info;
+
+  // Composite after resize/crop and before encoding
+  if (rendered && (overlayInput || overlayText)) {
+    const overlayStart = Date.now();
+    const overlaySource =
+      overlayInput ??
+      (await renderTextOverlay(overlayText as string, {
+        color: overlayColor,
+        fontSize: defaultTextSize(rendered.info.height),
+      }));
+    const absolute = overlayLeft !== undefined && overlayTop !== undefined;
+    overlay = await prepareOverlay(overlaySource, rendered.info, {
+      scale: overlayScale,
+      opacity: overlayOpacity,
+      margin: absolute ? 0 : overlayMargin,
+    });
+    rendered = await compositeOverlay(rendered, overlay, {
+      gravity: overlayGravity,
+      left: overlayLeft,
+      top: overlayTop,
+      tile: overlayTile,
+    });
+    recordStep(debugInfo, 'overlay', overlayStart);
+  }
+
+  if (rendered && maxBytes) {
+    const searchStart = Date.now();
+    let policyResult: MetadataPolicyResult | undefined;
+    sizedEncode = await encodeWithinBytes(rendered, format, encoderOptions, maxBytes, quality, (raw) => {
+      policyResult = applyMetadataPolicy(raw, metadata, sourceMetadata, {
+        embedIcc,
+        detached: true,
+      });
+      return policyResult.pipeline;
+    });
+    metadataResult = policyResult;
+    recordStep(debugInfo, 'quality_search', searchStart);
+
+    if (!sizedEncode.fits) {
+      return {
+        ok: false,
+        status: 422,
+        error: 'Unable to meet maxBytes',
+        details: `Smallest ${format} output is ${sizedEncode.data.length} bytes at quality ${sizedEncode.quality}; limit is ${maxBytes} bytes.`,
+      };
+    }
+
+    outputBuffer = sizedEncode.data;
+    outputInfo = renderedInfo as sharp.OutputInfo;
+  } else {
+    if (rendered) {
+      pipeline = pipelineFromDecoded(rendered);
+    }
+
+    const policyStart = Date.now();
+    metadataResult = applyMetadataPolicy(pipeline, metadata, sourceMetadata, {
+      embedIcc,
+      detached: !!rendered || sourceAdjusted,
+    });
+    pipeline = metadataResult.pipeline;
+    recordStep(debugInfo, 'metadata_policy', policyStart);
+
+    // Convert to output format
+    const formatStart = Date.now();
+    pipeline = pipeline.toFormat(toSharpFormat(format), encoderOptions);
+    recordStep(debugInfo, 'format', formatStart);
+
+    if (stream && !debugInfo) {
+      return { ok: true, stream: pipeline, format, autoFormat };
+    }
+
+    const bufferStart = Date.now();
+    const encoded = await pipeline.toBuffer({ resolveWithObject: true });
+    outputBuffer = encoded.data;
+    // Smart-crop offsets are reported by the render that performed the resize
+    outputInfo = renderedInfo ?? encoded.info;
+    recordStep(debugInfo, 'to_buffer', bufferStart);
+  }
+
+  if (coverCrop && crop) {
+    cropRegion = {
+      left: -(outputInfo.cropOffsetLeft ?? 0),
+      top: -(outputInfo.cropOffsetTop ?? 0),
+      width: outputInfo.width,
+      height: outputInfo.height,
+    };
+  }
+
+  // Placeholders only surface in debug output, so skip the work otherwise
+  let placeholder: ImagePlaceholder | undefined;
+  if (placeholders && debugInfo) {
+    const placeholderStart = Date.now();
+    placeholder = await createPlaceholders(await decodeImage(outputBuffer), DEFAULT_PLACEHOLDER_OPTIONS);
+    recordStep(debugInfo, 'placeholders', placeholderStart);
+  }
+
+  if (debugInfo) {
+    debugInfo.input = {
+      ...debugInfo.input,
+      orientation: sourceMetadata.orientation ?? 1,
+      space: sourceMetadata.space,
+      hasIccProfile: !!sourceMetadata.icc,
+      frames: frameCount,
+      loop: sourceMetadata.loop,
+    };
+    debugInfo.output = {
+      format,
+      requestedFormat,
+      autoOriented: autoOrient && (sourceMetadata.orientation ?? 1) > 1,
+      metadata,
+      iccEmbedded: metadata === 'all' || embedIcc,
+      locationRemoved: metadataResult?.locationRemoved ?? false,
+      sizeBytes: outputBuffer.length,
+      width,
+      height,
+      fit,
+      encoder: encoderOptions,
+      maxBytes,
+      quality: sizedEncode?.quality,
+      qualityAttempts: sizedEncode?.attempts,
+      extract,
+      trim: trimRegion,
+      // Crop boxes map back to source pixels only while the source geometry is unchanged
+      cropBox:
+        cropRegion && width && height && !sourceAdjusted
+          ? {
+              strategy: crop ?? (fx !== undefined ? 'focal' : 'centre'),
+              ...toSourceRegion(cropRegion, coverScale(sourceWidth, sourceHeight, width, height), extract),
+            }
+          : undefined,
+      overlay: overlay
+        ? {
+            source: options.watermarkUpload ? 'upload' : watermark ? `asset:${watermark}` : 'text',
+            width: overlay.width,
+            height: overlay.height,
+            ...(overlayLeft !== undefined ? { left: overlayLeft, top: overlayTop } : { gravity: overlayGravity }),
+            tile: overlayTile,
+            opacity: overlayOpacity,
+          }
+        : undefined,
+      placeholder,
+      frames: animated ? frameCount : 1,
+      loop: animated ? sourceMetadata.loop : undefined,
+      frame,
+      stripFrames,
+    };
+    if (metadataResult?.warnings.length) {
+      debugInfo.warnings = metadataResult.warnings;
+    }
+  }
+
+  return { ok: true, data: outputBuffer, format, autoFormat };
+}
@@ -10,17 +10,23 @@ export function parseDebugLevel(value?: string): DebugLevel | undefined {
 }
 
 export function createDebugInfo(level: DebugLevel, requestId: string): DebugInfo {
+  const rss = process.memoryUsage.rss();
   return {
     level,
     requestId,
     startedAt: new Date().toISOString(),
     steps: [],
+    memory: { rssStartBytes: rss, rssPeakBytes: rss },
   };
 }
 
 export function recordStep(debugInfo: DebugInfo | undefined, name: string, stepStart: number): void {
   if (!debugInfo?.steps) return;
   debugInfo.steps.push({ name, durationMs: Date.now() - stepStart });
+  // RSS is process-wide, so concurrent requests show up in each other's peaks
+  if (debugInfo.memory) {
+    debugInfo.memory.rssPeakBytes = Math.max(debugInfo.memory.rssPeakBytes, process.memoryUsage.rss());
+  }
 }
 
 export function encodeDebugInfo(debugInfo: DebugInfo | Record<string, unknown>): string {
@@ -0,0 +1,219 @@
+export type ExifValue = string | number | number[];
+export type ExifIfd = Record<string, ExifValue>;
+
+export type ParsedExif = {
+  image: ExifIfd;
+  photo: ExifIfd;
+  gps: ExifIfd;
+};
+
+const IMAGE_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x011a: 'XResolution',
+  0x011b: 'YResolution',
+  0x0128: 'ResolutionUnit',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const PHOTO_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8822: 'ExposureProgram',
+  0x8827: 'ISOSpeedRatings',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9201: 'ShutterSpeedValue',
+  0x9202: 'ApertureValue',
+  0x9204: 'ExposureBiasValue',
+  0x9207: 'MeteringMode',
+  0x9209: 'Flash',
+  0x920a: 'FocalLength',
+  0xa001: 'ColorSpace',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa405: 'FocalLengthIn35mmFilm',
+  0xa430: 'CameraOwnerName',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0000: 'GPSVersionID',
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0005: 'GPSAltitudeRef',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x0010: 'GPSImgDirectionRef',
+  0x0011: 'GPSImgDirection',
+  0x001d: 'GPSDateStamp',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Byte size of one component per TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type IfdEntry = { tag: number; type: number; count: number; valueOffset: number };
+
+type TiffView = { buffer: Buffer; littleEndian: boolean };
+
+function readU16(view: TiffView, offset: number): number {
+  return view.littleEndian ? view.buffer.readUInt16LE(offset) : view.buffer.readUInt16BE(offset);
+}
+
+function readU32(view: TiffView, offset: number): number {
+  return view.littleEndian ? view.buffer.readUInt32LE(offset) : view.buffer.readUInt32BE(offset);
+}
+
+function readI32(view: TiffView, offset: number): number {
+  return view.littleEndian ? view.buffer.readInt32LE(offset) : view.buffer.readInt32BE(offset);
+}
+
+function readEntries(view: TiffView, offset: number): IfdEntry[] {
+  if (offset + 2 > view.buffer.length) return [];
+  const count = readU16(view, offset);
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.buffer.length) break;
+    const type = readU16(view, entry + 2);
+    const components = readU32(view, entry + 4);
+    const size = (TYPE_SIZES[type] ?? 0) * components;
+    entries.push({
+      tag: readU16(view, entry),
+      type,
+      count: components,
+      valueOffset: size <= 4 ? entry + 8 : readU32(view, entry + 8),
+    });
+  }
+  return entries;
+}
+
+function readValue(view: TiffView, entry: IfdEntry): ExifValue | undefined {
+  const size = (TYPE_SIZES[entry.type] ?? 0) * entry.count;
+  if (size === 0 || entry.valueOffset + size > view.buffer.length) return undefined;
+
+  if (entry.type === 2) {
+    return view.buffer
+      .toString('latin1', entry.valueOffset, entry.valueOffset + entry.count)
+      .replace(/\0+$/, '')
+      .trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.valueOffset + i * TYPE_SIZES[entry.type];
+    switch (entry.type) {
+      case 1:
+      case 7:
+        values.push(view.buffer[at]);
+        break;
+      case 3:
+        values.push(readU16(view, at));
+        break;
+      case 4:
+        values.push(readU32(view, at));
+        break;
+      case 9:
+        values.push(readI32(view, at));
+        break;
+      case 5: {
+        const denominator = readU32(view, at + 4);
+        values.push(denominator === 0 ? 0 : readU32(view, at) / denominator);
+        break;
+      }
+      case 10: {
+        const denominator = readI32(view, at + 4);
+        values.push(denominator === 0 ? 0 : readI32(view, at) / denominator);
+        break;
+      }
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+function readIfd(
+  view: TiffView,
+  offset: number,
+  names: Record<number, string>
+): { tags: ExifIfd; pointers: Map<number, number> } {
+  const tags: ExifIfd = {};
+  const pointers = new Map<number, number>();
+  for (const entry of readEntries(view, offset)) {
+    if (entry.tag === EXIF_IFD_POINTER || entry.tag === GPS_IFD_POINTER) {
+      pointers.set(entry.tag, readU32(view, entry.valueOffset));
+      continue;
+    }
+    const name = names[entry.tag];
+    if (!name || entry.type === 7) continue; // skip unknown and opaque (maker note style) fields
+    const value = readValue(view, entry);
+    if (value !== undefined && value !== '') tags[name] = value;
+  }
+  return { tags, pointers };
+}
+
+/**
+ * Parses the IFD0, Exif and GPS directories of an EXIF block (as returned by
+ * sharp's metadata().exif, with or without the "Exif\0\0" prefix). Only
+ * well-known tags are decoded; returns null when the block is not valid TIFF.
+ */
+export function parseExif(exif: Buffer | undefined): ParsedExif | null {
+  if (!exif || exif.length < 8) return null;
+
+  const tiff = exif.toString('latin1', 0, 4) === 'Exif' ? exif.subarray(6) : exif;
+  if (tiff.length < 8) return null;
+
+  const byteOrder = tiff.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+
+  try {
+    const view: TiffView = { buffer: tiff, littleEndian: byteOrder === 'II' };
+    if (readU16(view, 2) !== 42) return null;
+
+    const image = readIfd(view, readU32(view, 4), IMAGE_TAGS);
+    const exifOffset = image.pointers.get(EXIF_IFD_POINTER);
+    const gpsOffset = image.pointers.get(GPS_IFD_POINTER);
+
+    return {
+      image: image.tags,
+      photo: exifOffset ? readIfd(view, exifOffset, PHOTO_TAGS).tags : {},
+      gps: gpsOffset ? readIfd(view, gpsOffset, GPS_TAGS).tags : {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when the EXIF block has GPS coordinates or an XMP packet carries GPS
+ * properties. Used to keep photographers' locations out of published images.
+ */
+export function hasLocationData(exif: ParsedExif | null, xmp?: Buffer): boolean {
+  if (exif && Object.keys(exif.gps).some((tag) => tag !== 'GPSVersionID')) return true;
+  return !!xmp && /GPS(Latitude|Longitude|Altitude)/.test(xmp.toString('utf8'));
+}
+
+/**
+ * Returns the string-valued tags of an IFD, limited to `names` when given, in
+ * the shape sharp's withExif() expects.
+ */
+export function exifStrings(tags: ExifIfd, names?: readonly string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(tags)) {
+    if (typeof value === 'string' && (!names || names.includes(name))) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,149 @@
+import { HashAlgorithm, HashVerdict, IMAGE_HASH_BITS, ImageHashComparison, ImageHashes } from '../types';
+import { ImageSource, createImagePipeline } from './image';
+
+// Grid sizes the hashes are computed from: 8x8 means, 9x8 neighbour
+// differences, and the 8x8 lowest frequencies of a 32x32 DCT
+const HASH_SIZE = 8;
+const PHASH_SAMPLE_SIZE = 32;
+
+// Largest distances (of 64 bits) still reported as the same / a similar image
+export const HASH_SAME_MAX_DISTANCE = 4;
+export const HASH_SIMILAR_MAX_DISTANCE = 12;
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function assertGrid(pixels: Uint8Array, width: number, height: number): void {
+  if (pixels.length !== width * height) {
+    throw new Error(`Hash input must be ${width}x${height} single-channel pixels`);
+  }
+}
+
+/** aHash: one bit per pixel of an 8x8 grey grid, set when brighter than the mean. */
+export function averageHash(pixels: Uint8Array): string {
+  assertGrid(pixels, HASH_SIZE, HASH_SIZE);
+  const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+  return bitsToHex(Array.from(pixels, (value) => value > mean));
+}
+
+/** dHash: one bit per horizontal neighbour pair of a 9x8 grey grid, set when the left pixel is brighter. */
+export function differenceHash(pixels: Uint8Array): string {
+  assertGrid(pixels, HASH_SIZE + 1, HASH_SIZE);
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      const at = y * (HASH_SIZE + 1) + x;
+      bits.push(pixels[at] > pixels[at + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+function dct1d(values: number[]): number[] {
+  const n = values.length;
+  return values.map((_, k) => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += values[i] * Math.cos((Math.PI * (2 * i + 1) * k) / (2 * n));
+    }
+    return sum;
+  });
+}
+
+/**
+ * pHash: 2D DCT-II of a 32x32 grey grid; one bit per coefficient of the
+ * top-left 8x8 (lowest frequencies), set when above their median. The DC
+ * term is left out of the median since it only reflects overall brightness.
+ */
+export function perceptualHash(pixels: Uint8Array): string {
+  assertGrid(pixels, PHASH_SAMPLE_SIZE, PHASH_SAMPLE_SIZE);
+  const size = PHASH_SAMPLE_SIZE;
+
+  const rows: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    rows.push(dct1d(Array.from(pixels.subarray(y * size, (y + 1) * size))));
+  }
+  const low: number[] = [];
+  const columns: number[][] = [];
+  for (let x = 0; x < HASH_SIZE; x++) {
+    columns.push(dct1d(rows.map((row) => row[x])));
+  }
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      low.push(columns[u][v]);
+    }
+  }
+
+  const sorted = low.slice(1).sort((a, b) => a - b);
+  const median = (sorted[(sorted.length - 1) >> 1] + sorted[sorted.length >> 1]) / 2;
+  return bitsToHex(low.map((value) => value > median));
+}
+
+async function greyGrid(input: ImageSource, width: number, height: number): Promise<Uint8Array> {
+  // Transparent areas count as white, whatever colour they hide
+  return createImagePipeline(input)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * aHash, dHash and pHash (64-bit, hex) of an auto-oriented image. Each grid
+ * is resized by sharp straight from the source, so large inputs shrink on
+ * load instead of being decoded at full size.
+ */
+export async function createImageHashes(input: ImageSource): Promise<ImageHashes> {
+  const [average, difference, perceptual] = await Promise.all([
+    greyGrid(input, HASH_SIZE, HASH_SIZE),
+    greyGrid(input, HASH_SIZE + 1, HASH_SIZE),
+    greyGrid(input, PHASH_SAMPLE_SIZE, PHASH_SAMPLE_SIZE),
+  ]);
+  return {
+    ahash: averageHash(average),
+    dhash: differenceHash(difference),
+    phash: perceptualHash(perceptual),
+  };
+}
+
+/** Number of differing bits between two equal-length hex hashes. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error('Hashes must have the same length');
+  }
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function hashVerdict(distance: number): HashVerdict {
+  if (distance <= HASH_SAME_MAX_DISTANCE) return 'same';
+  if (distance <= HASH_SIMILAR_MAX_DISTANCE) return 'similar';
+  return 'different';
+}
+
+export function compareHashes(algorithm: HashAlgorithm, a: string, b: string): ImageHashComparison {
+  const distance = hammingDistance(a, b);
+  return {
+    algorithm,
+    distance,
+    bits: IMAGE_HASH_BITS,
+    similarity: Math.round((1 - distance / IMAGE_HASH_BITS) * 1000) / 1000,
+    verdict: hashVerdict(distance),
+    hashes: [a, b],
+  };
+}
@@ -0,0 +1,502 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { env } from '../config/env';
+import {
+  ChannelHistogram,
+  CONTENT_TYPE_MAP,
+  EFFORT_RANGES,
+  FORMAT_ENCODER_OPTIONS,
+  EncoderOption,
+  CropRegion,
+  FitOption,
+  ImageEncoderOptions,
+  ImageSignatureFormat,
+  ImageVariant,
+  MetadataPolicy,
+  OutputFormat,
+} from '../types';
+import { exifStrings, hasLocationData, parseExif } from './exif';
+
+// Reject huge images that cause OOM (50MP unless IMAGE_MAX_INPUT_PIXELS says otherwise)
+export const IMAGE_LIMIT_INPUT_PIXELS = env.IMAGE_MAX_INPUT_PIXELS;
+
+// Encoded image bytes, or the path of a file holding them (read by libvips as it decodes)
+export type ImageSource = Buffer | string;
+
+export type DecodedImage = {
+  data: Buffer;
+  info: sharp.OutputInfo;
+};
+
+export function toSharpFormat(format: OutputFormat): keyof sharp.FormatEnum {
+  return (format === 'jpg' ? 'jpeg' : format) as keyof sharp.FormatEnum;
+}
+
+// ISO-BMFF brands (ftyp box) of AVIF and of HEIC/HEIF images
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+// An SVG may open with an XML declaration, comments and a doctype before <svg
+const SVG_SIGNATURE = /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE\s+svg[^>]*>\s*)?<svg[\s>]/i;
+
+/**
+ * Identifies an image from its leading bytes rather than its name or the
+ * client's Content-Type. AVIF and HEIC share the ISO-BMFF container, so their
+ * ftyp brands decide; AVIF wins when both are listed.
+ */
+export function detectImageFormat(buffer: Buffer): ImageSignatureFormat | null {
+  if (buffer.length < 4) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  const ascii = buffer.toString('latin1', 0, Math.min(buffer.length, 12));
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) return 'gif';
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') return 'webp';
+  if (ascii.startsWith('II*\0') || ascii.startsWith('MM\0*')) return 'tiff';
+
+  if (buffer.length >= 12 && ascii.slice(4, 8) === 'ftyp') {
+    // Major brand at 8, then minor version, then compatible brands up to the box end
+    const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [buffer.toString('latin1', 8, 12)];
+    for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+      brands.push(buffer.toString('latin1', offset, offset + 4));
+    }
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return 'heic';
+    return null;
+  }
+
+  if (SVG_SIGNATURE.test(buffer.toString('utf8').replace(/^\uFEFF/, ''))) return 'svg';
+
+  return null;
+}
+
+// Bytes detectImageFileFormat reads: enough for long ftyp brand lists and an
+// SVG's XML declaration and comments
+const IMAGE_SIGNATURE_BYTES = 512;
+
+/** detectImageFormat on the first bytes of a file, without reading the rest. */
+export async function detectImageFileFormat(filePath: string): Promise<ImageSignatureFormat | null> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(IMAGE_SIGNATURE_BYTES);
+    const { bytesRead } = await handle.read(header, 0, IMAGE_SIGNATURE_BYTES, 0);
+    return detectImageFormat(header.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Opens an image for processing. Only the first frame of multi-frame input is
+ * decoded unless `animated` (all frames, stacked vertically) or `page` is given.
+ */
+export function createImagePipeline(input: ImageSource, options: { animated?: boolean; page?: number } = {}): sharp.Sharp {
+  return sharp(input, { limitInputPixels: IMAGE_LIMIT_INPUT_PIXELS, ...options });
+}
+
+/**
+ * Parses an Accept header into the media types it allows (q > 0).
+ */
+export function parseAcceptedTypes(accept: string | undefined): Set<string> {
+  const accepted = new Set<string>();
+  if (!accept) return accepted;
+
+  for (const part of accept.split(',')) {
+    const [type, ...params] = part.trim().toLowerCase().split(';');
+    const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='));
+    if (type && (!q || parseFloat(q.slice(2)) > 0)) {
+      accepted.add(type.trim());
+    }
+  }
+
+  return accepted;
+}
+
+/**
+ * Chooses an output format for format=auto. AVIF and WebP are only picked when
+ * the client names them explicitly (wildcards say nothing about decoder
+ * support); otherwise PNG keeps transparency and JPEG is used for the rest.
+ */
+export function negotiateImageFormat(accept: string | undefined, hasAlpha: boolean): OutputFormat {
+  const accepted = parseAcceptedTypes(accept);
+  if (accepted.has('image/avif')) return 'avif';
+  if (accepted.has('image/webp')) return 'webp';
+  return hasAlpha ? 'png' : 'jpg';
+}
+
+/**
+ * Picks the output format for format=auto when every frame is kept: WebP when
+ * the client accepts it, otherwise GIF.
+ */
+export function negotiateAnimatedFormat(accept: string | undefined): OutputFormat {
+  return parseAcceptedTypes(accept).has('image/webp') ? 'webp' : 'gif';
+}
+
+export const COPYRIGHT_EXIF_TAGS = ['Copyright', 'Artist'] as const;
+
+export type MetadataPolicyResult = {
+  pipeline: sharp.Sharp;
+  locationRemoved: boolean;
+  warnings: string[];
+};
+
+/**
+ * Width and height as displayed, i.e. after EXIF auto-orientation (orientations
+ * 5-8 swap the axes).
+ */
+export function orientedSize(metadata: sharp.Metadata, autoOrient = true): { width: number; height: number } {
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  return autoOrient && (metadata.orientation ?? 1) >= 5 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Applies the output metadata policy. Pixels are always converted to sRGB
+ * (sharp's default when an input profile is present); `embedIcc` attaches the
+ * sRGB profile. GPS never survives: `all` keeps everything only when the
+ * source carries no location, otherwise it rebuilds EXIF from the descriptive
+ * text fields and drops XMP/IPTC, which sharp cannot filter selectively.
+ * `detached` marks pipelines fed from rendered pixels, which have no source
+ * metadata left to keep, so `all` is rebuilt the same way.
+ */
+export function applyMetadataPolicy(
+  pipeline: sharp.Sharp,
+  policy: MetadataPolicy,
+  source: sharp.Metadata,
+  options: { embedIcc: boolean; detached?: boolean }
+): MetadataPolicyResult {
+  const exif = parseExif(source.exif);
+  const hasLocation = hasLocationData(exif, source.xmp);
+  const warnings: string[] = [];
+  let embedIcc = options.embedIcc;
+
+  if (policy === 'copyright') {
+    const fields = exif ? exifStrings(exif.image, COPYRIGHT_EXIF_TAGS) : {};
+    if (Object.keys(fields).length > 0) {
+      pipeline = pipeline.withExif({ IFD0: fields });
+    }
+  } else if (policy === 'all') {
+    if (!hasLocation && !options.detached) {
+      return { pipeline: pipeline.withMetadata(), locationRemoved: false, warnings };
+    }
+    pipeline = pipeline.withExif({
+      IFD0: exifStrings(exif?.image ?? {}),
+      IFD2: exifStrings(exif?.photo ?? {}),
+    });
+    warnings.push(
+      hasLocation
+        ? 'Source contains location data: GPS removed, EXIF reduced to text fields, XMP/IPTC dropped'
+        : 'Metadata rebuilt from rendered pixels: EXIF reduced to text fields, XMP/IPTC dropped'
+    );
+    embedIcc = true;
+  }
+
+  if (embedIcc) {
+    pipeline = pipeline.withIccProfile('srgb');
+  }
+
+  return { pipeline, locationRemoved: hasLocation, warnings };
+}
+
+export type SizedEncodeResult = {
+  data: Buffer;
+  info: sharp.OutputInfo;
+  quality: number;
+  attempts: number;
+  fits: boolean;
+};
+
+/**
+ * Maps validated encoder options onto sharp's per-format options, dropping
+ * those the format does not understand (format=auto validates against every
+ * candidate). PNG is lossless unless a quality or lossless=false is given,
+ * which switches to palette quantisation.
+ */
+export function buildEncoderOptions(format: OutputFormat, options: ImageEncoderOptions): Record<string, unknown> {
+  const encoderOptions: Record<string, unknown> = {};
+  const supported = FORMAT_ENCODER_OPTIONS[format];
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined && supported.includes(key as EncoderOption)) encoderOptions[key] = value;
+  }
+
+  const effortRange = EFFORT_RANGES[format];
+  if (typeof encoderOptions.effort === 'number' && effortRange) {
+    encoderOptions.effort = Math.min(Math.max(encoderOptions.effort, effortRange[0]), effortRange[1]);
+  }
+
+  if (format === 'png') {
+    delete encoderOptions.lossless;
+    if (options.quality !== undefined || options.lossless === false) {
+      encoderOptions.palette = true;
+    }
+  }
+
+  return encoderOptions;
+}
+
+/**
+ * Binary-searches the highest quality whose encoded output fits in maxBytes.
+ * Encodes from already-rendered pixels so each attempt only pays for the
+ * encoder; `finalize` attaches output metadata so it counts towards the budget.
+ * When nothing fits, returns the smallest attempt with fits=false.
+ */
+export async function encodeWithinBytes(
+  decoded: DecodedImage,
+  format: OutputFormat,
+  options: Record<string, unknown>,
+  maxBytes: number,
+  maxQuality = 100,
+  finalize: (pipeline: sharp.Sharp) => sharp.Sharp = (pipeline) => pipeline
+): Promise<SizedEncodeResult> {
+  let low = 1;
+  let high = maxQuality;
+  let attempts = 0;
+  let best: SizedEncodeResult | undefined;
+  let smallest: SizedEncodeResult | undefined;
+
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const { data, info } = await finalize(pipelineFromDecoded(decoded))
+      .toFormat(toSharpFormat(format), { ...options, quality })
+      .toBuffer({ resolveWithObject: true });
+    attempts++;
+
+    const result = { data, info, quality, attempts, fits: data.length <= maxBytes };
+    if (result.fits) {
+      best = result;
+      low = quality + 1;
+    } else {
+      if (!smallest || data.length < smallest.data.length) smallest = result;
+      high = quality - 1;
+    }
+  }
+
+  // The loop runs at least once, so one of the two is always set
+  const result = (best ?? smallest) as SizedEncodeResult;
+  return { ...result, attempts };
+}
+
+export type CoverCrop = {
+  resizeWidth: number;
+  resizeHeight: number;
+  region: CropRegion;
+};
+
+/**
+ * Scale factor `fit=cover` applies so the source fully covers the target box.
+ */
+export function coverScale(sourceWidth: number, sourceHeight: number, width: number, height: number): number {
+  return Math.max(width / sourceWidth, height / sourceHeight);
+}
+
+/**
+ * Computes a `fit=cover` crop that keeps the focal point (fx, fy as 0–1
+ * fractions of the source) as close to the centre of the output as the image
+ * edges allow. The region is in resized-image coordinates.
+ */
+export function resolveFocalCrop(
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  fx = 0.5,
+  fy = 0.5
+): CoverCrop {
+  const scale = coverScale(sourceWidth, sourceHeight, width, height);
+  const resizeWidth = Math.max(width, Math.round(sourceWidth * scale));
+  const resizeHeight = Math.max(height, Math.round(sourceHeight * scale));
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    resizeWidth,
+    resizeHeight,
+    region: {
+      left: clamp(Math.round(fx * resizeWidth - width / 2), resizeWidth - width),
+      top: clamp(Math.round(fy * resizeHeight - height / 2), resizeHeight - height),
+      width,
+      height,
+    },
+  };
+}
+
+/**
+ * Maps a region of the resized image back onto source pixels, including the
+ * offset of any `extract` rectangle applied before resizing.
+ */
+export function toSourceRegion(region: CropRegion, scale: number, offset?: CropRegion): CropRegion {
+  return {
+    left: Math.round(region.left / scale) + (offset?.left ?? 0),
+    top: Math.round(region.top / scale) + (offset?.top ?? 0),
+    width: Math.round(region.width / scale),
+    height: Math.round(region.height / scale),
+  };
+}
+
+export function isRegionWithin(region: CropRegion, width: number, height: number): boolean {
+  return region.left + region.width <= width && region.top + region.height <= height;
+}
+
+/**
+ * Decodes an image to raw (auto-oriented, sRGB) pixels once so several outputs
+ * can be derived from it without paying the decode cost (and peak memory) per
+ * output.
+ */
+export async function decodeImage(input: ImageSource): Promise<DecodedImage> {
+  const { data, info } = await createImagePipeline(input).rotate().raw().toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+export function pipelineFromDecoded(decoded: DecodedImage): sharp.Sharp {
+  const { width, height, channels } = decoded.info;
+  return sharp(decoded.data, { raw: { width, height, channels } });
+}
+
+/**
+ * Indices of `count` frames spread evenly from the first to the last frame
+ * (every frame when the animation is shorter).
+ */
+export function selectStripFrames(frameCount: number, count: number): number[] {
+  if (count >= frameCount) {
+    return Array.from({ length: frameCount }, (_, i) => i);
+  }
+  return Array.from({ length: count }, (_, i) => Math.round((i * (frameCount - 1)) / (count - 1)));
+}
+
+/**
+ * Rearranges rendered frames (sharp stacks animation frames vertically) into
+ * a single row, keeping only `frameIndices` in the given order.
+ */
+export function layoutFrameStrip(rendered: DecodedImage, frameCount: number, frameIndices: number[]): DecodedImage {
+  const { width, channels } = rendered.info;
+  const frameHeight = rendered.info.height / frameCount;
+  const rowBytes = width * channels;
+  const stripRowBytes = rowBytes * frameIndices.length;
+  const data = Buffer.alloc(stripRowBytes * frameHeight);
+
+  frameIndices.forEach((frame, column) => {
+    for (let y = 0; y < frameHeight; y++) {
+      const sourceStart = (frame * frameHeight + y) * rowBytes;
+      rendered.data.copy(data, y * stripRowBytes + column * rowBytes, sourceStart, sourceStart + rowBytes);
+    }
+  });
+
+  return {
+    data,
+    info: { ...rendered.info, width: width * frameIndices.length, height: frameHeight, size: data.length },
+  };
+}
+
+/**
+ * Drops widths wider than the source (upscaling only inflates the srcset) and
+ * de-duplicates. Falls back to the source width when every request is larger.
+ */
+export function resolveVariantWidths(widths: number[], sourceWidth: number): number[] {
+  const usable = [...new Set(widths)].filter((w) => w <= sourceWidth).sort((a, b) => a - b);
+  return usable.length > 0 ? usable : [sourceWidth];
+}
+
+export function variantFileName(originalName: string, width: number, format: OutputFormat): string {
+  const base = path.basename(originalName, path.extname(originalName)).replace(/[^a-zA-Z0-9_-]+/g, '-') || 'image';
+  return `${base}-${width}w.${format}`;
+}
+
+export async function renderVariant(
+  decoded: DecodedImage,
+  options: { fileName: string; format: OutputFormat; width: number; height?: number; fit: FitOption }
+): Promise<{ variant: ImageVariant; data: Buffer }> {
+  const { data, info } = await pipelineFromDecoded(decoded)
+    .resize({ width: options.width, height: options.height, fit: options.fit })
+    .toFormat(toSharpFormat(options.format))
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    variant: {
+      fileName: options.fileName,
+      format: options.format,
+      contentType: CONTENT_TYPE_MAP[options.format],
+      width: info.width,
+      height: info.height,
+      sizeBytes: data.length,
+    },
+    data,
+  };
+}
+
+export function buildSrcset(variants: ImageVariant[], baseUrl = ''): Partial<Record<OutputFormat, string>> {
+  const srcset: Partial<Record<OutputFormat, string>> = {};
+  for (const variant of variants) {
+    const candidate = `${baseUrl}${variant.fileName} ${variant.width}w`;
+    srcset[variant.format] = srcset[variant.format] ? `${srcset[variant.format]}, ${candidate}` : candidate;
+  }
+  return srcset;
+}
+
+// Longest edge of the pixel sample used for histograms
+export const HISTOGRAM_SAMPLE_SIZE = 512;
+
+const CHANNEL_NAMES: Record<number, string[]> = {
+  1: ['gray'],
+  2: ['gray', 'alpha'],
+  3: ['red', 'green', 'blue'],
+  4: ['red', 'green', 'blue', 'alpha'],
+};
+
+export function toHexColour(colour: { r: number; g: number; b: number }): string {
+  return `#${[colour.r, colour.g, colour.b].map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Decodes a nearest-neighbour sample of at most HISTOGRAM_SAMPLE_SIZE px on the
+ * longest edge, so the cost is bounded and every sampled value is a real
+ * source pixel (no resampling blur widens or narrows the range).
+ */
+export async function sampleImage(input: ImageSource): Promise<DecodedImage> {
+  const { data, info } = await createImagePipeline(input)
+    .rotate()
+    .resize(HISTOGRAM_SAMPLE_SIZE, HISTOGRAM_SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true, kernel: 'nearest' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+/**
+ * Per-channel min/max/mean/stdev plus `bins` equal-width buckets over 0–255,
+ * each holding the fraction of pixels that fall in it.
+ */
+export function summarizeHistogram(sample: DecodedImage, bins: number): ChannelHistogram[] {
+  const { channels } = sample.info;
+  const names = CHANNEL_NAMES[channels] ?? Array.from({ length: channels }, (_, i) => `channel${i}`);
+  const pixels = Math.floor(sample.data.length / channels);
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return names.map((channel, c) => {
+    const counts = new Array<number>(bins).fill(0);
+    let min = 255;
+    let max = 0;
+    let sum = 0;
+    let squares = 0;
+
+    for (let i = c; i < sample.data.length; i += channels) {
+      const value = sample.data[i];
+      if (value < min) min = value;
+      if (value > max) max = value;
+      sum += value;
+      squares += value * value;
+      counts[Math.floor((value * bins) / 256)]++;
+    }
+
+    const mean = pixels > 0 ? sum / pixels : 0;
+    return {
+      channel,
+      min: pixels > 0 ? min : 0,
+      max,
+      mean: round(mean),
+      stdev: round(pixels > 0 ? Math.sqrt(Math.max(squares / pixels - mean * mean, 0)) : 0),
+      bins: counts.map((count) => round(pixels > 0 ? count / pixels : 0)),
+    };
+  });
+}
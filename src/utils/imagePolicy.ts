@@ -0,0 +1,72 @@
+import { ImagePolicyCheck, ImageSignatureFormat, ImageUploadPolicy } from '../types';
+import { ImageSource, createImagePipeline, detectImageFileFormat, detectImageFormat, orientedSize } from './image';
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Failed rules of a policy for an image of the given type and displayed
+ * size, one message per rule. Only the type is checked when the size is
+ * unknown (the file could not be read as that type).
+ */
+export function evaluateImagePolicy(
+  policy: ImageUploadPolicy,
+  image: { format: ImageSignatureFormat | null; width?: number; height?: number }
+): string[] {
+  const failures: string[] = [];
+  if (!image.format || !policy.formats.includes(image.format)) {
+    failures.push(
+      `formats: ${image.format ?? 'unrecognised type'} is not allowed (allowed: ${policy.formats.join(', ')})`
+    );
+  }
+  const { width, height } = image;
+  if (width === undefined || height === undefined) return failures;
+
+  if (policy.minWidth !== undefined && width < policy.minWidth) {
+    failures.push(`minWidth: width ${width}px is below ${policy.minWidth}px`);
+  }
+  if (policy.maxWidth !== undefined && width > policy.maxWidth) {
+    failures.push(`maxWidth: width ${width}px is above ${policy.maxWidth}px`);
+  }
+  if (policy.minHeight !== undefined && height < policy.minHeight) {
+    failures.push(`minHeight: height ${height}px is below ${policy.minHeight}px`);
+  }
+  if (policy.maxHeight !== undefined && height > policy.maxHeight) {
+    failures.push(`maxHeight: height ${height}px is above ${policy.maxHeight}px`);
+  }
+  const aspect = width / height;
+  if (policy.minAspect !== undefined && aspect < policy.minAspect) {
+    failures.push(`minAspect: aspect ratio ${round(aspect, 3)} is below ${policy.minAspect}`);
+  }
+  if (policy.maxAspect !== undefined && aspect > policy.maxAspect) {
+    failures.push(`maxAspect: aspect ratio ${round(aspect, 3)} is above ${policy.maxAspect}`);
+  }
+  const megapixels = (width * height) / 1_000_000;
+  if (policy.maxMegapixels !== undefined && megapixels > policy.maxMegapixels) {
+    failures.push(`maxMegapixels: ${round(megapixels, 2)} MP is above ${policy.maxMegapixels} MP`);
+  }
+  return failures;
+}
+
+/**
+ * Checks an upload against a policy: its type from the leading bytes, then
+ * its displayed (auto-oriented) size from the header sharp reads. Pixels are
+ * not decoded, so oversized uploads are turned away cheaply.
+ */
+export async function checkImagePolicy(input: ImageSource, policy: ImageUploadPolicy): Promise<ImagePolicyCheck> {
+  const format = typeof input === 'string' ? await detectImageFileFormat(input) : detectImageFormat(input);
+  if (!format) {
+    return { format, failures: evaluateImagePolicy(policy, { format }) };
+  }
+
+  let size: { width: number; height: number };
+  try {
+    size = orientedSize(await createImagePipeline(input).metadata());
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    return { format, failures: [...evaluateImagePolicy(policy, { format }), `image: could not be read (${reason})`] };
+  }
+  return { format, ...size, failures: evaluateImagePolicy(policy, { format, ...size }) };
+}
@@ -2,10 +2,88 @@ export { logger } from './logger';
 export { parseDebugLevel, createDebugInfo, recordStep, encodeDebugInfo } from './debug';
 export {
   detectAudioFormat,
+  detectAudioFileFormat,
   resamplePeaks,
+  resampleWaveform,
+  waveformToPeaks,
+  parseAudiowaveformJson,
+  encodeWaveformDat,
+  negotiateWaveformFormat,
+  extractWaveformWithAudiowaveform,
   extractPeaksWithAudiowaveform,
+  tempAudioPath,
   createTempAudioFile,
   cleanupTempFile,
+  parseAudioProbe,
+  probeAudio,
+  extractCoverArt,
+  buildAudioConvertArgs,
+  runAudioConversion,
+  findLoudestSection,
+  previewWindow,
+  buildAudioPreviewArgs,
+  runAudioPreview,
+  pcmPeaks,
   isAudiowaveformAvailable,
   validateAudioExtension,
 } from './audio';
+export {
+  IMAGE_LIMIT_INPUT_PIXELS,
+  detectImageFormat,
+  detectImageFileFormat,
+  toSharpFormat,
+  createImagePipeline,
+  decodeImage,
+  resolveVariantWidths,
+  variantFileName,
+  renderVariant,
+  buildSrcset,
+  buildEncoderOptions,
+  encodeWithinBytes,
+  negotiateImageFormat,
+  orientedSize,
+  applyMetadataPolicy,
+  sampleImage,
+  summarizeHistogram,
+  toHexColour,
+} from './image';
+export { crc32, createZipBundle, createMultipartBundle, createMultipartBoundary } from './bundle';
+export { parseExif, hasLocationData, exifStrings } from './exif';
+export { parseIptc } from './iptc';
+export { parseXmp } from './xmp';
+export { encodeBlurHash, encodeThumbHash, createPlaceholders } from './placeholder';
+export { relativeLuminance, contrastRatio, extractPalette } from './palette';
+export { evaluateImagePolicy, checkImagePolicy } from './imagePolicy';
+export {
+  averageHash,
+  differenceHash,
+  perceptualHash,
+  createImageHashes,
+  hammingDistance,
+  hashVerdict,
+  compareHashes,
+} from './hash';
+export { computeSheetLayout, fitCaption, renderContactSheet } from './sheet';
+export { resolveWatermarkAsset, renderTextOverlay, prepareOverlay, compositeOverlay } from './overlay';
+export { hasSourceAdjustments, applySourceAdjustments, applyOutputAdjustments } from './adjust';
+export { convertImage, convertImageStream } from './convert';
+export {
+  loadCardTemplate,
+  listCardTemplates,
+  parseCardText,
+  layoutCardText,
+  pickCardColours,
+  renderCard,
+} from './card';
+export { mapWithConcurrency, parseBatchFileOptions, batchOutputName, convertBatch } from './batch';
+export { waveformPointCount, waveformPathData, renderWaveformSvg, renderWaveformImage } from './waveform';
+export {
+  signTransformPath,
+  verifyTransformSignature,
+  createSignedTransformPath,
+  parseTransformOptions,
+  decodeSourceUrl,
+  parseAllowedOrigins,
+  isAllowedSourceOrigin,
+  fetchSourceImage,
+} from './signedUrl';
@@ -0,0 +1,71 @@
+export type IptcFields = Record<string, string | string[]>;
+
+// IIM record 2 (application record) datasets
+const APPLICATION_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  15: 'Category',
+  25: 'Keywords',
+  40: 'SpecialInstructions',
+  55: 'DateCreated',
+  60: 'TimeCreated',
+  80: 'Byline',
+  85: 'BylineTitle',
+  90: 'City',
+  92: 'SubLocation',
+  95: 'ProvinceState',
+  100: 'CountryCode',
+  101: 'Country',
+  103: 'OriginalTransmissionReference',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  118: 'Contact',
+  120: 'Caption',
+  122: 'CaptionWriter',
+};
+
+// Datasets that may occur more than once and are returned as arrays
+const REPEATABLE_DATASETS = new Set(['Keywords', 'Byline', 'BylineTitle', 'Contact', 'Category']);
+
+/**
+ * Parses IPTC-IIM application records from sharp's metadata().iptc, which may
+ * be a bare IIM stream or wrapped in a Photoshop 8BIM resource. Text is
+ * decoded as UTF-8.
+ */
+export function parseIptc(iptc: Buffer | undefined): IptcFields | null {
+  if (!iptc || iptc.length < 5) return null;
+
+  const fields: IptcFields = {};
+  let offset = iptc.indexOf(0x1c);
+
+  while (offset >= 0 && offset + 5 <= iptc.length) {
+    if (iptc[offset] !== 0x1c) {
+      offset = iptc.indexOf(0x1c, offset + 1);
+      continue;
+    }
+
+    const record = iptc[offset + 1];
+    const dataset = iptc[offset + 2];
+    const length = iptc.readUInt16BE(offset + 3);
+    const start = offset + 5;
+    // Extended (>32767 byte) datasets are not used for text fields
+    if (length & 0x8000 || start + length > iptc.length) break;
+
+    const name = record === 2 ? APPLICATION_DATASETS[dataset] : undefined;
+    if (name) {
+      const value = iptc.toString('utf8', start, start + length).replace(/\0+$/, '').trim();
+      if (REPEATABLE_DATASETS.has(name)) {
+        const list = (fields[name] as string[] | undefined) ?? [];
+        list.push(value);
+        fields[name] = list;
+      } else {
+        fields[name] = value;
+      }
+    }
+
+    offset = start + length;
+  }
+
+  return Object.keys(fields).length > 0 ? fields : null;
+}
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import sharp from 'sharp';
+import { env } from '../config/env';
+import { OverlayOptions, OverlayPlacement } from '../types';
+import { DecodedImage, IMAGE_LIMIT_INPUT_PIXELS, ImageSource, pipelineFromDecoded } from './image';
+
+export const WATERMARK_ASSET_EXTENSIONS = ['.png', '.webp', '.svg'] as const;
+
+// Text overlays default to 6% of the output height (but never below 12px)
+const DEFAULT_TEXT_SIZE_RATIO = 0.06;
+const MIN_TEXT_SIZE = 12;
+
+// SVG assets are rasterised at up to this density so upscaled logos stay sharp
+const MAX_SVG_DENSITY = 2400;
+
+export type PreparedOverlay = {
+  data: Buffer;
+  width: number;
+  height: number;
+};
+
+/**
+ * Resolves a named watermark asset to a file in WATERMARK_ASSETS_DIR, or null
+ * when no file with a supported extension exists. Names are validated by the
+ * query schema, so they cannot escape the directory.
+ */
+export async function resolveWatermarkAsset(name: string): Promise<string | null> {
+  const directory = path.resolve(env.WATERMARK_ASSETS_DIR);
+  for (const extension of WATERMARK_ASSET_EXTENSIONS) {
+    const candidate = path.join(directory, `${name}${extension}`);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // try the next extension
+    }
+  }
+  return null;
+}
+
+export function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Renders a single line of text to a transparent PNG via SVG. The canvas is
+ * sized generously from the character count and trimmed to the glyphs, since
+ * font metrics are only known to librsvg.
+ */
+export async function renderTextOverlay(text: string, options: { color: string; fontSize: number }): Promise<Buffer> {
+  const { fontSize } = options;
+  const width = Math.ceil(text.length * fontSize + fontSize);
+  const height = Math.ceil(fontSize * 1.6);
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<text x="${Math.round(fontSize / 2)}" y="${Math.round(fontSize * 1.2)}" font-family="DejaVu Sans, Arial, sans-serif" ` +
+    `font-size="${fontSize}" font-weight="bold" fill="${options.color}">${escapeXml(text)}</text></svg>`;
+
+  const rendered = sharp(Buffer.from(svg));
+  try {
+    return await rendered.clone().trim().png().toBuffer();
+  } catch {
+    // Nothing to trim (e.g. whitespace-only glyphs): keep the full canvas
+    return rendered.png().toBuffer();
+  }
+}
+
+export function defaultTextSize(outputHeight: number): number {
+  return Math.max(MIN_TEXT_SIZE, Math.round(outputHeight * DEFAULT_TEXT_SIZE_RATIO));
+}
+
+/**
+ * Scales the overlay (to `scale` × output width when given, otherwise only
+ * down to fit), applies opacity to its alpha channel and pads it with a
+ * transparent margin, which insets gravity placement and spaces out tiles.
+ */
+export async function prepareOverlay(
+  input: ImageSource,
+  output: { width: number; height: number },
+  options: Pick<OverlayOptions, 'scale' | 'opacity' | 'margin'>
+): Promise<PreparedOverlay> {
+  const margin = options.margin;
+  const maxWidth = Math.max(1, output.width - 2 * margin);
+  const maxHeight = Math.max(1, output.height - 2 * margin);
+  const targetWidth = options.scale ? Math.max(1, Math.round(output.width * options.scale)) : undefined;
+
+  const metadata = await sharp(input, { limitInputPixels: IMAGE_LIMIT_INPUT_PIXELS }).metadata();
+  const density =
+    metadata.format === 'svg' && targetWidth && metadata.width
+      ? Math.min(MAX_SVG_DENSITY, Math.max(72, (72 * targetWidth) / metadata.width))
+      : undefined;
+
+  let pipeline = sharp(input, { limitInputPixels: IMAGE_LIMIT_INPUT_PIXELS, density }).rotate().ensureAlpha();
+  if (targetWidth) {
+    pipeline = pipeline.resize({ width: Math.min(targetWidth, maxWidth) });
+  }
+  const { data: scaled, info } = await pipeline.png().toBuffer({ resolveWithObject: true });
+
+  // Never larger than the output (minus margins); sharp rejects oversized composites
+  pipeline = sharp(scaled);
+  if (info.width > maxWidth || info.height > maxHeight) {
+    pipeline = pipeline.resize({ width: maxWidth, height: maxHeight, fit: 'inside' });
+  }
+  if (options.opacity < 1) {
+    // dest-in multiplies the overlay's alpha by the constant alpha of the tile
+    pipeline = pipeline.composite([
+      {
+        input: Buffer.from([255, 255, 255, Math.round(255 * options.opacity)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in',
+      },
+    ]);
+  }
+
+  const { data, info: prepared } = await pipeline.png().toBuffer({ resolveWithObject: true });
+  if (margin === 0) {
+    return { data, width: prepared.width, height: prepared.height };
+  }
+
+  const padded = await sharp(data)
+    .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { data: padded.data, width: padded.info.width, height: padded.info.height };
+}
+
+/**
+ * Composites a prepared overlay onto rendered pixels. Runs after resize/crop
+ * and before encoding; the result keeps an alpha channel only if the base
+ * image had one, so opaque photos do not grow a useless alpha band.
+ */
+export async function compositeOverlay(
+  rendered: DecodedImage,
+  overlay: PreparedOverlay,
+  placement: OverlayPlacement
+): Promise<DecodedImage> {
+  const hasAlpha = rendered.info.channels === 2 || rendered.info.channels === 4;
+  const position =
+    placement.left !== undefined && placement.top !== undefined
+      ? { left: placement.left, top: placement.top }
+      : { gravity: placement.gravity };
+
+  let pipeline = pipelineFromDecoded(rendered).composite([{ input: overlay.data, tile: placement.tile, ...position }]);
+  if (!hasAlpha) {
+    pipeline = pipeline.removeAlpha();
+  }
+
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
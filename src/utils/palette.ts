@@ -0,0 +1,283 @@
+import {
+  ImagePalette,
+  MAX_PALETTE_COLOURS,
+  PALETTE_ROLES,
+  PaletteColour,
+  PaletteContrastPair,
+  PaletteRole,
+} from '../types';
+import { DecodedImage, toHexColour } from './image';
+
+// Colours are bucketed to 5 bits per channel before the median cut
+const QUANTIZE_SHIFT = 3;
+
+// Pixels more transparent than this do not count towards the palette
+const MIN_ALPHA = 128;
+
+// Android Palette targets: [min, target, max] lightness and saturation, and
+// the weights of how close a swatch is to them versus how common it is
+const ROLE_TARGETS: Record<PaletteRole, { lightness: number[]; saturation: number[] }> = {
+  lightVibrant: { lightness: [0.55, 0.74, 1], saturation: [0.35, 1, 1] },
+  vibrant: { lightness: [0.3, 0.5, 0.7], saturation: [0.35, 1, 1] },
+  darkVibrant: { lightness: [0, 0.26, 0.45], saturation: [0.35, 1, 1] },
+  lightMuted: { lightness: [0.55, 0.74, 1], saturation: [0, 0.3, 0.4] },
+  muted: { lightness: [0.3, 0.5, 0.7], saturation: [0, 0.3, 0.4] },
+  darkMuted: { lightness: [0, 0.26, 0.45], saturation: [0, 0.3, 0.4] },
+};
+const SATURATION_WEIGHT = 0.24;
+const LIGHTNESS_WEIGHT = 0.52;
+const POPULATION_WEIGHT = 0.24;
+
+// Near-black and near-white swatches never take a role
+const MIN_ROLE_LIGHTNESS = 0.05;
+const MAX_ROLE_LIGHTNESS = 0.95;
+
+const WCAG_AA = 4.5;
+const WCAG_AA_LARGE = 3;
+const WCAG_AAA = 7;
+
+type ColourBin = {
+  key: number;
+  channels: [number, number, number];
+  count: number;
+  sums: [number, number, number];
+};
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function histogram(sample: DecodedImage): ColourBin[] {
+  const { data, info } = sample;
+  const { channels } = info;
+  const colour = channels >= 3;
+  const alpha = channels === 2 || channels === 4 ? channels - 1 : -1;
+  const bins = new Map<number, ColourBin>();
+
+  for (let offset = 0; offset < data.length; offset += channels) {
+    if (alpha >= 0 && data[offset + alpha] < MIN_ALPHA) continue;
+    const r = data[offset];
+    const g = colour ? data[offset + 1] : r;
+    const b = colour ? data[offset + 2] : r;
+    const quantized: [number, number, number] = [r >> QUANTIZE_SHIFT, g >> QUANTIZE_SHIFT, b >> QUANTIZE_SHIFT];
+    const key = (quantized[0] << 10) | (quantized[1] << 5) | quantized[2];
+    let bin = bins.get(key);
+    if (!bin) {
+      bin = { key, channels: quantized, count: 0, sums: [0, 0, 0] };
+      bins.set(key, bin);
+    }
+    bin.count++;
+    bin.sums[0] += r;
+    bin.sums[1] += g;
+    bin.sums[2] += b;
+  }
+
+  return [...bins.values()].sort((a, b) => a.key - b.key);
+}
+
+function channelRanges(box: ColourBin[]): number[] {
+  return [0, 1, 2].map((channel) => {
+    const values = box.map((bin) => bin.channels[channel]);
+    return Math.max(...values) - Math.min(...values);
+  });
+}
+
+function boxPriority(box: ColourBin[]): number {
+  const population = box.reduce((sum, bin) => sum + bin.count, 0);
+  return population * channelRanges(box).reduce((volume, range) => volume * (range + 1), 1);
+}
+
+/**
+ * Modified median cut: repeatedly splits the box with the largest
+ * population × volume along its widest channel at the population median.
+ * Ties resolve by position and bin key, so the result is deterministic.
+ */
+function medianCut(bins: ColourBin[], maxBoxes: number): ColourBin[][] {
+  const boxes: ColourBin[][] = bins.length > 0 ? [bins] : [];
+
+  while (boxes.length < maxBoxes) {
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, index) => {
+      const priority = box.length > 1 ? boxPriority(box) : 0;
+      if (priority > best) {
+        best = priority;
+        target = index;
+      }
+    });
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const ranges = channelRanges(box);
+    const channel = ranges.indexOf(Math.max(...ranges));
+    const sorted = [...box].sort((a, b) => a.channels[channel] - b.channels[channel] || a.key - b.key);
+    const half = sorted.reduce((sum, bin) => sum + bin.count, 0) / 2;
+
+    let split = 1;
+    let cumulative = sorted[0].count;
+    while (split < sorted.length - 1 && cumulative < half) {
+      cumulative += sorted[split].count;
+      split++;
+    }
+    boxes.splice(target, 1, sorted.slice(0, split), sorted.slice(split));
+  }
+
+  return boxes;
+}
+
+function toHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
+  const [rf, gf, bf] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rf, gf, bf);
+  const min = Math.min(rf, gf, bf);
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return { h: 0, s: 0, l };
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === rf) h = ((gf - bf) / delta) % 6;
+  else if (max === gf) h = (bf - rf) / delta + 2;
+  else h = (rf - gf) / delta + 4;
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+/** WCAG 2 relative luminance of an sRGB colour. */
+export function relativeLuminance(colour: { r: number; g: number; b: number }): number {
+  const [r, g, b] = [colour.r, colour.g, colour.b].map((channel) => {
+    const v = channel / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/** WCAG 2 contrast ratio (1-21) between two colours. */
+export function contrastRatio(a: { r: number; g: number; b: number }, b: { r: number; g: number; b: number }): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+function roleScore(colour: PaletteColour, role: PaletteRole, maxPopulation: number): number {
+  const { lightness, saturation } = ROLE_TARGETS[role];
+  return (
+    SATURATION_WEIGHT * (1 - Math.abs(colour.hsl.s - saturation[1])) +
+    LIGHTNESS_WEIGHT * (1 - Math.abs(colour.hsl.l - lightness[1])) +
+    POPULATION_WEIGHT * (colour.population / maxPopulation)
+  );
+}
+
+function assignRoles(swatches: PaletteColour[]): Record<PaletteRole, PaletteColour | null> {
+  const roles = {} as Record<PaletteRole, PaletteColour | null>;
+  const used = new Set<PaletteColour>();
+  const candidates = swatches.filter(
+    (swatch) => swatch.hsl.l > MIN_ROLE_LIGHTNESS && swatch.hsl.l < MAX_ROLE_LIGHTNESS
+  );
+  const maxPopulation = Math.max(1, ...candidates.map((swatch) => swatch.population));
+
+  for (const role of PALETTE_ROLES) {
+    const { lightness, saturation } = ROLE_TARGETS[role];
+    let best: PaletteColour | null = null;
+    let bestScore = -Infinity;
+    for (const swatch of candidates) {
+      const { s, l } = swatch.hsl;
+      if (used.has(swatch) || s < saturation[0] || s > saturation[2] || l < lightness[0] || l > lightness[2]) {
+        continue;
+      }
+      const score = roleScore(swatch, role, maxPopulation);
+      if (score > bestScore) {
+        best = swatch;
+        bestScore = score;
+      }
+    }
+    roles[role] = best;
+    if (best) used.add(best);
+  }
+
+  return roles;
+}
+
+/**
+ * Text colour for each role swatch: the most common palette colour that
+ * reaches `minContrast` against it, otherwise whichever of white and black
+ * contrasts more.
+ */
+function contrastPairs(
+  roles: Record<PaletteRole, PaletteColour | null>,
+  swatches: PaletteColour[],
+  minContrast: number
+): PaletteContrastPair[] {
+  const white = { r: 255, g: 255, b: 255 };
+  const black = { r: 0, g: 0, b: 0 };
+
+  return PALETTE_ROLES.flatMap((role) => {
+    const background = roles[role];
+    if (!background) return [];
+
+    const fromPalette = swatches.find(
+      (swatch) => swatch !== background && contrastRatio(swatch.rgb, background.rgb) >= minContrast
+    );
+    const foreground =
+      fromPalette?.rgb ??
+      (contrastRatio(white, background.rgb) >= contrastRatio(black, background.rgb) ? white : black);
+    const contrast = contrastRatio(foreground, background.rgb);
+
+    return [
+      {
+        role,
+        background: background.hex,
+        foreground: toHexColour(foreground),
+        contrast: round(contrast, 2),
+        aa: contrast >= WCAG_AA,
+        aaLarge: contrast >= WCAG_AA_LARGE,
+        aaa: contrast >= WCAG_AAA,
+      },
+    ];
+  });
+}
+
+/**
+ * Builds a palette from decoded pixels: up to MAX_PALETTE_COLOURS swatches by
+ * median cut, the `colors` most common of them with their share of the
+ * (opaque) pixels, Material-style roles and contrast-checked text pairs.
+ */
+export function extractPalette(sample: DecodedImage, options: { colors: number; minContrast: number }): ImagePalette {
+  const bins = histogram(sample);
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+
+  // Boxes that average to the same colour are reported once
+  const byHex = new Map<string, PaletteColour>();
+  for (const box of medianCut(bins, MAX_PALETTE_COLOURS)) {
+    const population = box.reduce((sum, bin) => sum + bin.count, 0);
+    const [r, g, b] = [0, 1, 2].map((channel) =>
+      Math.round(box.reduce((sum, bin) => sum + bin.sums[channel], 0) / population)
+    );
+    const hex = toHexColour({ r, g, b });
+    const existing = byHex.get(hex);
+    if (existing) {
+      existing.population += population;
+    } else {
+      byHex.set(hex, { hex, rgb: { r, g, b }, hsl: toHsl(r, g, b), population, share: 0 });
+    }
+  }
+
+  const swatches = [...byHex.values()].sort((a, b) => b.population - a.population || a.hex.localeCompare(b.hex));
+  for (const swatch of swatches) {
+    swatch.share = round(swatch.population / total, 4);
+  }
+
+  const roles = assignRoles(swatches);
+  const pairs = contrastPairs(roles, swatches, options.minContrast);
+
+  const present = (swatch: PaletteColour): PaletteColour => ({
+    ...swatch,
+    hsl: { h: Math.round(swatch.hsl.h), s: round(swatch.hsl.s, 3), l: round(swatch.hsl.l, 3) },
+  });
+  return {
+    colors: swatches.slice(0, options.colors).map(present),
+    roles: Object.fromEntries(PALETTE_ROLES.map((role) => [role, roles[role] ? present(roles[role]) : null])) as Record<
+      PaletteRole,
+      PaletteColour | null
+    >,
+    pairs,
+  };
+}
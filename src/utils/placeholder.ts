@@ -0,0 +1,263 @@
+import { CONTENT_TYPE_MAP, ImagePlaceholder, LqipFormat } from '../types';
+import { DecodedImage, pipelineFromDecoded, toSharpFormat } from './image';
+
+// Longest edge of the pixel grids the hashes are computed from. BlurHash cost
+// grows with pixels × components and ThumbHash is defined for at most 100x100.
+export const BLURHASH_SAMPLE_SIZE = 32;
+export const THUMBHASH_SAMPLE_SIZE = 100;
+
+const BASE83_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encodeBase83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += BASE83_CHARACTERS[digit];
+  }
+  return result;
+}
+
+function srgbToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308 ? Math.round(v * 12.92 * 255) : Math.round((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Encodes RGBA pixels as a BlurHash (https://blurha.sh) with the given number
+ * of horizontal and vertical components (1-9 each). Alpha is ignored. The AC
+ * scale is the largest absolute AC value, as in the C reference encoder.
+ */
+export function encodeBlurHash(
+  rgba: Uint8Array,
+  width: number,
+  height: number,
+  componentsX: number,
+  componentsY: number
+): string {
+  if (componentsX < 1 || componentsX > 9 || componentsY < 1 || componentsY > 9) {
+    throw new Error('BlurHash components must be between 1 and 9');
+  }
+  if (rgba.length !== width * height * 4) {
+    throw new Error('BlurHash input must be RGBA pixels matching width × height');
+  }
+
+  const factors: [number, number, number][] = [];
+  for (let j = 0; j < componentsY; j++) {
+    for (let i = 0; i < componentsX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let y = 0; y < height; y++) {
+        const basisY = Math.cos((Math.PI * j * y) / height);
+        for (let x = 0; x < width; x++) {
+          const basis = Math.cos((Math.PI * i * x) / width) * basisY;
+          const offset = (y * width + x) * 4;
+          r += basis * srgbToLinear(rgba[offset]);
+          g += basis * srgbToLinear(rgba[offset + 1]);
+          b += basis * srgbToLinear(rgba[offset + 2]);
+        }
+      }
+      const scale = normalisation / (width * height);
+      factors.push([r * scale, g * scale, b * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encodeBase83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.flatMap((factor) => factor.map(Math.abs)));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encodeBase83(quantisedMaximum, 1);
+  } else {
+    hash += encodeBase83(0, 1);
+  }
+
+  hash += encodeBase83((linearToSrgb(dc[0]) << 16) + (linearToSrgb(dc[1]) << 8) + linearToSrgb(dc[2]), 4);
+
+  for (const factor of ac) {
+    const [r, g, b] = factor.map((value) =>
+      Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+    );
+    hash += encodeBase83(r * 19 * 19 + g * 19 + b, 2);
+  }
+
+  return hash;
+}
+
+type ThumbHashChannel = { dc: number; ac: number[]; scale: number };
+
+function encodeThumbHashChannel(channel: number[], width: number, height: number, nx: number, ny: number): ThumbHashChannel {
+  let dc = 0;
+  let scale = 0;
+  const ac: number[] = [];
+  const fx = new Array<number>(width);
+
+  for (let cy = 0; cy < ny; cy++) {
+    for (let cx = 0; cx * ny < nx * (ny - cy); cx++) {
+      let f = 0;
+      for (let x = 0; x < width; x++) fx[x] = Math.cos((Math.PI / width) * cx * (x + 0.5));
+      for (let y = 0; y < height; y++) {
+        const fy = Math.cos((Math.PI / height) * cy * (y + 0.5));
+        for (let x = 0; x < width; x++) f += channel[x + y * width] * fx[x] * fy;
+      }
+      f /= width * height;
+      if (cx || cy) {
+        ac.push(f);
+        scale = Math.max(scale, Math.abs(f));
+      } else {
+        dc = f;
+      }
+    }
+  }
+
+  if (scale) {
+    for (let i = 0; i < ac.length; i++) ac[i] = 0.5 + (0.5 / scale) * ac[i];
+  }
+  return { dc, ac, scale };
+}
+
+/**
+ * Encodes RGBA pixels (at most 100x100) as a ThumbHash
+ * (https://evanw.github.io/thumbhash/). Port of the reference encoder.
+ */
+export function encodeThumbHash(rgba: Uint8Array, width: number, height: number): Uint8Array {
+  if (width > 100 || height > 100) {
+    throw new Error(`${width}x${height} doesn't fit in 100x100`);
+  }
+  if (rgba.length !== width * height * 4) {
+    throw new Error('ThumbHash input must be RGBA pixels matching width × height');
+  }
+
+  const pixels = width * height;
+  let averageR = 0;
+  let averageG = 0;
+  let averageB = 0;
+  let averageA = 0;
+  for (let i = 0, j = 0; i < pixels; i++, j += 4) {
+    const alpha = rgba[j + 3] / 255;
+    averageR += (alpha / 255) * rgba[j];
+    averageG += (alpha / 255) * rgba[j + 1];
+    averageB += (alpha / 255) * rgba[j + 2];
+    averageA += alpha;
+  }
+  if (averageA) {
+    averageR /= averageA;
+    averageG /= averageA;
+    averageB /= averageA;
+  }
+
+  const hasAlpha = averageA < pixels;
+  const luminanceLimit = hasAlpha ? 5 : 7;
+  const lx = Math.max(1, Math.round((luminanceLimit * width) / Math.max(width, height)));
+  const ly = Math.max(1, Math.round((luminanceLimit * height) / Math.max(width, height)));
+
+  // Premultiply onto the average colour and convert to LPQA
+  const l: number[] = [];
+  const p: number[] = [];
+  const q: number[] = [];
+  const a: number[] = [];
+  for (let i = 0, j = 0; i < pixels; i++, j += 4) {
+    const alpha = rgba[j + 3] / 255;
+    const r = averageR * (1 - alpha) + (alpha / 255) * rgba[j];
+    const g = averageG * (1 - alpha) + (alpha / 255) * rgba[j + 1];
+    const b = averageB * (1 - alpha) + (alpha / 255) * rgba[j + 2];
+    l[i] = (r + g + b) / 3;
+    p[i] = (r + g) / 2 - b;
+    q[i] = r - g;
+    a[i] = alpha;
+  }
+
+  const lChannel = encodeThumbHashChannel(l, width, height, Math.max(3, lx), Math.max(3, ly));
+  const pChannel = encodeThumbHashChannel(p, width, height, 3, 3);
+  const qChannel = encodeThumbHashChannel(q, width, height, 3, 3);
+  const aChannel = hasAlpha ? encodeThumbHashChannel(a, width, height, 5, 5) : undefined;
+
+  const isLandscape = width > height;
+  const header24 =
+    Math.round(63 * lChannel.dc) |
+    (Math.round(31.5 + 31.5 * pChannel.dc) << 6) |
+    (Math.round(31.5 + 31.5 * qChannel.dc) << 12) |
+    (Math.round(31 * lChannel.scale) << 18) |
+    ((hasAlpha ? 1 : 0) << 23);
+  const header16 =
+    (isLandscape ? ly : lx) |
+    (Math.round(63 * pChannel.scale) << 3) |
+    (Math.round(63 * qChannel.scale) << 9) |
+    ((isLandscape ? 1 : 0) << 15);
+
+  const hash = [header24 & 255, (header24 >> 8) & 255, header24 >> 16, header16 & 255, header16 >> 8];
+  if (aChannel) {
+    hash.push(Math.round(15 * aChannel.dc) | (Math.round(15 * aChannel.scale) << 4));
+  }
+
+  const acStart = hash.length;
+  const acValues = [lChannel, pChannel, qChannel, ...(aChannel ? [aChannel] : [])].flatMap((channel) => channel.ac);
+  acValues.forEach((value, index) => {
+    const at = acStart + (index >> 1);
+    hash[at] = (hash[at] ?? 0) | (Math.round(15 * value) << ((index & 1) << 2));
+  });
+
+  return new Uint8Array(hash);
+}
+
+async function sampleRgba(decoded: DecodedImage, size: number): Promise<DecodedImage> {
+  const { data, info } = await pipelineFromDecoded(decoded)
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+    .toColourspace('srgb')
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+/**
+ * Computes BlurHash, ThumbHash and a tiny inline LQIP from already-decoded
+ * pixels, so the placeholders describe exactly what the pipeline rendered.
+ */
+export async function createPlaceholders(
+  decoded: DecodedImage,
+  options: { componentsX: number; componentsY: number; lqipWidth: number; lqipFormat: LqipFormat }
+): Promise<ImagePlaceholder> {
+  const blurSample = await sampleRgba(decoded, BLURHASH_SAMPLE_SIZE);
+  const thumbSample = await sampleRgba(decoded, THUMBHASH_SAMPLE_SIZE);
+
+  const lqip = await pipelineFromDecoded(decoded)
+    .resize({ width: options.lqipWidth, withoutEnlargement: true })
+    .toFormat(toSharpFormat(options.lqipFormat), { quality: 50 })
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    width: decoded.info.width,
+    height: decoded.info.height,
+    blurhash: encodeBlurHash(
+      blurSample.data,
+      blurSample.info.width,
+      blurSample.info.height,
+      options.componentsX,
+      options.componentsY
+    ),
+    thumbhash: Buffer.from(encodeThumbHash(thumbSample.data, thumbSample.info.width, thumbSample.info.height)).toString(
+      'base64'
+    ),
+    lqip: {
+      dataUri: `data:${CONTENT_TYPE_MAP[options.lqipFormat]};base64,${lqip.data.toString('base64')}`,
+      format: options.lqipFormat,
+      width: lqip.info.width,
+      height: lqip.info.height,
+      sizeBytes: lqip.data.length,
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { imagePresets } from '../config/imagePresets';
+import {
+  IMAGE_CONVERT_OPTIONS,
+  ImageConvertQuery,
+  ImagePreset,
+  imageConvertQuerySchema,
+  imagePresetQuerySchema,
+} from '../types';
+
+export type ExpandedPresetQuery =
+  { ok: true; query: Record<string, unknown>; preset?: string } | { ok: false; details: string[] };
+
+export type ParsedConvertQuery =
+  { ok: true; data: ImageConvertQuery; preset?: string } | { ok: false; details: string[] };
+
+/**
+ * Expands `preset=<name>` into the preset's options. Convert options passed
+ * alongside it must be listed in the preset's allowOverrides and win over the
+ * preset's values; other parameters (debug, policy, output) pass through.
+ */
+export function applyImagePreset(
+  query: Record<string, unknown>,
+  presets: Record<string, ImagePreset> = imagePresets
+): ExpandedPresetQuery {
+  const result = imagePresetQuerySchema.safeParse(query);
+  if (!result.success) {
+    return { ok: false, details: result.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`) };
+  }
+  const name = result.data.preset;
+  if (!name) return { ok: true, query };
+
+  const preset = presets[name];
+  if (!preset) {
+    return { ok: false, details: [`preset: unknown preset "${name}"`] };
+  }
+
+  const rest = Object.entries(query).filter(([key]) => key !== 'preset');
+  const allowed = preset.allowOverrides.length > 0 ? preset.allowOverrides.join(', ') : 'none';
+  const details = rest
+    .filter(([key]) => IMAGE_CONVERT_OPTIONS.includes(key) && !preset.allowOverrides.includes(key))
+    .map(([key]) => `${key}: cannot be overridden with preset "${name}" (allowed: ${allowed})`);
+  if (details.length > 0) {
+    return { ok: false, details };
+  }
+
+  return { ok: true, query: { ...preset.options, ...Object.fromEntries(rest) }, preset: name };
+}
+
+/** Validates /image/convert options, expanding a preset first. */
+export function parseImageConvertQuery(
+  query: Record<string, unknown>,
+  presets: Record<string, ImagePreset> = imagePresets
+): ParsedConvertQuery {
+  const expanded = applyImagePreset(query, presets);
+  if (!expanded.ok) return expanded;
+
+  const result = imageConvertQuerySchema.safeParse(expanded.query);
+  if (!result.success) {
+    return { ok: false, details: result.error.issues.map((e) => `${e.path.join('.')}: ${e.message}`) };
+  }
+  return { ok: true, data: result.data, ...(expanded.preset && { preset: expanded.preset }) };
+}
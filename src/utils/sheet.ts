@@ -0,0 +1,201 @@
+import * as path from 'path';
+import sharp from 'sharp';
+import { CropRegion, DebugInfo, ImageSheetMap, ImageSheetQuery, ImageSheetTile } from '../types';
+import { recordStep } from './debug';
+import { ImageSource, buildEncoderOptions, createImagePipeline, orientedSize, toSharpFormat } from './image';
+import { escapeXml } from './overlay';
+
+// Caption strips are this many times the font size tall
+const CAPTION_LINE_HEIGHT = 1.6;
+
+// Rough average glyph width (as a fraction of the font size) used to shorten
+// captions before librsvg renders them
+const CAPTION_GLYPH_WIDTH = 0.6;
+
+export type SheetTileSource = {
+  input: ImageSource;
+  fileName: string;
+  caption?: string;
+};
+
+export type SheetLayout = {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  cellWidth: number;
+  cellHeight: number;
+  captionHeight: number;
+  gutter: number;
+  cells: CropRegion[];
+};
+
+export type SheetLayoutOptions = Pick<ImageSheetQuery, 'columns' | 'cellWidth' | 'cellHeight' | 'gutter'> & {
+  captionSize?: number;
+};
+
+/**
+ * Places `count` cells on a grid, row by row. Columns default to a near-square
+ * grid and never exceed the number of images; the gutter only separates cells,
+ * so sprite coordinates start at 0,0. A caption strip, when requested, sits
+ * below each cell.
+ */
+export function computeSheetLayout(count: number, options: SheetLayoutOptions): SheetLayout {
+  const columns = Math.max(1, Math.min(options.columns ?? Math.ceil(Math.sqrt(count)), count));
+  const rows = Math.max(1, Math.ceil(count / columns));
+  const cellWidth = options.cellWidth;
+  const cellHeight = options.cellHeight ?? options.cellWidth;
+  const captionHeight = options.captionSize ? Math.ceil(options.captionSize * CAPTION_LINE_HEIGHT) : 0;
+  const { gutter } = options;
+  const rowHeight = cellHeight + captionHeight;
+
+  return {
+    columns,
+    rows,
+    width: columns * cellWidth + (columns - 1) * gutter,
+    height: rows * rowHeight + (rows - 1) * gutter,
+    cellWidth,
+    cellHeight,
+    captionHeight,
+    gutter,
+    cells: Array.from({ length: count }, (_, index) => ({
+      left: (index % columns) * (cellWidth + gutter),
+      top: Math.floor(index / columns) * (rowHeight + gutter),
+      width: cellWidth,
+      height: cellHeight,
+    })),
+  };
+}
+
+/**
+ * Shortens a caption with an ellipsis so it fits `width` at `fontSize`, going
+ * by an average glyph width since real font metrics are only known to librsvg.
+ */
+export function fitCaption(text: string, width: number, fontSize: number): string {
+  const maxChars = Math.max(1, Math.floor(width / (fontSize * CAPTION_GLYPH_WIDTH)));
+  const chars = [...text.trim()];
+  return chars.length <= maxChars ? chars.join('') : `${chars.slice(0, maxChars - 1).join('')}…`;
+}
+
+export function defaultCaption(fileName: string): string {
+  return path.basename(fileName, path.extname(fileName)) || fileName;
+}
+
+function captionSvg(text: string, width: number, height: number, options: { color: string; fontSize: number }): Buffer {
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<text x="${width / 2}" y="${Math.round(height / 2)}" text-anchor="middle" dominant-baseline="central" ` +
+      `font-family="DejaVu Sans, Arial, sans-serif" font-size="${options.fontSize}" fill="${options.color}">` +
+      `${escapeXml(text)}</text></svg>`
+  );
+}
+
+/**
+ * Resizes one image into a cell: contain scales it to fit (the sheet
+ * background shows around it), cover fills the cell and crops the overflow,
+ * fill stretches it. Each input goes through the shared pipeline, so the
+ * /image/convert pixel limit applies per image.
+ */
+async function renderTile(
+  input: ImageSource,
+  cell: { width: number; height: number },
+  fit: ImageSheetQuery['fit']
+): Promise<{ data: Buffer; info: sharp.OutputInfo; source: { width: number; height: number } }> {
+  const pipeline = createImagePipeline(input);
+  const source = orientedSize(await pipeline.metadata());
+  const { data, info } = await pipeline
+    .rotate()
+    .resize(cell.width, cell.height, { fit: fit === 'contain' ? 'inside' : fit })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info, source };
+}
+
+/**
+ * Lays images out on a grid and encodes the sheet. Images are resized one at
+ * a time, so only the cell-sized tiles are held in memory, and the tile map
+ * gives each image's cell and the rectangle it occupies (for CSS sprites).
+ */
+export async function renderContactSheet(
+  tiles: SheetTileSource[],
+  layout: SheetLayout,
+  options: Pick<
+    ImageSheetQuery,
+    'fit' | 'background' | 'captions' | 'captionColor' | 'captionSize' | 'format' | 'quality'
+  >,
+  debugInfo?: DebugInfo
+): Promise<{ data: Buffer; map: ImageSheetMap }> {
+  const composites: sharp.OverlayOptions[] = [];
+  const mapTiles: ImageSheetTile[] = [];
+
+  for (const [index, tile] of tiles.entries()) {
+    const cell = layout.cells[index];
+    const tileStart = Date.now();
+    const rendered = await renderTile(tile.input, cell, options.fit);
+    const x = cell.left + Math.floor((cell.width - rendered.info.width) / 2);
+    const y = cell.top + Math.floor((cell.height - rendered.info.height) / 2);
+    composites.push({
+      input: rendered.data,
+      raw: { width: rendered.info.width, height: rendered.info.height, channels: rendered.info.channels },
+      left: x,
+      top: y,
+    });
+
+    let caption: string | undefined;
+    if (options.captions) {
+      caption = fitCaption(tile.caption ?? defaultCaption(tile.fileName), cell.width, options.captionSize);
+      composites.push({
+        input: captionSvg(caption, cell.width, layout.captionHeight, {
+          color: options.captionColor,
+          fontSize: options.captionSize,
+        }),
+        left: cell.left,
+        top: cell.top + cell.height,
+      });
+    }
+    recordStep(debugInfo, `tile_${index}`, tileStart);
+
+    mapTiles.push({
+      index,
+      fileName: tile.fileName,
+      ...(caption !== undefined && { caption }),
+      cell: { ...cell },
+      x,
+      y,
+      width: rendered.info.width,
+      height: rendered.info.height,
+      source: rendered.source,
+    });
+  }
+
+  const encodeStart = Date.now();
+  let pipeline = sharp({
+    create: { width: layout.width, height: layout.height, channels: 4, background: options.background },
+  }).composite(composites);
+  if (options.format === 'jpg' || options.format === 'jpeg') {
+    // JPEG has no alpha: show a transparent background as its opaque colour
+    pipeline = pipeline.flatten({ background: options.background.slice(0, 7) });
+  }
+  const data = await pipeline
+    .toFormat(toSharpFormat(options.format), buildEncoderOptions(options.format, { quality: options.quality }))
+    .toBuffer();
+  recordStep(debugInfo, 'encode', encodeStart);
+
+  return {
+    data,
+    map: {
+      fileName: `sheet.${options.format}`,
+      format: options.format,
+      width: layout.width,
+      height: layout.height,
+      columns: layout.columns,
+      rows: layout.rows,
+      cellWidth: layout.cellWidth,
+      cellHeight: layout.cellHeight,
+      gutter: layout.gutter,
+      fit: options.fit,
+      tiles: mapTiles,
+    },
+  };
+}
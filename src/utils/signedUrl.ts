@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+
+// Path segment standing for "no options" (Express cannot match an empty segment)
+export const EMPTY_TRANSFORM_OPTIONS = '_';
+
+// Query parameters that make no sense on a cacheable, publicly shareable URL
+const UNSIGNABLE_OPTIONS = ['debug'];
+
+export type SourceFetchResult = { ok: true; data: Buffer } | { ok: false; status: 404 | 502 | 504; message: string };
+
+function base64UrlEncode(value: Buffer | string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * HMAC-SHA256 (base64url) over `<options>/<encodedSourceUrl>`, the two path
+ * segments after the signature, exactly as they appear once URL-decoded.
+ */
+export function signTransformPath(options: string, encodedSourceUrl: string, key: string): string {
+  return crypto.createHmac('sha256', key).update(`${options}/${encodedSourceUrl}`).digest('base64url');
+}
+
+export function verifyTransformSignature(
+  signature: string,
+  options: string,
+  encodedSourceUrl: string,
+  key: string
+): boolean {
+  const expected = Buffer.from(signTransformPath(options, encodedSourceUrl, key), 'utf8');
+  const received = Buffer.from(signature, 'utf8');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Builds the `<signature>/<options>/<encodedSourceUrl>` path suffix for
+ * /v1/image/t from convert-style options (e.g. `{ width: 400, format: 'webp' }`).
+ */
+export function createSignedTransformPath(
+  options: Record<string, string | number | boolean>,
+  sourceUrl: string,
+  key: string
+): string {
+  const entries = Object.entries(options).map(([name, value]) => [name, String(value)]);
+  const optionsSegment = entries.length > 0 ? new URLSearchParams(entries).toString() : EMPTY_TRANSFORM_OPTIONS;
+  const encodedSourceUrl = base64UrlEncode(sourceUrl);
+  return `${signTransformPath(optionsSegment, encodedSourceUrl, key)}/${optionsSegment}/${encodedSourceUrl}`;
+}
+
+/**
+ * Parses the options segment (`width=400&format=webp`, same names as the
+ * /image/convert query) into a query object for the convert schema. Returns
+ * an error message for options that are not allowed on signed URLs.
+ */
+export function parseTransformOptions(segment: string): { query: Record<string, string> } | { error: string } {
+  if (segment === EMPTY_TRANSFORM_OPTIONS) {
+    return { query: {} };
+  }
+  const query: Record<string, string> = {};
+  for (const [name, value] of new URLSearchParams(segment)) {
+    if (UNSIGNABLE_OPTIONS.includes(name)) {
+      return { error: `${name}: not supported on signed URLs` };
+    }
+    if (name in query) {
+      return { error: `${name}: given more than once` };
+    }
+    query[name] = value;
+  }
+  return { query };
+}
+
+/** Decodes the base64url source segment into an absolute http(s) URL, or null. */
+export function decodeSourceUrl(encodedSourceUrl: string): URL | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(encodedSourceUrl)) return null;
+  try {
+    const url = new URL(Buffer.from(encodedSourceUrl, 'base64url').toString('utf8'));
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parses a comma-separated origin allow-list (`https://cdn.example.com,...`); invalid entries are dropped. */
+export function parseAllowedOrigins(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      try {
+        return [new URL(entry).origin];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function isAllowedSourceOrigin(url: URL, allowedOrigins: string[]): boolean {
+  return allowedOrigins.includes(url.origin);
+}
+
+/**
+ * Fetches the source image with a timeout and a size cap. Redirects are
+ * refused so an allow-listed origin cannot bounce the request elsewhere.
+ */
+export async function fetchSourceImage(
+  url: URL,
+  options: { timeoutMs: number; maxBytes: number }
+): Promise<SourceFetchResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return {
+        ok: false,
+        status: 504,
+        message: `Source did not respond within ${options.timeoutMs}ms`,
+      };
+    }
+    return {
+      ok: false,
+      status: 502,
+      message: error instanceof Error ? error.message : 'Source fetch failed',
+    };
+  }
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    return response.status === 404
+      ? { ok: false, status: 404, message: 'Source image not found' }
+      : {
+          ok: false,
+          status: 502,
+          message: `Source responded with HTTP ${response.status}`,
+        };
+  }
+
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > options.maxBytes) {
+    await response.body.cancel();
+    return {
+      ok: false,
+      status: 502,
+      message: `Source image exceeds ${options.maxBytes} bytes`,
+    };
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  try {
+    for await (const chunk of response.body) {
+      received += chunk.length;
+      if (received > options.maxBytes) {
+        // Leaving the loop cancels the body stream
+        return {
+          ok: false,
+          status: 502,
+          message: `Source image exceeds ${options.maxBytes} bytes`,
+        };
+      }
+      chunks.push(Buffer.from(chunk));
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return {
+        ok: false,
+        status: 504,
+        message: `Source did not respond within ${options.timeoutMs}ms`,
+      };
+    }
+    return {
+      ok: false,
+      status: 502,
+      message: error instanceof Error ? error.message : 'Source fetch failed',
+    };
+  }
+
+  return { ok: true, data: Buffer.concat(chunks) };
+}
@@ -0,0 +1,130 @@
+import sharp from 'sharp';
+import { AudioWaveformImageQuery, DebugInfo, WaveformImageFormat } from '../types';
+import { recordStep } from './debug';
+
+export type WaveformImageOptions = Omit<AudioWaveformImageQuery, 'debug'>;
+
+export const WAVEFORM_CONTENT_TYPES: Record<WaveformImageFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// A path gets one point every this many pixels
+const PATH_POINT_SPACING = 2;
+
+// Coordinates are written with one decimal, which is finer than any raster
+// output and keeps the SVG small
+function coordinate(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Number of peaks an image needs: one per bar that fits (bars are centred, so
+ * leftover width is split between both ends), or one every 2px for a path.
+ */
+export function waveformPointCount(
+  options: Pick<WaveformImageOptions, 'style' | 'width' | 'barWidth' | 'barGap'>
+): number {
+  if (options.style === 'path') {
+    return Math.max(2, Math.round(options.width / PATH_POINT_SPACING));
+  }
+  return Math.max(1, Math.floor((options.width + options.barGap) / (options.barWidth + options.barGap)));
+}
+
+/**
+ * Outline of the waveform, mirrored around the horizontal centre line. Silent
+ * sections still get a 1px line so the waveform reads as continuous.
+ */
+export function waveformPathData(peaks: number[], options: WaveformImageOptions): string {
+  const middle = options.height / 2;
+  const halfHeight = (peak: number) => Math.max(0.5, Math.min(1, peak) * middle);
+
+  if (options.style === 'path') {
+    const step = peaks.length > 1 ? options.width / (peaks.length - 1) : 0;
+    const top = peaks.map((peak, i) => `${coordinate(i * step)} ${coordinate(middle - halfHeight(peak))}`);
+    const bottom = peaks.map((peak, i) => `${coordinate(i * step)} ${coordinate(middle + halfHeight(peak))}`).reverse();
+    return `M${top.join('L')}L${bottom.join('L')}Z`;
+  }
+
+  const { barWidth, barGap } = options;
+  // Whole-pixel offset keeps bar edges crisp when rasterised
+  const offset = Math.floor((options.width - (peaks.length * (barWidth + barGap) - barGap)) / 2);
+  return peaks
+    .map((peak, i) => {
+      const half = halfHeight(peak);
+      return `M${coordinate(offset + i * (barWidth + barGap))} ${coordinate(middle - half)}h${barWidth}v${coordinate(2 * half)}h${-barWidth}Z`;
+    })
+    .join('');
+}
+
+/** Solid colour, or a top-to-bottom gradient added to `defs`. */
+function paint(id: string, colour: string, gradientColour: string | undefined, defs: string[]): string {
+  if (!gradientColour) return colour;
+  defs.push(
+    `<linearGradient id="${id}" x1="0" y1="0" x2="0" y2="1">` +
+      `<stop offset="0" stop-color="${colour}"/><stop offset="1" stop-color="${gradientColour}"/></linearGradient>`
+  );
+  return `url(#${id})`;
+}
+
+/**
+ * Draws peaks (0-1) as an SVG. The waveform shape is defined once and drawn
+ * twice when `progress` is set: clipped to the left of the split in the
+ * progress colours and to the right of it in the normal ones.
+ */
+export function renderWaveformSvg(peaks: number[], options: WaveformImageOptions): string {
+  const { width, height } = options;
+  const defs: string[] = [`<path id="wave" d="${waveformPathData(peaks, options)}"/>`];
+  const fill = paint('fill', options.color, options.gradientColor, defs);
+  const body: string[] = [];
+
+  if (options.background) {
+    // #rrggbbaa is split into a colour and an opacity for older SVG renderers
+    const opacity = options.background.length === 9 ? parseInt(options.background.slice(7), 16) / 255 : 1;
+    body.push(
+      `<rect width="${width}" height="${height}" fill="${options.background.slice(0, 7)}"` +
+        `${opacity < 1 ? ` fill-opacity="${Math.round(opacity * 1000) / 1000}"` : ''}/>`
+    );
+  }
+
+  if (options.progress > 0) {
+    const split = coordinate(options.progress * width);
+    const progressFill = paint('progress', options.progressColor, options.progressGradientColor, defs);
+    defs.push(
+      `<clipPath id="played"><rect width="${split}" height="${height}"/></clipPath>`,
+      `<clipPath id="remaining"><rect x="${split}" width="${coordinate(width - split)}" height="${height}"/></clipPath>`
+    );
+    body.push(
+      `<use href="#wave" fill="${progressFill}" clip-path="url(#played)"/>`,
+      `<use href="#wave" fill="${fill}" clip-path="url(#remaining)"/>`
+    );
+  } else {
+    body.push(`<use href="#wave" fill="${fill}"/>`);
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs>${defs.join('')}</defs>${body.join('')}</svg>`
+  );
+}
+
+/**
+ * Renders peaks to the requested format. PNG and WebP are rasterised from the
+ * same SVG, so every format looks the same.
+ */
+export async function renderWaveformImage(
+  peaks: number[],
+  options: WaveformImageOptions,
+  debugInfo?: DebugInfo
+): Promise<Buffer> {
+  const renderStart = Date.now();
+  const svg = Buffer.from(renderWaveformSvg(peaks, options));
+  recordStep(debugInfo, 'render_svg', renderStart);
+  if (options.format === 'svg') return svg;
+
+  const rasteriseStart = Date.now();
+  const data = await sharp(svg).toFormat(options.format).toBuffer();
+  recordStep(debugInfo, 'rasterise', rasteriseStart);
+  return data;
+}
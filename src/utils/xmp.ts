@@ -0,0 +1,63 @@
+export type XmpFields = Record<string, string | string[]>;
+
+const XML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&amp;': '&',
+};
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_m, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&(lt|gt|quot|apos|amp);/g, (entity) => XML_ENTITIES[entity]);
+}
+
+/**
+ * Extracts simple XMP properties as `prefix:Name` keys: attribute-style values
+ * on rdf:Description, plain text elements, and rdf:Alt/Seq/Bag lists. Nested
+ * structures are skipped. This is a lightweight reader for display, not a full
+ * RDF parser.
+ */
+export function parseXmp(xmp: Buffer | undefined): XmpFields | null {
+  if (!xmp || xmp.length === 0) return null;
+
+  const text = xmp.toString('utf8');
+  const fields: XmpFields = {};
+
+  // Attribute form: <rdf:Description xmp:CreatorTool="..." ...>
+  for (const description of text.matchAll(/<rdf:Description\b([^>]*)>/g)) {
+    for (const attribute of description[1].matchAll(/([A-Za-z][\w-]*:[\w-]+)="([^"]*)"/g)) {
+      const [, name, value] = attribute;
+      if (name.startsWith('xmlns:') || name.startsWith('rdf:')) continue;
+      fields[name] = decodeEntities(value);
+    }
+  }
+
+  // Element form: <dc:title><rdf:Alt><rdf:li ...>...</rdf:li></rdf:Alt></dc:title> or <ns:Prop>text</ns:Prop>.
+  // Only opening tags are consumed so properties nested in wrapper elements are still visited.
+  for (const element of text.matchAll(/<([A-Za-z][\w-]*:[\w-]+)((?:\s[^>]*)?)>/g)) {
+    const [openingTag, name, attributes] = element;
+    if (name.startsWith('rdf:') || name.startsWith('x:') || attributes.endsWith('/')) continue;
+
+    const bodyStart = (element.index ?? 0) + openingTag.length;
+    const bodyEnd = text.indexOf(`</${name}>`, bodyStart);
+    if (bodyEnd < 0) continue;
+    const body = text.slice(bodyStart, bodyEnd);
+
+    const container = body.match(/^\s*<rdf:(Alt|Seq|Bag)>([\s\S]*)<\/rdf:\1>\s*$/);
+    if (container) {
+      const items = [...container[2].matchAll(/<rdf:li\b[^>]*>([^<]*)<\/rdf:li>/g)].map((m) => decodeEntities(m[1].trim()));
+      if (items.length > 0) {
+        fields[name] = container[1] === 'Alt' ? items[0] : items;
+      }
+    } else if (!body.includes('<')) {
+      const value = decodeEntities(body.trim());
+      if (value) fields[name] = value;
+    }
+  }
+
+  return Object.keys(fields).length > 0 ? fields : null;
+}
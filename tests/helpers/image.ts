@@ -0,0 +1,14 @@
+import sharp from 'sharp';
+import { DecodedImage } from '../../src/utils/image';
+
+/** Channel values of the pixel at x,y of an encoded image. */
+export async function pixelAt(image: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  return pixel({ data, info }, x, y);
+}
+
+/** Channel values of the pixel at x,y of decoded raw pixels. */
+export function pixel(image: Pick<DecodedImage, 'data' | 'info'>, x: number, y: number): number[] {
+  const offset = (y * image.info.width + x) * image.info.channels;
+  return [...image.data.subarray(offset, offset + image.info.channels)];
+}
@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import { promises as fs } from 'fs';
 import request from 'supertest';
+import sharp from 'sharp';
 import { app } from '../../src/index';
+import { env } from '../../src/config/env';
+import { parseExif } from '../../src/utils/exif';
+import { createSignedTransformPath } from '../../src/utils/signedUrl';
 
 const API_KEY = 'test-api-key';
 
@@ -25,6 +32,22 @@ const MINIMAL_PNG = Buffer.from(
   'base64'
 );
 
+// 12x8 GIF with three frames (red, green, blue; 100/200/300ms delays) and a white top-left pixel
+const ANIMATED_GIF = Buffer.from(
+  'R0lGODlhDAAIAPEAAP8AAAD/AAAA/////yH/C05FVFNDQVBFMi4wAwECAAAh+QQECgAAACwAAAAADAAIAAACSRxBEARBEARBEARB' +
+  'EARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEARBEAUAIfkEBBQAAAAsAAAA' +
+  'AAwACAAAAkkcwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAMwzAM' +
+  'wzAMwzAFACH5BAQeAAAALAAAAAAMAAgAAAJJHEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVR' +
+  'FEVRFEVRFEVRFEVRFEVRFEVRFEVRFEVRBQA7',
+  'base64'
+);
+
+function binaryParser(res: http.IncomingMessage, callback: (err: Error | null, body: Buffer) => void): void {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
 describe('Health Endpoint', () => {
   it('GET /health should return health status', async () => {
     const response = await request(server).get('/health');
@@ -134,41 +157,1659 @@ describe('Image Conversion Endpoint', () => {
   });
 });
 
-describe('Audio Peaks Endpoint', () => {
-  it('POST /v1/audio/peaks should require audio file', async () => {
+describe('Image Crop Options', () => {
+  let source: Buffer;
+
+  beforeAll(async () => {
+    source = await sharp({
+      create: { width: 400, height: 200, channels: 3, background: { r: 0, g: 0, b: 0 } },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  function decodeDebug(header: string) {
+    return JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+  }
+
+  it('POST /v1/image/convert should report the centre crop box', async () => {
     const response = await request(server)
-      .post('/v1/audio/peaks')
-      .set('X-Api-Key', API_KEY);
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ width: '100', height: '100', debug: 'info' })
+      .attach('image', source, 'wide.png');
+
+    expect(response.status).toBe(200);
+    const debug = decodeDebug(response.headers['x-debug-info']);
+    expect(debug.output.cropBox).toEqual({ strategy: 'centre', left: 100, top: 0, width: 200, height: 200 });
+  });
+
+  it('POST /v1/image/convert should crop around a focal point', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ width: '100', height: '100', fx: '1', fy: '0.5', debug: 'info' })
+      .attach('image', source, 'wide.png');
+
+    expect(response.status).toBe(200);
+    const debug = decodeDebug(response.headers['x-debug-info']);
+    expect(debug.output.cropBox).toMatchObject({ strategy: 'focal', left: 200, width: 200 });
+  });
+
+  it('POST /v1/image/convert should report smart crop boxes', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ width: '100', height: '100', crop: 'entropy', debug: 'info' })
+      .attach('image', source, 'wide.png');
+
+    expect(response.status).toBe(200);
+    const debug = decodeDebug(response.headers['x-debug-info']);
+    expect(debug.output.cropBox).toMatchObject({ strategy: 'entropy', width: 200, height: 200 });
+  });
+
+  it('POST /v1/image/convert should apply extract before resizing', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ extract: '50,50,100,100', format: 'png' })
+      .attach('image', source, 'wide.png');
+
+    expect(response.status).toBe(200);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata.width).toBe(100);
+    expect(metadata.height).toBe(100);
+  });
+
+  it('POST /v1/image/convert should reject extract outside the image', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ extract: '350,0,100,100' })
+      .attach('image', source, 'wide.png');
 
     expect(response.status).toBe(400);
-    expect(response.body.error).toContain('No audio file provided');
+    expect(response.body.details[0]).toContain('exceeds image bounds');
   });
+});
 
-  it('POST /v1/audio/peaks should reject invalid samples parameter', async () => {
-    const wavBuffer = Buffer.from([
-      0x52, 0x49, 0x46, 0x46, // RIFF
-      0x24, 0x00, 0x00, 0x00, // file size
-      0x57, 0x41, 0x56, 0x45, // WAVE
-      0x66, 0x6d, 0x74, 0x20, // fmt
-      0x10, 0x00, 0x00, 0x00, // chunk size
-      0x01, 0x00,             // audio format
-      0x01, 0x00,             // channels
-      0x44, 0xac, 0x00, 0x00, // sample rate
-      0x88, 0x58, 0x01, 0x00, // byte rate
-      0x02, 0x00,             // block align
-      0x10, 0x00,             // bits per sample
-      0x64, 0x61, 0x74, 0x61, // data
-      0x00, 0x00, 0x00, 0x00, // data size
+describe('Image Encoder Options', () => {
+  let source: Buffer;
+
+  beforeAll(async () => {
+    const width = 200;
+    const height = 200;
+    const raw = Buffer.alloc(width * height * 3);
+    for (let i = 0; i < raw.length; i++) raw[i] = (i * 7919) % 251;
+    source = await sharp(raw, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  });
+
+  it('POST /v1/image/convert should apply encoder options', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'jpg', quality: '40', progressive: 'true' })
+      .attach('image', source, 'noise.png');
+
+    expect(response.status).toBe(200);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata.isProgressive).toBe(true);
+  });
+
+  it('POST /v1/image/convert should reject unsupported encoder options', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'gif', quality: '40' })
+      .attach('image', source, 'noise.png');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details[0]).toContain('quality is not supported for format gif');
+  });
+
+  it('POST /v1/image/convert should fit output under maxBytes', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'webp', maxBytes: '20000', debug: 'info' })
+      .attach('image', source, 'noise.png');
+
+    expect(response.status).toBe(200);
+    expect(Number(response.headers['content-length'])).toBeLessThanOrEqual(20000);
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.output.quality).toBeGreaterThanOrEqual(1);
+    expect(debug.output.qualityAttempts).toBeGreaterThan(0);
+  });
+
+  it('POST /v1/image/convert should return 422 when maxBytes cannot be met', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'jpg', maxBytes: '10' })
+      .attach('image', source, 'noise.png');
+
+    expect(response.status).toBe(422);
+    expect(response.body.error).toBe('Unable to meet maxBytes');
+  });
+
+  it('POST /v1/image/convert should apply maxBytes to the negotiated format', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .set('Accept', 'image/webp,*/*')
+      .query({ format: 'auto', maxBytes: '20000' })
+      .attach('image', source, 'noise.png');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+    expect(Number(response.headers['content-length'])).toBeLessThanOrEqual(20000);
+
+    const transparent = await sharp({
+      create: { width: 8, height: 8, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0.5 } },
+    })
+      .png()
+      .toBuffer();
+    const png = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'auto', maxBytes: '20000' })
+      .attach('image', transparent, 'transparent.png');
+
+    expect(png.status).toBe(400);
+    expect(png.body.details).toEqual([
+      'maxBytes: format=auto chose png for this image and Accept header, which maxBytes does not support',
     ]);
+  });
+});
 
+describe('Image Format Negotiation', () => {
+  it('POST /v1/image/convert should pick webp from the Accept header', async () => {
     const response = await request(server)
-      .post('/v1/audio/peaks')
+      .post('/v1/image/convert')
       .set('X-Api-Key', API_KEY)
-      .query({ samples: '99999' })
-      .attach('audio', wavBuffer, 'test.wav');
+      .set('Accept', 'image/webp,image/*;q=0.8')
+      .query({ format: 'auto' })
+      .attach('image', MINIMAL_PNG, 'test.png');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+    expect(response.headers['vary']).toMatch(/Accept/);
+  });
+
+  it('POST /v1/image/convert should keep alpha as png without modern formats', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .set('Accept', 'image/*')
+      .query({ format: 'auto' })
+      .attach('image', MINIMAL_PNG, 'test.png');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+  });
+
+  it('POST /v1/image/convert should not vary on Accept for explicit formats', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'jpg' })
+      .attach('image', MINIMAL_PNG, 'test.png');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['vary'] ?? '').not.toMatch(/Accept/);
+  });
+});
+
+describe('Image Orientation and Metadata', () => {
+  let rotated: Buffer;
+
+  beforeAll(async () => {
+    // Stored 40x20 with EXIF orientation 6 (display 20x40) and a GPS position
+    rotated = await sharp({
+      create: { width: 40, height: 20, channels: 3, background: { r: 200, g: 100, b: 50 } },
+    })
+      .withMetadata({ orientation: 6 })
+      .withExifMerge({
+        IFD0: { Copyright: '(c) Label' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '52/1 30/1 0/1' },
+      })
+      .jpeg()
+      .toBuffer();
+  });
+
+  it('POST /v1/image/convert should auto-orient by default', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', rotated, 'phone.jpg');
+
+    expect(response.status).toBe(200);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata.width).toBe(20);
+    expect(metadata.height).toBe(40);
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('POST /v1/image/convert should keep stored orientation when autoOrient=false', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ autoOrient: 'false' })
+      .attach('image', rotated, 'phone.jpg');
+
+    expect(response.status).toBe(200);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata.width).toBe(40);
+  });
+
+  it('POST /v1/image/convert should never leak GPS with metadata=all', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ metadata: 'all', debug: 'info' })
+      .attach('image', rotated, 'phone.jpg');
+
+    expect(response.status).toBe(200);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    const exif = parseExif(metadata.exif);
+    expect(exif?.image.Copyright).toBe('(c) Label');
+    expect(exif?.gps).toEqual({});
+    expect(metadata.icc).toBeDefined();
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.output.locationRemoved).toBe(true);
+  });
+
+  it('POST /v1/image/convert should convert wide-gamut input to sRGB', async () => {
+    const p3 = await sharp({ create: { width: 4, height: 4, channels: 3, background: { r: 200, g: 100, b: 50 } } })
+      .withIccProfile('p3')
+      .png()
+      .toBuffer();
+
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', embedIcc: 'true' })
+      .attach('image', p3, 'p3.png');
+
+    expect(response.status).toBe(200);
+    const output = sharp(response.body as Buffer);
+    expect((await output.metadata()).icc).toBeDefined();
+    const pixel = await output.raw().toBuffer();
+    expect(pixel[0]).toBeCloseTo(200, -1);
+    expect(pixel[1]).toBeCloseTo(100, -1);
+  });
+
+  it('POST /v1/image/convert should keep metadata within maxBytes', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ metadata: 'copyright', maxBytes: '100000' })
+      .attach('image', rotated, 'phone.jpg');
+
+    expect(response.status).toBe(200);
+    const exif = parseExif((await sharp(response.body as Buffer).metadata()).exif);
+    expect(exif?.image.Copyright).toBe('(c) Label');
+  });
+});
+
+describe('Image Overlays', () => {
+  let photo: Buffer;
+
+  beforeAll(async () => {
+    photo = await sharp({ create: { width: 400, height: 300, channels: 3, background: { r: 0, g: 0, b: 0 } } })
+      .jpeg()
+      .toBuffer();
+  });
+
+  async function pixelAt(image: Buffer, x: number, y: number): Promise<number[]> {
+    const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+    const offset = (y * info.width + x) * info.channels;
+    return [...data.subarray(offset, offset + info.channels)];
+  }
+
+  it('POST /v1/image/convert should composite an uploaded watermark after resizing', async () => {
+    const logo = await sharp({ create: { width: 20, height: 20, channels: 4, background: '#ffffff' } }).png().toBuffer();
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', width: '200', height: '150', overlayScale: '0.25', overlayGravity: 'southeast', debug: 'info' })
+      .attach('image', photo, 'photo.jpg')
+      .attach('watermark', logo, 'logo.png');
+
+    expect(response.status).toBe(200);
+    const body = response.body as Buffer;
+    const metadata = await sharp(body).metadata();
+    expect(metadata.width).toBe(200);
+    expect(metadata.hasAlpha).toBe(false);
+    expect(await pixelAt(body, 190, 140)).toEqual([255, 255, 255]);
+    expect(await pixelAt(body, 10, 10)).toEqual([0, 0, 0]);
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.output.overlay).toMatchObject({ source: 'upload', width: 50, height: 50, gravity: 'southeast' });
+    expect(debug.steps.map((s: { name: string }) => s.name)).toEqual(expect.arrayContaining(['resize', 'overlay', 'format']));
+  });
+
+  it('POST /v1/image/convert should composite a named asset with opacity', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', watermark: 'promo', overlayGravity: 'centre', overlayOpacity: '0.5' })
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(200);
+    // Centre of the badge: white text or translucent black box, never untouched
+    const [r] = await pixelAt(response.body as Buffer, 200, 150);
+    expect(r).toBeLessThan(200);
+    const [edgeR] = await pixelAt(response.body as Buffer, 5, 5);
+    expect(edgeR).toBe(0);
+  });
+
+  it('POST /v1/image/convert should render text overlays', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', overlayText: 'PROMO', overlayColor: 'ff0000', overlayTile: 'true', overlayMargin: '20' })
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(200);
+    const { data, info } = await sharp(response.body as Buffer).raw().toBuffer({ resolveWithObject: true });
+    let red = 0;
+    for (let i = 0; i < data.length; i += info.channels) {
+      if (data[i] > 200 && data[i + 1] < 50) red++;
+    }
+    expect(red).toBeGreaterThan(100);
+  });
+
+  it('POST /v1/image/convert should keep alpha when compositing onto transparent images', async () => {
+    const transparent = await sharp({
+      create: { width: 100, height: 100, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } },
+    })
+      .png()
+      .toBuffer();
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'webp', lossless: 'true', overlayText: 'PROMO' })
+      .attach('image', transparent, 'clear.png');
+
+    expect(response.status).toBe(200);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata.hasAlpha).toBe(true);
+    expect((await pixelAt(response.body as Buffer, 2, 2))[3]).toBe(0);
+  });
+
+  it('POST /v1/image/convert should combine overlays with maxBytes', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'jpg', maxBytes: '20000', overlayText: 'PROMO' })
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(200);
+    expect((response.body as Buffer).length).toBeLessThanOrEqual(20000);
+  });
+
+  it('POST /v1/image/convert should reject unknown watermark assets', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ watermark: 'missing' })
+      .attach('image', photo, 'photo.jpg');
 
     expect(response.status).toBe(400);
-    expect(response.body.error).toContain('Invalid parameters');
+    expect(response.body.details).toEqual(['watermark: unknown asset "missing"']);
+  });
+
+  it('POST /v1/image/convert should reject more than one overlay source', async () => {
+    const logo = await sharp({ create: { width: 4, height: 4, channels: 4, background: '#fff' } }).png().toBuffer();
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ watermark: 'promo' })
+      .attach('image', photo, 'photo.jpg')
+      .attach('watermark', logo, 'logo.png');
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('Animated Images', () => {
+  it('POST /v1/image/convert should keep frames and delays with animated=true', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ animated: 'true', format: 'webp', width: '6', debug: 'info' })
+      .attach('image', ANIMATED_GIF, 'anim.gif')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+    const metadata = await sharp(response.body as Buffer, { animated: true }).metadata();
+    expect(metadata.pages).toBe(3);
+    expect(metadata.pageHeight).toBe(4);
+    expect(metadata.width).toBe(6);
+    expect(metadata.delay).toEqual([100, 200, 300]);
+
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.input).toMatchObject({ frames: 3, loop: metadata.loop });
+    expect(debug.output).toMatchObject({ frames: 3, loop: metadata.loop });
+  });
+
+  it('POST /v1/image/convert should negotiate gif for animated output without WebP support', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ animated: 'true', format: 'auto' })
+      .set('Accept', 'image/png')
+      .attach('image', ANIMATED_GIF, 'anim.gif');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/gif');
+    expect(response.headers['vary']).toMatch(/Accept/);
+  });
+
+  it('POST /v1/image/convert should convert only the first frame by default', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'webp' })
+      .attach('image', ANIMATED_GIF, 'anim.gif')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect((await sharp(response.body as Buffer).metadata()).pages).toBeUndefined();
+  });
+
+  it('POST /v1/image/convert should extract a poster frame', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ frame: '2', format: 'png' })
+      .attach('image', ANIMATED_GIF, 'anim.gif')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const { data } = await sharp(response.body as Buffer).raw().toBuffer({ resolveWithObject: true });
+    expect([...data.subarray(3 * 5, 3 * 5 + 3)]).toEqual([0, 0, 255]);
+  });
+
+  it('POST /v1/image/convert should reject frames beyond the animation', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ frame: '3' })
+      .attach('image', ANIMATED_GIF, 'anim.gif');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['frame: exceeds the frame count (3)']);
+  });
+
+  it('POST /v1/image/convert should build a frame strip', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ frameStrip: '3', format: 'png', debug: 'info' })
+      .attach('image', ANIMATED_GIF, 'anim.gif')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const { data, info } = await sharp(response.body as Buffer).raw().toBuffer({ resolveWithObject: true });
+    expect(info.width).toBe(36);
+    expect(info.height).toBe(8);
+    const pixelAt = (x: number) => [...data.subarray((info.width + x) * info.channels, (info.width + x) * info.channels + 3)];
+    expect(pixelAt(5)).toEqual([255, 0, 0]);
+    expect(pixelAt(17)).toEqual([0, 255, 0]);
+    expect(pixelAt(29)).toEqual([0, 0, 255]);
+
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.output.stripFrames).toEqual([0, 1, 2]);
+  });
+
+  it('POST /v1/image/convert should reject formats that cannot animate', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ animated: 'true', format: 'avif' })
+      .attach('image', ANIMATED_GIF, 'anim.gif');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details[0]).toMatch(/^format: animated output requires/);
+  });
+});
+
+describe('Image Adjustments', () => {
+  it('POST /v1/image/convert should trim, rotate and pad in order', async () => {
+    // 20x10 red/blue halves inside a 5px white border
+    const halves = await sharp({ create: { width: 20, height: 10, channels: 3, background: '#ff0000' } })
+      .composite([{ input: { create: { width: 10, height: 10, channels: 3, background: '#0000ff' } }, left: 10, top: 0 }])
+      .png()
+      .toBuffer();
+    const input = await sharp(halves)
+      .extend({ top: 5, bottom: 5, left: 5, right: 5, background: '#ffffff' })
+      .png()
+      .toBuffer();
+
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ trim: 'true', rotate: '90', pad: '2', padColor: '#00ff00', format: 'png', debug: 'debug' })
+      .attach('image', input, 'bordered.png')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const { data, info } = await sharp(response.body as Buffer).raw().toBuffer({ resolveWithObject: true });
+    expect(info.width).toBe(14);
+    expect(info.height).toBe(24);
+    const pixelAt = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return [...data.subarray(offset, offset + 3)];
+    };
+    expect(pixelAt(0, 0)).toEqual([0, 255, 0]);
+    expect(pixelAt(7, 4)).toEqual([255, 0, 0]);
+    expect(pixelAt(7, 19)).toEqual([0, 0, 255]);
+
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    const steps = debug.steps.map((step: { name: string }) => step.name);
+    expect(steps.indexOf('trim')).toBeLessThan(steps.indexOf('rotate'));
+    expect(steps.indexOf('rotate')).toBeLessThan(steps.indexOf('pad'));
+    expect(debug.output.trim).toEqual({ left: 5, top: 5, width: 20, height: 10 });
+  });
+
+  it('POST /v1/image/convert should apply tone adjustments', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ grayscale: 'true', format: 'png' })
+      .attach('image', ANIMATED_GIF, 'anim.gif')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const { data, info } = await sharp(response.body as Buffer).raw().toBuffer({ resolveWithObject: true });
+    expect(data[info.channels * 5]).toBe(data[info.channels * 5 + 1]);
+  });
+
+  it('POST /v1/image/convert should reject conflicting adjustments', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ grayscale: 'true', tint: '#ff0000' })
+      .attach('image', MINIMAL_PNG, 'test.png');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details[0]).toMatch(/^tint: /);
+  });
+});
+
+describe('Image Variants Endpoint', () => {
+  let source: Buffer;
+
+  beforeAll(async () => {
+    source = await sharp({
+      create: { width: 800, height: 600, channels: 3, background: { r: 20, g: 120, b: 200 } },
+    })
+      .jpeg()
+      .toBuffer();
+  });
+
+  it('POST /v1/image/variants should require widths', async () => {
+    const response = await request(server)
+      .post('/v1/image/variants')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', source, 'cover.jpg');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Invalid parameters');
+  });
+
+  it('POST /v1/image/variants should return a zip bundle with a manifest', async () => {
+    const response = await request(server)
+      .post('/v1/image/variants')
+      .set('X-Api-Key', API_KEY)
+      .query({ widths: '320,640,1280', formats: 'webp,jpg' })
+      .attach('image', source, 'cover.jpg')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/zip');
+    const body = response.body as Buffer;
+    expect(body.readUInt32LE(0)).toBe(0x04034b50);
+    expect(body.toString('latin1')).toContain('manifest.json');
+    expect(body.toString('latin1')).toContain('cover-640w.webp');
+    expect(body.toString('latin1')).not.toContain('cover-1280w');
+  });
+
+  it('POST /v1/image/variants should return multipart/mixed with srcset', async () => {
+    const response = await request(server)
+      .post('/v1/image/variants')
+      .set('X-Api-Key', API_KEY)
+      .query({ widths: '320,640', formats: 'webp', aspect: '1:1', output: 'multipart' })
+      .attach('image', source, 'cover.jpg')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^multipart\/mixed; boundary=/);
+    const text = (response.body as Buffer).toString('latin1');
+    const manifestStart = text.indexOf('{');
+    const manifest = JSON.parse(text.slice(manifestStart, text.indexOf('\r\n--', manifestStart)));
+    expect(manifest.variants).toHaveLength(2);
+    expect(manifest.variants[1]).toMatchObject({ width: 640, height: 640, format: 'webp' });
+    expect(manifest.srcset.webp).toBe('cover-320w.webp 320w, cover-640w.webp 640w');
+  });
+});
+
+describe('Image Sheet Endpoint', () => {
+  it('POST /v1/image/sheet should return the sheet and tile map as multipart/mixed', async () => {
+    const red = await sharp({ create: { width: 120, height: 80, channels: 3, background: '#ff0000' } }).png().toBuffer();
+    const blue = await sharp({ create: { width: 60, height: 60, channels: 3, background: '#0000ff' } }).jpeg().toBuffer();
+
+    const response = await request(server)
+      .post('/v1/image/sheet')
+      .set('X-Api-Key', API_KEY)
+      .query({ columns: '2', cellWidth: '60', gutter: '5', captions: 'true', output: 'multipart', format: 'webp' })
+      .attach('images', red, 'red.png')
+      .attach('images', blue, 'blue.jpg')
+      .attach('images', red, 'again.png')
+      .field('caption', 'Red')
+      .field('caption', 'Blue')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^multipart\/mixed; boundary=/);
+    const text = (response.body as Buffer).toString('latin1');
+    const mapStart = text.indexOf('{');
+    const map = JSON.parse(text.slice(mapStart, text.indexOf('\r\n--', mapStart)));
+    expect(map).toMatchObject({ fileName: 'sheet.webp', columns: 2, rows: 2, width: 125, height: 5 + 2 * (60 + 20) });
+    expect(map.tiles.map((tile: { caption: string }) => tile.caption)).toEqual(['Red', 'Blue', 'again']);
+    expect(map.tiles[0]).toMatchObject({ x: 0, y: 10, width: 60, height: 40 });
+    expect(map.tiles[2].cell).toEqual({ left: 0, top: 85, width: 60, height: 60 });
+    expect(text).toContain('Content-Type: image/webp');
+  });
+
+  it('POST /v1/image/sheet should require images', async () => {
+    const response = await request(server).post('/v1/image/sheet').set('X-Api-Key', API_KEY).field('caption', 'x');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No image files provided');
+  });
+
+  it('POST /v1/image/sheet should reject sheets over the pixel limit', async () => {
+    const pending = request(server)
+      .post('/v1/image/sheet')
+      .set('X-Api-Key', API_KEY)
+      .query({ columns: '1', cellWidth: '2000', cellHeight: '2000' });
+    for (let i = 0; i < 14; i++) {
+      pending.attach('images', MINIMAL_PNG, `tile-${i}.png`);
+    }
+    const response = await pending;
+
+    expect(response.status).toBe(400);
+    expect(response.body.details[0]).toMatch(/^sheet: 2000x28000 exceeds/);
+  });
+});
+
+describe('Image Batch Endpoint', () => {
+  it('POST /v1/image/batch should convert every file and report a corrupt one', async () => {
+    const photo = await sharp({ create: { width: 200, height: 100, channels: 3, background: '#336699' } })
+      .jpeg()
+      .toBuffer();
+
+    const response = await request(server)
+      .post('/v1/image/batch')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', width: '50', output: 'multipart', debug: 'info' })
+      .attach('images', photo, 'first.jpg')
+      .attach('images', Buffer.from('definitely not an image'), 'broken.jpg')
+      .attach('images', photo, 'third.jpg')
+      .field('options', '')
+      .field('options', '')
+      .field('options', 'format=webp&width=20')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^multipart\/mixed; boundary=/);
+    const text = (response.body as Buffer).toString('latin1');
+    const reportStart = text.indexOf('{');
+    const report = JSON.parse(text.slice(reportStart, text.indexOf('\r\n--', reportStart)));
+    expect(report).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+    expect(report.files.map((file: { status: string }) => file.status)).toEqual(['ok', 'error', 'ok']);
+    expect(report.files[0].output).toMatchObject({ fileName: 'first.png', width: 50, height: 25 });
+    expect(report.files[2].output).toMatchObject({ fileName: 'third.webp', format: 'webp', width: 20 });
+    expect(text).toContain('filename="first.png"');
+    expect(text).toContain('filename="third.webp"');
+    expect(text).not.toContain('filename="broken');
+
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.warnings[0]).toContain('1 of 3 files failed');
+  });
+
+  it('POST /v1/image/batch should return a zip by default', async () => {
+    const response = await request(server)
+      .post('/v1/image/batch')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'webp' })
+      .attach('images', MINIMAL_PNG, 'pixel.png')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/zip');
+    expect(response.headers['content-disposition']).toContain('batch.zip');
+    const body = (response.body as Buffer).toString('latin1');
+    expect(body).toContain('report.json');
+    expect(body).toContain('pixel.webp');
+  });
+
+  it('POST /v1/image/batch should reject invalid shared options', async () => {
+    const response = await request(server)
+      .post('/v1/image/batch')
+      .set('X-Api-Key', API_KEY)
+      .query({ width: '-5', output: 'tar' })
+      .attach('images', MINIMAL_PNG, 'pixel.png');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(
+      expect.arrayContaining([expect.stringMatching(/^output: /), expect.stringMatching(/^width: /)])
+    );
+  });
+});
+
+describe('Image Presets', () => {
+  let photo: Buffer;
+
+  beforeAll(async () => {
+    photo = await sharp({ create: { width: 400, height: 300, channels: 3, background: '#336699' } })
+      .jpeg()
+      .toBuffer();
+  });
+
+  it('GET /v1/image/presets should list the presets with their options', async () => {
+    const response = await request(server).get('/v1/image/presets').set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(200);
+    expect(response.body.presets.find((preset: { name: string }) => preset.name === 'avatar-128')).toMatchObject({
+      options: { format: 'webp', width: '128', height: '128', fit: 'cover' },
+      allowOverrides: ['format'],
+    });
+  });
+
+  it('POST /v1/image/convert should apply a preset and its allowed overrides', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ preset: 'avatar-128', format: 'png', debug: 'info' })
+      .attach('image', photo, 'photo.jpg')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata).toMatchObject({ width: 128, height: 128 });
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.input.preset).toBe('avatar-128');
+  });
+
+  it('POST /v1/image/convert should reject overrides the preset does not allow', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ preset: 'avatar-128', width: '512' })
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['width: cannot be overridden with preset "avatar-128" (allowed: format)']);
+  });
+
+  it('POST /v1/image/batch should apply the preset to every file', async () => {
+    const response = await request(server)
+      .post('/v1/image/batch')
+      .set('X-Api-Key', API_KEY)
+      .query({ preset: 'album-cover-800', output: 'multipart' })
+      .attach('images', photo, 'first.jpg')
+      .attach('images', photo, 'second.jpg')
+      .field('options', 'quality=60')
+      .field('options', 'width=100')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const text = (response.body as Buffer).toString('latin1');
+    const reportStart = text.indexOf('{');
+    const report = JSON.parse(text.slice(reportStart, text.indexOf('\r\n--', reportStart)));
+    expect(report.files[0].output).toMatchObject({ fileName: 'first.webp', width: 800, height: 800 });
+    expect(report.files[1]).toMatchObject({
+      status: 'error',
+      details: ['width: cannot be overridden with preset "album-cover-800" (allowed: format, quality)'],
+    });
+  });
+});
+
+describe('Share Card Endpoint', () => {
+  let cover: Buffer;
+
+  beforeAll(async () => {
+    cover = await sharp({ create: { width: 300, height: 300, channels: 3, background: '#e6501e' } })
+      .jpeg()
+      .toBuffer();
+  });
+
+  it('GET /v1/image/card/templates should list the templates and their fields', async () => {
+    const response = await request(server).get('/v1/image/card/templates').set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(200);
+    const release = response.body.templates.find((template: { name: string }) => template.name === 'release-v1');
+    expect(release).toMatchObject({ width: 1200, height: 630, cover: true });
+    expect(Object.keys(release.fields)).toEqual(['kicker', 'title', 'artist', 'footer']);
+  });
+
+  it('POST /v1/image/card should render the template with the cover accent', async () => {
+    const response = await request(server)
+      .post('/v1/image/card')
+      .set('X-Api-Key', API_KEY)
+      .query({ template: 'release-v1', debug: 'info' })
+      .attach('cover', cover, 'cover.jpg')
+      .field('title', 'A title long enough that it has to wrap onto more than one line of the card')
+      .field('artist', 'Example Artist')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+    expect(response.headers['x-card-accent']).toMatch(/^#e[0-9a-f]5[0-9a-f]1[0-9a-f]$/);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata).toMatchObject({ format: 'png', width: 1200, height: 630 });
+
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.output).toMatchObject({ template: 'release-v1', accentSource: 'cover' });
+    expect(debug.output.text[0].lines.length).toBeGreaterThan(1);
+  });
+
+  it('POST /v1/image/card should validate the template and its text', async () => {
+    const unknown = await request(server)
+      .post('/v1/image/card')
+      .set('X-Api-Key', API_KEY)
+      .query({ template: 'release-v0' })
+      .attach('cover', cover, 'cover.jpg');
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.details).toEqual(['template: unknown template "release-v0"']);
+
+    const missing = await request(server)
+      .post('/v1/image/card')
+      .set('X-Api-Key', API_KEY)
+      .query({ template: 'release-v1' })
+      .attach('cover', cover, 'cover.jpg')
+      .field('title', 'Only a title');
+    expect(missing.status).toBe(400);
+    expect(missing.body.details).toEqual(['artist: required']);
+
+    const noCover = await request(server)
+      .post('/v1/image/card')
+      .set('X-Api-Key', API_KEY)
+      .query({ template: 'release-v1' })
+      .field('title', 'Title')
+      .field('artist', 'Artist');
+    expect(noCover.status).toBe(400);
+    expect(noCover.body.error).toBe('No cover image provided');
+  });
+
+  it('POST /v1/image/card should only fetch covers from allowed origins', async () => {
+    const response = await request(server)
+      .post('/v1/image/card')
+      .set('X-Api-Key', API_KEY)
+      .query({ template: 'release-v1', coverUrl: 'http://example.com/cover.jpg' })
+      .field('title', 'Title')
+      .field('artist', 'Artist');
+
+    expect(response.status).toBe(403);
+    expect(response.body).toMatchObject({ error: 'Source origin not allowed', details: 'http://example.com' });
+  });
+
+  it('POST /v1/image/card should check fetched covers against the upload policy', async () => {
+    const cover = await sharp({ create: { width: 300, height: 300, channels: 3, background: '#336699' } })
+      .jpeg()
+      .toBuffer();
+    const origin = http.createServer((_req, res) => res.writeHead(200, { 'Content-Type': 'image/jpeg' }).end(cover));
+    await new Promise<void>((resolve) => origin.listen(0, '127.0.0.1', () => resolve()));
+    const coverUrl = `http://127.0.0.1:${(origin.address() as AddressInfo).port}/cover.jpg`;
+    const allowedOrigins = env.IMAGE_SOURCE_ALLOWED_ORIGINS;
+    env.IMAGE_SOURCE_ALLOWED_ORIGINS = new URL(coverUrl).origin;
+
+    try {
+      const send = (query: Record<string, string>) =>
+        request(server)
+          .post('/v1/image/card')
+          .set('X-Api-Key', API_KEY)
+          .query({ template: 'release-v1', coverUrl, ...query })
+          .field('title', 'Title')
+          .field('artist', 'Artist');
+
+      const rejected = await send({ policy: 'cover' });
+      expect(rejected.status).toBe(422);
+      expect(rejected.body).toMatchObject({ error: 'Image rejected by upload policy', policy: 'cover' });
+      expect(rejected.body.details).toContain('minWidth: width 300px is below 1400px');
+
+      const accepted = await send({});
+      expect(accepted.status).toBe(200);
+    } finally {
+      env.IMAGE_SOURCE_ALLOWED_ORIGINS = allowedOrigins;
+      await new Promise<void>((resolve) => origin.close(() => resolve()));
+    }
+  });
+});
+
+describe('Upload Policies', () => {
+  const square = (size: number) =>
+    sharp({ create: { width: size, height: size, channels: 3, background: '#808080' } })
+      .jpeg()
+      .toBuffer();
+
+  it('POST /v1/image/convert should pass an image that meets the policy', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ policy: 'avatar', format: 'png', width: '50' })
+      .attach('image', await square(400), 'avatar.jpg');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+  });
+
+  it('POST /v1/image/convert should reject an image that fails the policy', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ policy: 'cover', format: 'png' })
+      .attach('image', await square(400), 'cover.jpg');
+
+    expect(response.status).toBe(422);
+    expect(response.body).toMatchObject({ error: 'Image rejected by upload policy', policy: 'cover' });
+    expect(response.body.details).toEqual([
+      'minWidth: width 400px is below 1400px',
+      'minHeight: height 400px is below 1400px',
+    ]);
+  });
+
+  it('POST /v1/image/info should reject a file by its content, not its name', async () => {
+    const response = await request(server)
+      .post('/v1/image/info')
+      .set('X-Api-Key', API_KEY)
+      .query({ policy: 'avatar' })
+      .attach('image', Buffer.from('<?php echo 1; ?>'), { filename: 'avatar.jpg', contentType: 'image/jpeg' });
+
+    expect(response.status).toBe(422);
+    expect(response.body.details[0]).toMatch(/^formats: unrecognised type is not allowed/);
+  });
+
+  it('POST /v1/image/convert should reject an unknown policy', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ policy: 'billboard' })
+      .attach('image', MINIMAL_PNG, 'pixel.png');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['policy: unknown policy "billboard"']);
+  });
+
+  it('POST /v1/image/sheet should name the file that failed', async () => {
+    const response = await request(server)
+      .post('/v1/image/sheet')
+      .set('X-Api-Key', API_KEY)
+      .query({ policy: 'avatar' })
+      .attach('images', await square(400), 'first.jpg')
+      .attach('images', MINIMAL_PNG, 'second.png');
+
+    expect(response.status).toBe(422);
+    expect(response.body.details).toEqual([
+      'images[1].minWidth: width 1px is below 200px',
+      'images[1].minHeight: height 1px is below 200px',
+    ]);
+  });
+
+  it('POST /v1/image/batch should report files that fail the policy', async () => {
+    const response = await request(server)
+      .post('/v1/image/batch')
+      .set('X-Api-Key', API_KEY)
+      .query({ policy: 'avatar', format: 'webp', output: 'multipart' })
+      .attach('images', await square(400), 'first.jpg')
+      .attach('images', MINIMAL_PNG, 'second.png')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const text = (response.body as Buffer).toString('latin1');
+    const reportStart = text.indexOf('{');
+    const report = JSON.parse(text.slice(reportStart, text.indexOf('\r\n--', reportStart)));
+    expect(report).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    expect(report.files[1]).toMatchObject({ status: 'error', error: 'Image rejected by upload policy' });
+  });
+});
+
+describe('Image Placeholder Endpoint', () => {
+  let source: Buffer;
+
+  beforeAll(async () => {
+    source = await sharp({
+      create: { width: 300, height: 200, channels: 3, background: { r: 20, g: 120, b: 200 } },
+    })
+      .jpeg()
+      .toBuffer();
+  });
+
+  it('POST /v1/image/placeholder should return BlurHash, ThumbHash and LQIP', async () => {
+    const response = await request(server)
+      .post('/v1/image/placeholder')
+      .set('X-Api-Key', API_KEY)
+      .query({ componentsX: '5', componentsY: '4', lqipWidth: '20' })
+      .attach('image', source, 'hero.jpg');
+
+    expect(response.status).toBe(200);
+    expect(response.body.width).toBe(300);
+    expect(response.body.height).toBe(200);
+    expect(response.body.blurhash).toHaveLength(4 + 2 * 5 * 4);
+    expect(Buffer.from(response.body.thumbhash, 'base64').length).toBeGreaterThan(5);
+    expect(response.body.lqip.width).toBe(20);
+    const preview = Buffer.from(response.body.lqip.dataUri.split(',')[1], 'base64');
+    expect((await sharp(preview).metadata()).format).toBe('webp');
+  });
+
+  it('POST /v1/image/placeholder should reject invalid components', async () => {
+    const response = await request(server)
+      .post('/v1/image/placeholder')
+      .set('X-Api-Key', API_KEY)
+      .query({ componentsX: '10' })
+      .attach('image', source, 'hero.jpg');
+    expect(response.status).toBe(400);
+  });
+
+  it('POST /v1/image/variants should add a placeholder to the manifest', async () => {
+    const response = await request(server)
+      .post('/v1/image/variants')
+      .set('X-Api-Key', API_KEY)
+      .query({ widths: '100', formats: 'webp', output: 'multipart', placeholders: 'true' })
+      .attach('image', source, 'hero.jpg')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    const text = (response.body as Buffer).toString('latin1');
+    const manifestStart = text.indexOf('{');
+    const manifest = JSON.parse(text.slice(manifestStart, text.indexOf('\r\n--', manifestStart)));
+    expect(manifest.placeholder.blurhash).toHaveLength(28);
+    expect(manifest.placeholder.lqip.dataUri).toMatch(/^data:image\/webp;base64,/);
+  });
+
+  it('POST /v1/image/convert should report placeholders of the output in debug info', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ width: '60', height: '60', placeholders: 'true', debug: 'info' })
+      .attach('image', source, 'hero.jpg');
+
+    expect(response.status).toBe(200);
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.output.placeholder).toMatchObject({ width: 60, height: 60 });
+    expect(debug.output.placeholder.blurhash).toHaveLength(28);
+  });
+});
+
+describe('Image Info Endpoint', () => {
+  it('POST /v1/image/info should describe the image', async () => {
+    const photo = await sharp({
+      create: { width: 40, height: 20, channels: 3, background: { r: 200, g: 100, b: 50 } },
+    })
+      .withMetadata({ orientation: 6, density: 300 })
+      .withExifMerge({ IFD0: { Copyright: '(c) Label' } })
+      .jpeg()
+      .toBuffer();
+
+    const response = await request(server)
+      .post('/v1/image/info')
+      .set('X-Api-Key', API_KEY)
+      .query({ bins: '4' })
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-request-id']).toBeDefined();
+    expect(response.body).toMatchObject({
+      format: 'jpeg',
+      width: 40,
+      height: 20,
+      orientation: 6,
+      displayWidth: 20,
+      displayHeight: 40,
+      hasAlpha: false,
+      space: 'srgb',
+      density: 300,
+      pages: 1,
+      iptc: null,
+    });
+    expect(response.body.exif.image.Copyright).toBe('(c) Label');
+    expect(response.body.dominant.hex).toMatch(/^#[0-9a-f]{6}$/);
+    expect(response.body.histogram).toHaveLength(3);
+    expect(response.body.histogram[0].bins).toHaveLength(4);
+    expect(response.body.histogram[0].mean).toBeGreaterThan(190);
+  });
+
+  it('POST /v1/image/info should report alpha and frame count', async () => {
+    const response = await request(server)
+      .post('/v1/image/info')
+      .set('X-Api-Key', API_KEY)
+      .query({ debug: 'info' })
+      .attach('image', MINIMAL_PNG, 'pixel.png');
+
+    expect(response.status).toBe(200);
+    expect(response.body.format).toBe('png');
+    expect(response.body.hasAlpha).toBe(true);
+    expect(response.body.histogram.map((h: { channel: string }) => h.channel)).toEqual([
+      'red',
+      'green',
+      'blue',
+      'alpha',
+    ]);
+    expect(response.body.debug.steps.map((s: { name: string }) => s.name)).toContain('histogram');
+  });
+
+  it('POST /v1/image/info should require an image', async () => {
+    const response = await request(server).post('/v1/image/info').set('X-Api-Key', API_KEY);
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No image file provided');
+  });
+
+  it('POST /v1/image/info should reject invalid bins', async () => {
+    const response = await request(server)
+      .post('/v1/image/info')
+      .set('X-Api-Key', API_KEY)
+      .query({ bins: '1' })
+      .attach('image', MINIMAL_PNG, 'pixel.png');
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('Image Palette Endpoint', () => {
+  it('POST /v1/image/palette should return colours, roles and contrast pairs', async () => {
+    const cover = await sharp({ create: { width: 40, height: 40, channels: 3, background: '#262a33' } })
+      .composite([{ input: { create: { width: 40, height: 16, channels: 3, background: '#e6501e' } }, left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+
+    const response = await request(server)
+      .post('/v1/image/palette')
+      .set('X-Api-Key', API_KEY)
+      .query({ colors: '4', debug: 'info' })
+      .attach('image', cover, 'cover.png');
+
+    expect(response.status).toBe(200);
+    expect(response.body.colors.map((colour: { hex: string; share: number }) => [colour.hex, colour.share])).toEqual([
+      ['#262a33', 0.6],
+      ['#e6501e', 0.4],
+    ]);
+    expect(response.body.roles.vibrant.hex).toBe('#e6501e');
+    expect(response.body.roles.darkMuted.hex).toBe('#262a33');
+    expect(response.body.pairs.find((pair: { role: string }) => pair.role === 'vibrant')).toMatchObject({
+      background: '#e6501e',
+      // The dark band reaches only ~3.8:1 against the orange
+      foreground: '#000000',
+      aa: true,
+    });
+    expect(response.body.debug.output.sample).toEqual({ width: 40, height: 40 });
+  });
+
+  it('POST /v1/image/palette should reject invalid colours', async () => {
+    const response = await request(server)
+      .post('/v1/image/palette')
+      .set('X-Api-Key', API_KEY)
+      .query({ colors: '50' })
+      .attach('image', MINIMAL_PNG, 'test.png');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid parameters');
+  });
+});
+
+describe('Image Hash and Compare Endpoints', () => {
+  let photo: Buffer;
+  let copy: Buffer;
+
+  beforeAll(async () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">
+      <defs>
+        <linearGradient id="sky" x1="0" y1="0" x2="1" y2="1">
+          <stop offset="0" stop-color="#123"/>
+          <stop offset="1" stop-color="#fc8"/>
+        </linearGradient>
+      </defs>
+      <rect width="400" height="300" fill="url(#sky)"/>
+      <circle cx="120" cy="130" r="70" fill="#e33"/>
+    </svg>`;
+    photo = await sharp(Buffer.from(svg)).jpeg({ quality: 90 }).toBuffer();
+    copy = await sharp(photo).resize(200).webp({ quality: 50 }).toBuffer();
+  });
+
+  it('POST /v1/image/hash should return 64-bit hex hashes', async () => {
+    const response = await request(server)
+      .post('/v1/image/hash')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(200);
+    expect(response.body.bits).toBe(64);
+    for (const algorithm of ['ahash', 'dhash', 'phash']) {
+      expect(response.body[algorithm]).toMatch(/^[0-9a-f]{16}$/);
+    }
+  });
+
+  it('POST /v1/image/compare should find a resized, re-encoded copy', async () => {
+    const response = await request(server)
+      .post('/v1/image/compare')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', photo, 'photo.jpg')
+      .attach('other', copy, 'copy.webp');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ algorithm: 'phash', bits: 64, verdict: 'same' });
+    expect(response.body.distance).toBeLessThanOrEqual(4);
+  });
+
+  it('POST /v1/image/compare should compare against a known hash', async () => {
+    const hashed = await request(server)
+      .post('/v1/image/hash')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', photo, 'photo.jpg');
+    const inverted = hashed.body.dhash.replace(/[0-9a-f]/g, (digit: string) => (15 - parseInt(digit, 16)).toString(16));
+
+    const response = await request(server)
+      .post('/v1/image/compare')
+      .set('X-Api-Key', API_KEY)
+      .query({ algorithm: 'dhash', hash: inverted })
+      .attach('image', photo, 'photo.jpg');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ algorithm: 'dhash', distance: 64, similarity: 0, verdict: 'different' });
+    expect(response.body.hashes).toEqual([hashed.body.dhash, inverted]);
+  });
+
+  it('POST /v1/image/compare should require exactly one of other and hash', async () => {
+    const neither = await request(server)
+      .post('/v1/image/compare')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', photo, 'photo.jpg');
+    expect(neither.status).toBe(400);
+
+    const both = await request(server)
+      .post('/v1/image/compare')
+      .set('X-Api-Key', API_KEY)
+      .query({ hash: '0000000000000000' })
+      .attach('image', photo, 'photo.jpg')
+      .attach('other', copy, 'copy.webp');
+    expect(both.status).toBe(400);
+    expect(both.body.details[0]).toMatch(/^other: /);
+  });
+});
+
+describe('Signed Image Transformation Endpoint', () => {
+  // Must match IMAGE_URL_SIGNING_KEY in tests/setup.ts
+  const SIGNING_KEY = 'test-url-signing-key';
+  const allowedOrigins = env.IMAGE_SOURCE_ALLOWED_ORIGINS;
+  let origin: http.Server;
+  let port: number;
+  let sourceOrigin: string;
+  let photo: Buffer;
+
+  beforeAll(async () => {
+    photo = await sharp({ create: { width: 64, height: 48, channels: 3, background: { r: 20, g: 120, b: 220 } } })
+      .jpeg()
+      .toBuffer();
+    origin = http.createServer((req, res) => {
+      if (req.url === '/photo.jpg') {
+        res.writeHead(200, { 'Content-Type': 'image/jpeg' }).end(photo);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => {
+      origin.listen(0, '127.0.0.1', () => resolve());
+    });
+    // The route reads the allow-list on every request, so the stand-in's
+    // port can be allowed once it is known
+    port = (origin.address() as AddressInfo).port;
+    sourceOrigin = `http://127.0.0.1:${port}`;
+    env.IMAGE_SOURCE_ALLOWED_ORIGINS = sourceOrigin;
+  });
+
+  afterAll(() => {
+    env.IMAGE_SOURCE_ALLOWED_ORIGINS = allowedOrigins;
+    return new Promise<void>((resolve) => origin.close(() => resolve()));
+  });
+
+  const transformUrl = (options: Record<string, string | number>, source = `${sourceOrigin}/photo.jpg`) =>
+    `/v1/image/t/${createSignedTransformPath(options, source, SIGNING_KEY)}`;
+
+  it('GET /v1/image/t should transform the signed source without an API key', async () => {
+    const response = await request(server)
+      .get(transformUrl({ width: 32, format: 'webp' }))
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+    expect(response.headers['cache-control']).toBe('public, max-age=31536000, immutable');
+    expect(response.headers['etag']).toMatch(/^"[A-Za-z0-9_-]{43}"$/);
+    const metadata = await sharp(response.body as Buffer).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.width).toBe(32);
+  });
+
+  it('GET /v1/image/t should return 304 for a matching If-None-Match', async () => {
+    const url = transformUrl({ width: 16, format: 'png' });
+    const first = await request(server).get(url);
+    expect(first.status).toBe(200);
+
+    const second = await request(server).get(url).set('If-None-Match', first.headers['etag']);
+    expect(second.status).toBe(304);
+    expect(second.headers['etag']).toBe(first.headers['etag']);
+  });
+
+  it('GET /v1/image/t should vary on Accept for format=auto', async () => {
+    const response = await request(server).get(transformUrl({ format: 'auto' })).set('Accept', 'image/avif,*/*');
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/avif');
+    expect(response.headers['vary']).toMatch(/Accept/);
+  });
+
+  it('GET /v1/image/t should reject a tampered signature', async () => {
+    const [signature, , encodedSourceUrl] = createSignedTransformPath(
+      { width: 32 },
+      `${sourceOrigin}/photo.jpg`,
+      SIGNING_KEY
+    ).split('/');
+    const response = await request(server).get(`/v1/image/t/${signature}/width=3200/${encodedSourceUrl}`);
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('Invalid signature');
+  });
+
+  it('GET /v1/image/t should accept presets in the signed options', async () => {
+    const response = await request(server)
+      .get(transformUrl({ preset: 'avatar-128' }))
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+    expect(await sharp(response.body as Buffer).metadata()).toMatchObject({ width: 128, height: 128 });
+  });
+
+  it('GET /v1/image/t should refuse origins outside the allow-list', async () => {
+    const response = await request(server).get(transformUrl({ width: 32 }, `http://localhost:${port}/photo.jpg`));
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe('Source origin not allowed');
+  });
+
+  it('GET /v1/image/t should validate options like /image/convert', async () => {
+    const invalid = await request(server).get(transformUrl({ width: -1 }));
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toBe('Invalid parameters');
+
+    const debug = await request(server).get(transformUrl({ debug: 'info' }));
+    expect(debug.status).toBe(400);
+    expect(debug.body.details).toEqual(['debug: not supported on signed URLs']);
+  });
+
+  it('GET /v1/image/t should report missing sources', async () => {
+    const response = await request(server).get(transformUrl({ width: 32 }, `${sourceOrigin}/missing.jpg`));
+    expect(response.status).toBe(404);
+    expect(response.body.error).toBe('Failed to fetch source image');
+  });
+});
+
+describe('Audio Peaks Endpoint', () => {
+  it('POST /v1/audio/peaks should require audio file', async () => {
+    const response = await request(server)
+      .post('/v1/audio/peaks')
+      .set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('No audio file provided');
+  });
+
+  it('POST /v1/audio/peaks should reject invalid samples parameter', async () => {
+    const wavBuffer = Buffer.from([
+      0x52, 0x49, 0x46, 0x46, // RIFF
+      0x24, 0x00, 0x00, 0x00, // file size
+      0x57, 0x41, 0x56, 0x45, // WAVE
+      0x66, 0x6d, 0x74, 0x20, // fmt
+      0x10, 0x00, 0x00, 0x00, // chunk size
+      0x01, 0x00,             // audio format
+      0x01, 0x00,             // channels
+      0x44, 0xac, 0x00, 0x00, // sample rate
+      0x88, 0x58, 0x01, 0x00, // byte rate
+      0x02, 0x00,             // block align
+      0x10, 0x00,             // bits per sample
+      0x64, 0x61, 0x74, 0x61, // data
+      0x00, 0x00, 0x00, 0x00, // data size
+    ]);
+
+    const response = await request(server)
+      .post('/v1/audio/peaks')
+      .set('X-Api-Key', API_KEY)
+      .query({ samples: '99999' })
+      .attach('audio', wavBuffer, 'test.wav');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Invalid parameters');
+  });
+
+  it('POST /v1/audio/peaks should only split channels for waveform output', async () => {
+    const response = await request(server)
+      .post('/v1/audio/peaks')
+      .set('X-Api-Key', API_KEY)
+      .query({ splitChannels: 'true' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['splitChannels: splitChannels requires output=waveform or format=dat']);
+  });
+
+  it('POST /v1/audio/peaks should let format=json win over an octet-stream Accept header', async () => {
+    const response = await request(server)
+      .post('/v1/audio/peaks')
+      .set('X-Api-Key', API_KEY)
+      .set('Accept', 'application/octet-stream')
+      .query({ format: 'json', splitChannels: 'true' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.headers['content-type']).toContain('application/json');
+  });
+});
+
+describe('Audio Waveform Image Endpoint', () => {
+  it('POST /v1/audio/waveform should require audio file', async () => {
+    const response = await request(server).post('/v1/audio/waveform').set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No audio file provided');
+  });
+
+  it('POST /v1/audio/waveform should validate rendering options', async () => {
+    const response = await request(server)
+      .post('/v1/audio/waveform')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'gif', progress: '2' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid parameters');
+    expect(response.body.details).toHaveLength(2);
+  });
+
+  it('POST /v1/audio/waveform should reject unsupported audio extensions', async () => {
+    const response = await request(server)
+      .post('/v1/audio/waveform')
+      .set('X-Api-Key', API_KEY)
+      .attach('audio', Buffer.from('not audio'), 'notes.txt');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Unsupported audio format: txt');
+  });
+});
+
+describe('Audio Info Endpoint', () => {
+  it('POST /v1/audio/info should require audio file', async () => {
+    const response = await request(server).post('/v1/audio/info').set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No audio file provided');
+  });
+
+  it('POST /v1/audio/info should validate cover conversion options before probing', async () => {
+    const response = await request(server)
+      .post('/v1/audio/info')
+      .set('X-Api-Key', API_KEY)
+      .query({ output: 'cover', width: '0', preset: 'missing' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['preset: unknown preset "missing"']);
+  });
+
+  it('POST /v1/audio/info should reject an unknown output', async () => {
+    const response = await request(server)
+      .post('/v1/audio/info')
+      .set('X-Api-Key', API_KEY)
+      .query({ output: 'waveform' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid parameters');
+  });
+});
+
+describe('Audio Convert Endpoint', () => {
+  it('POST /v1/audio/convert should require audio file', async () => {
+    const response = await request(server).post('/v1/audio/convert').set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No audio file provided');
+  });
+
+  it('POST /v1/audio/convert should reject a codec the format cannot hold', async () => {
+    const response = await request(server)
+      .post('/v1/audio/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'webm', codec: 'aac' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['codec: webm can hold opus, vorbis, not aac']);
+  });
+
+  it('POST /v1/audio/convert should reject unsupported uploads', async () => {
+    const response = await request(server)
+      .post('/v1/audio/convert')
+      .set('X-Api-Key', API_KEY)
+      .attach('audio', Buffer.from('plain text'), 'notes.txt');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Unsupported audio format: txt');
+  });
+});
+
+describe('Audio Preview Endpoint', () => {
+  it('POST /v1/audio/preview should require audio file', async () => {
+    const response = await request(server).post('/v1/audio/preview').set('X-Api-Key', API_KEY);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No audio file provided');
+  });
+
+  it('POST /v1/audio/preview should reject fades longer than the clip', async () => {
+    const response = await request(server)
+      .post('/v1/audio/preview')
+      .set('X-Api-Key', API_KEY)
+      .query({ start: '10', duration: '4', fadeIn: '2', fadeOut: '3' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['fadeOut: fadeIn and fadeOut together cannot exceed the 4s duration']);
+  });
+
+  it('POST /v1/audio/preview should reject an invalid start', async () => {
+    const response = await request(server)
+      .post('/v1/audio/preview')
+      .set('X-Api-Key', API_KEY)
+      .query({ start: 'chorus' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual(['start: Expected seconds (e.g. 42.5) or auto']);
+  });
+});
+
+describe('Disk-backed Uploads', () => {
+  const tempUploads = async (prefix: string) =>
+    (await fs.readdir(os.tmpdir())).filter((name) => name.startsWith(`${prefix}_`));
+
+  it('POST /v1/image/convert should stream the output without debug', async () => {
+    const before = await tempUploads('image');
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', width: '4' })
+      .attach('image', ANIMATED_GIF, 'anim.gif')
+      .buffer(true)
+      .parse(binaryParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+    expect(response.headers['content-length']).toBeUndefined();
+    expect(response.headers['transfer-encoding']).toBe('chunked');
+    expect((await sharp(response.body as Buffer).metadata()).width).toBe(4);
+    await expect.poll(async () => (await tempUploads('image')).filter((name) => !before.includes(name))).toEqual([]);
+  });
+
+  it('POST /v1/image/convert should buffer the output and report memory with debug', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .query({ format: 'png', debug: 'info' })
+      .attach('image', MINIMAL_PNG, 'test.png');
+
+    expect(response.status).toBe(200);
+    expect(Number(response.headers['content-length'])).toBeGreaterThan(0);
+    const debug = JSON.parse(Buffer.from(response.headers['x-debug-info'], 'base64').toString('utf8'));
+    expect(debug.memory.rssPeakBytes).toBeGreaterThanOrEqual(debug.memory.rssStartBytes);
+  });
+
+  it('POST /v1/image/convert should still return JSON errors for unreadable uploads', async () => {
+    const response = await request(server)
+      .post('/v1/image/convert')
+      .set('X-Api-Key', API_KEY)
+      .attach('image', Buffer.from('not an image'), 'broken.png');
+
+    expect(response.status).toBe(500);
+    expect(response.body.error).toBe('Failed to process image');
+  });
+
+  it('POST /v1/audio/peaks should remove the upload after rejecting it', async () => {
+    const before = await tempUploads('audio');
+    const response = await request(server)
+      .post('/v1/audio/peaks')
+      .set('X-Api-Key', API_KEY)
+      .query({ samples: '0' })
+      .attach('audio', Buffer.from('ID3 not really audio'), 'track.mp3');
+
+    expect(response.status).toBe(400);
+    await expect.poll(async () => (await tempUploads('audio')).filter((name) => !before.includes(name))).toEqual([]);
   });
 });
 
@@ -3,3 +3,9 @@ process.env.NODE_ENV = 'test';
 process.env.SERVICE_API_KEY = 'test-api-key';
 process.env.CORS_ALLOWED_ORIGINS = 'http://localhost:3000,http://localhost:5173';
 process.env.LOG_LEVEL = 'silent';
+// The integration suite shares one global and one media rate-limit window across every endpoint
+process.env.RATE_LIMIT_MAX_REQUESTS = '1000';
+process.env.MEDIA_RATE_LIMIT_MAX_REQUESTS = '1000';
+// Signed GET transformations fetch from a local stand-in origin, which the
+// integration suite adds to IMAGE_SOURCE_ALLOWED_ORIGINS once it is listening
+process.env.IMAGE_URL_SIGNING_KEY = 'test-url-signing-key';
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { hasSourceAdjustments, applySourceAdjustments, applyOutputAdjustments } from '../../src/utils/adjust';
+import { createDebugInfo } from '../../src/utils/debug';
+import { DecodedImage } from '../../src/utils/image';
+import { pixel } from '../helpers/image';
+
+const NO_SOURCE_ADJUSTMENTS = {
+  trim: false,
+  trimThreshold: 10,
+  rotate: undefined,
+  rotateBackground: '#000000',
+  flip: false,
+  flop: false,
+};
+
+const NO_OUTPUT_ADJUSTMENTS = {
+  grayscale: false,
+  pad: undefined,
+  padColor: '#000000',
+  blur: undefined,
+  brightness: undefined,
+  saturation: undefined,
+  sharpen: undefined,
+  gamma: undefined,
+  tint: undefined,
+};
+
+// 20x10: red left half, blue right half, inside a 5px white border (30x20 overall)
+async function bordered(): Promise<DecodedImage> {
+  const halves = await sharp({ create: { width: 20, height: 10, channels: 3, background: '#ff0000' } })
+    .composite([{ input: { create: { width: 10, height: 10, channels: 3, background: '#0000ff' } }, left: 10, top: 0 }])
+    .png()
+    .toBuffer();
+  // Separate pass: sharp composites after extending
+  const { data, info } = await sharp(halves)
+    .extend({ top: 5, bottom: 5, left: 5, right: 5, background: '#ffffff' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+async function solidPipeline(colour: sharp.Color): Promise<sharp.Sharp> {
+  const { data, info } = await sharp({ create: { width: 4, height: 4, channels: 3, background: colour } })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+}
+
+describe('hasSourceAdjustments', () => {
+  it('should detect geometry edits', () => {
+    expect(hasSourceAdjustments(NO_SOURCE_ADJUSTMENTS)).toBe(false);
+    expect(hasSourceAdjustments({ ...NO_SOURCE_ADJUSTMENTS, rotate: 0 })).toBe(true);
+    expect(hasSourceAdjustments({ ...NO_SOURCE_ADJUSTMENTS, flop: true })).toBe(true);
+  });
+});
+
+describe('applySourceAdjustments', () => {
+  it('should trim uniform borders and report the kept region', async () => {
+    const { image, trimRegion } = await applySourceAdjustments(await bordered(), {
+      ...NO_SOURCE_ADJUSTMENTS,
+      trim: true,
+    });
+    expect(image.info.width).toBe(20);
+    expect(image.info.height).toBe(10);
+    expect(trimRegion).toEqual({ left: 5, top: 5, width: 20, height: 10 });
+  });
+
+  it('should rotate before flopping and record each step', async () => {
+    const debugInfo = createDebugInfo('debug', 'test');
+    const { image } = await applySourceAdjustments(
+      await bordered(),
+      { ...NO_SOURCE_ADJUSTMENTS, trim: true, rotate: 90, flop: true },
+      debugInfo
+    );
+    // Rotating 90° clockwise puts red on top; flopping afterwards keeps it there
+    expect(image.info.width).toBe(10);
+    expect(image.info.height).toBe(20);
+    expect(pixel(image, 5, 2).slice(0, 3)).toEqual([255, 0, 0]);
+    expect(pixel(image, 5, 17).slice(0, 3)).toEqual([0, 0, 255]);
+    expect(debugInfo.steps?.map((step) => step.name)).toEqual(['trim', 'rotate', 'flop']);
+  });
+
+  it('should fill rotated corners with the background colour', async () => {
+    const { image } = await applySourceAdjustments(await bordered(), {
+      ...NO_SOURCE_ADJUSTMENTS,
+      rotate: 45,
+      rotateBackground: '#00ff00',
+    });
+    expect(image.info.width).toBeGreaterThan(30);
+    expect(pixel(image, 0, 0).slice(0, 3)).toEqual([0, 255, 0]);
+  });
+
+  it('should flip vertically', async () => {
+    const source = await bordered();
+    const { image } = await applySourceAdjustments(
+      { data: Buffer.concat([source.data.subarray(0, 90), Buffer.alloc(source.data.length - 90)]), info: source.info },
+      { ...NO_SOURCE_ADJUSTMENTS, flip: true }
+    );
+    expect(pixel(image, 0, 19).slice(0, 3)).toEqual([255, 255, 255]);
+    expect(pixel(image, 0, 0).slice(0, 3)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('applyOutputAdjustments', () => {
+  it('should leave the pipeline untouched without adjustments', async () => {
+    const debugInfo = createDebugInfo('debug', 'test');
+    const pipeline = applyOutputAdjustments(await solidPipeline('#406080'), NO_OUTPUT_ADJUSTMENTS, debugInfo);
+    const { data } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    expect([...data.subarray(0, 3)]).toEqual([64, 96, 128]);
+    expect(debugInfo.steps).toEqual([]);
+  });
+
+  it('should pad with the given colour', async () => {
+    const pipeline = applyOutputAdjustments(await solidPipeline('#406080'), {
+      ...NO_OUTPUT_ADJUSTMENTS,
+      pad: { top: 1, right: 2, bottom: 3, left: 4 },
+      padColor: '#ffffff00',
+    });
+    const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    expect(info.width).toBe(10);
+    expect(info.height).toBe(8);
+    expect(info.channels).toBe(4);
+    expect(data[3]).toBe(0);
+  });
+
+  it('should brighten with gamma above 1 and darken below 1', async () => {
+    const brighter = await applyOutputAdjustments(await solidPipeline('#808080'), {
+      ...NO_OUTPUT_ADJUSTMENTS,
+      gamma: 2,
+    })
+      .raw()
+      .toBuffer();
+    const darker = await applyOutputAdjustments(await solidPipeline('#808080'), {
+      ...NO_OUTPUT_ADJUSTMENTS,
+      gamma: 0.5,
+    })
+      .raw()
+      .toBuffer();
+    expect(brighter[0]).toBeGreaterThan(170);
+    expect(darker[0]).toBeLessThan(80);
+  });
+
+  it('should desaturate and record one step per operation', async () => {
+    const debugInfo = createDebugInfo('debug', 'test');
+    const pipeline = applyOutputAdjustments(
+      await solidPipeline('#ff0000'),
+      { ...NO_OUTPUT_ADJUSTMENTS, pad: { top: 1, right: 1, bottom: 1, left: 1 }, blur: 1, saturation: 0, sharpen: 1 },
+      debugInfo
+    );
+    const { data } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+    expect(data[9 * 3]).toBe(data[9 * 3 + 1]);
+    expect(debugInfo.steps?.map((step) => step.name)).toEqual(['pad', 'blur', 'modulate', 'sharpen']);
+  });
+
+  it('should convert to grayscale and tint', async () => {
+    const gray = await applyOutputAdjustments(await solidPipeline('#ff0000'), {
+      ...NO_OUTPUT_ADJUSTMENTS,
+      grayscale: true,
+    })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect(gray.info.channels).toBe(1);
+
+    const tinted = await applyOutputAdjustments(await solidPipeline('#808080'), {
+      ...NO_OUTPUT_ADJUSTMENTS,
+      tint: '#0000ff',
+    })
+      .raw()
+      .toBuffer();
+    expect(tinted[2]).toBeGreaterThan(tinted[0]);
+  });
+});
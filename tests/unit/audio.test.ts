@@ -1,5 +1,25 @@
 import { describe, it, expect } from 'vitest';
-import { detectAudioFormat, resamplePeaks, validateAudioExtension } from '../../src/utils/audio';
+import { promises as fs } from 'fs';
+import os from 'os';
+import * as path from 'path';
+import {
+  buildAudioConvertArgs,
+  buildAudioPreviewArgs,
+  detectAudioFormat,
+  detectAudioFileFormat,
+  encodeWaveformDat,
+  findLoudestSection,
+  negotiateWaveformFormat,
+  parseAudioProbe,
+  parseAudiowaveformJson,
+  pcmPeaks,
+  previewWindow,
+  resamplePeaks,
+  resampleWaveform,
+  validateAudioExtension,
+  waveformToPeaks,
+} from '../../src/utils/audio';
+import { AudioWaveformData, audioConvertQuerySchema, audioPreviewQuerySchema } from '../../src/types';
 
 describe('detectAudioFormat', () => {
   it('should detect WAV format', () => {
@@ -66,6 +86,20 @@ describe('detectAudioFormat', () => {
   });
 });
 
+describe('detectAudioFileFormat', () => {
+  it('should detect the format from the start of a file', async () => {
+    const filePath = path.join(os.tmpdir(), `detect_${process.pid}_${Date.now()}`);
+    await fs.writeFile(filePath, Buffer.concat([Buffer.from('RIFF\0\0\0\0WAVEfmt '), Buffer.alloc(1024)]));
+    try {
+      expect(await detectAudioFileFormat(filePath)).toBe('wav');
+      await fs.writeFile(filePath, Buffer.from('ID'));
+      expect(await detectAudioFileFormat(filePath)).toBeNull();
+    } finally {
+      await fs.unlink(filePath);
+    }
+  });
+});
+
 describe('resamplePeaks', () => {
   it('should return empty array for empty input', () => {
     expect(resamplePeaks([], 10)).toEqual([]);
@@ -102,6 +136,389 @@ describe('resamplePeaks', () => {
   });
 });
 
+describe('resampleWaveform', () => {
+  // Two channels, four pixels: [c0min, c0max, c1min, c1max] per pixel
+  const stereo: AudioWaveformData = {
+    version: 2,
+    channels: 2,
+    sample_rate: 44100,
+    samples_per_pixel: 441,
+    bits: 8,
+    length: 4,
+    data: [-10, 20, -1, 1, -90, 5, -2, 2, -3, 3, -40, 80, 0, 0, -5, 6],
+  };
+
+  it('should keep the lowest min and highest max per channel', () => {
+    const result = resampleWaveform(stereo, 2);
+    expect(result.data).toEqual([-90, 20, -2, 2, -3, 3, -40, 80]);
+    expect(result).toMatchObject({ length: 2, channels: 2, samples_per_pixel: 882, sample_rate: 44100 });
+  });
+
+  it('should repeat pixels when upsampling', () => {
+    const mono: AudioWaveformData = { ...stereo, channels: 1, length: 2, data: [-4, 8, -6, 2] };
+    expect(resampleWaveform(mono, 4)).toMatchObject({
+      length: 4,
+      samples_per_pixel: 221,
+      data: [-4, 8, -4, 8, -6, 2, -6, 2],
+    });
+  });
+
+  it('should return the waveform unchanged at its own length', () => {
+    expect(resampleWaveform(stereo, 4)).toBe(stereo);
+  });
+});
+
+describe('waveformToPeaks', () => {
+  it('should fold channels and sign into 0-1 amplitudes', () => {
+    const waveform: AudioWaveformData = {
+      version: 2,
+      channels: 2,
+      sample_rate: 8000,
+      samples_per_pixel: 80,
+      bits: 16,
+      length: 2,
+      data: [-16384, 100, 0, 200, -50, 50, -100, 32767],
+    };
+    expect(waveformToPeaks(waveform)).toEqual([0.5, 32767 / 32768]);
+  });
+});
+
+describe('encodeWaveformDat', () => {
+  const waveform: AudioWaveformData = {
+    version: 2,
+    channels: 2,
+    sample_rate: 44100,
+    samples_per_pixel: 4410,
+    bits: 8,
+    length: 1,
+    data: [-128, 127, -3, 4],
+  };
+
+  it('should write the version 2 header and 8-bit values', () => {
+    const dat = encodeWaveformDat(waveform);
+    expect(dat).toHaveLength(28);
+    expect([0, 4, 8, 12, 16, 20].map((offset) => dat.readInt32LE(offset))).toEqual([2, 1, 44100, 4410, 1, 2]);
+    expect([...new Int8Array(dat.buffer, dat.byteOffset + 24, 4)]).toEqual([-128, 127, -3, 4]);
+  });
+
+  it('should write 16-bit values little-endian with the 8-bit flag clear', () => {
+    const dat = encodeWaveformDat({ ...waveform, bits: 16, data: [-32768, 32767, -300, 300] });
+    expect(dat).toHaveLength(32);
+    expect(dat.readUInt32LE(4)).toBe(0);
+    expect([24, 26, 28, 30].map((offset) => dat.readInt16LE(offset))).toEqual([-32768, 32767, -300, 300]);
+  });
+});
+
+describe('negotiateWaveformFormat', () => {
+  it('should only pick dat when octet-stream is asked for without JSON', () => {
+    expect(negotiateWaveformFormat('application/octet-stream')).toBe('dat');
+    expect(negotiateWaveformFormat(undefined)).toBe('json');
+    expect(negotiateWaveformFormat('*/*')).toBe('json');
+    expect(negotiateWaveformFormat('application/json, application/octet-stream')).toBe('json');
+    expect(negotiateWaveformFormat('application/octet-stream, application/json;q=0')).toBe('dat');
+  });
+});
+
+describe('parseAudiowaveformJson', () => {
+  it('should read version 2 output with split channels', () => {
+    const json = JSON.stringify({
+      version: 2,
+      channels: 2,
+      sample_rate: 48000,
+      samples_per_pixel: 4800,
+      bits: 8,
+      length: 1,
+      data: [-1, 2, -3, 4],
+    });
+    expect(parseAudiowaveformJson(json)).toEqual({
+      version: 2,
+      channels: 2,
+      sample_rate: 48000,
+      samples_per_pixel: 4800,
+      bits: 8,
+      length: 1,
+      data: [-1, 2, -3, 4],
+    });
+  });
+
+  it('should treat version 1 output as mono', () => {
+    const json = JSON.stringify({ version: 1, sample_rate: 44100, samples_per_pixel: 4410, bits: 16, data: [-5, 5] });
+    expect(parseAudiowaveformJson(json)).toMatchObject({ version: 2, channels: 1, bits: 16, length: 1 });
+  });
+
+  it('should reject data that is not whole min/max pairs per channel', () => {
+    const json = JSON.stringify({ version: 2, channels: 2, bits: 8, data: [-1, 1] });
+    expect(() => parseAudiowaveformJson(json)).toThrow('data is not a list of min/max pairs for 2 channel(s)');
+    expect(() => parseAudiowaveformJson(JSON.stringify({ bits: 24, data: [] }))).toThrow('unsupported bit depth: 24');
+  });
+});
+
+describe('parseAudioProbe', () => {
+  it('should read an MP3 with ID3v2 tags and cover art', () => {
+    const probe = parseAudioProbe(
+      JSON.stringify({
+        streams: [
+          {
+            index: 0,
+            codec_type: 'audio',
+            codec_name: 'mp3',
+            codec_long_name: 'MP3 (MPEG audio layer 3)',
+            sample_rate: '44100',
+            channels: 2,
+            channel_layout: 'stereo',
+            bits_per_sample: 0,
+            bit_rate: '128000',
+          },
+          {
+            index: 1,
+            codec_type: 'video',
+            codec_name: 'mjpeg',
+            width: 600,
+            height: 600,
+            disposition: { default: 0, attached_pic: 1 },
+          },
+        ],
+        format: {
+          format_name: 'mp3',
+          format_long_name: 'MP2/3 (MPEG audio layer 2/3)',
+          duration: '215.405714',
+          bit_rate: '131072',
+          tags: { title: 'Song', artist: 'Band', album_artist: 'Band', track: '3/12', TSRC: 'GBAYE0601498' },
+        },
+      })
+    );
+
+    expect(probe?.coverStreamIndex).toBe(1);
+    expect(probe?.info).toMatchObject({
+      container: 'mp3',
+      codec: 'mp3',
+      lossless: false,
+      bitRate: 128000,
+      sampleRate: 44100,
+      channels: 2,
+      channelLayout: 'stereo',
+      bitDepth: null,
+      durationSeconds: 215.405714,
+      coverArt: { codec: 'mjpeg', width: 600, height: 600 },
+    });
+    expect(probe?.info.track).toEqual({
+      title: 'Song',
+      artist: 'Band',
+      album: null,
+      albumArtist: 'Band',
+      date: null,
+      genre: null,
+      trackNumber: '3/12',
+      isrc: 'GBAYE0601498',
+    });
+  });
+
+  it('should read Vorbis comments from the stream and the lossless bit depth', () => {
+    const probe = parseAudioProbe(
+      JSON.stringify({
+        streams: [
+          {
+            index: 0,
+            codec_type: 'audio',
+            codec_name: 'flac',
+            sample_rate: '96000',
+            channels: 2,
+            bits_per_raw_sample: '24',
+            tags: { TITLE: 'Take 2', ISRC: 'USRC17607839', TRACKNUMBER: '7' },
+          },
+        ],
+        format: { format_name: 'ogg', bit_rate: '2800000', tags: { encoder: 'Lavf' } },
+      })
+    );
+
+    expect(probe?.info).toMatchObject({
+      codec: 'flac',
+      lossless: true,
+      bitDepth: 24,
+      bitRate: 2800000,
+      coverArt: null,
+    });
+    expect(probe?.info.tags).toEqual({ TITLE: 'Take 2', ISRC: 'USRC17607839', TRACKNUMBER: '7', encoder: 'Lavf' });
+    expect(probe?.info.track).toMatchObject({ title: 'Take 2', isrc: 'USRC17607839', trackNumber: '7' });
+    expect(probe?.coverStreamIndex).toBeNull();
+  });
+
+  it('should return null without an audio stream', () => {
+    const json = JSON.stringify({ streams: [{ index: 0, codec_type: 'video' }], format: { format_name: 'png_pipe' } });
+    expect(parseAudioProbe(json)).toBeNull();
+  });
+});
+
+describe('buildAudioConvertArgs', () => {
+  const source = { tags: { title: 'Take 2', artist: 'Band', encoder: 'Lavf60' }, coverStreamIndex: 1 };
+  const build = (query: Record<string, string>, from = source) =>
+    buildAudioConvertArgs('/tmp/in.flac', '/tmp/out', audioConvertQuerySchema.parse(query), from);
+
+  it('should encode cbr mp3 with tags and cover art by default', () => {
+    const { args, codec, artwork, warnings } = build({});
+    expect(codec).toBe('mp3');
+    expect(artwork).toBe(true);
+    expect(warnings).toEqual([]);
+    expect(args).toEqual([
+      '-v',
+      'error',
+      '-nostdin',
+      '-y',
+      '-i',
+      '/tmp/in.flac',
+      '-map',
+      '0:a:0',
+      '-map',
+      '0:1',
+      '-c:v',
+      'copy',
+      '-disposition:v:0',
+      'attached_pic',
+      '-map_metadata',
+      '-1',
+      '-map_metadata:s:a',
+      '-1',
+      '-metadata',
+      'title=Take 2',
+      '-metadata',
+      'artist=Band',
+      '-c:a',
+      'libmp3lame',
+      '-b:a',
+      '192k',
+      '-id3v2_version',
+      '3',
+      '-f',
+      'mp3',
+      '/tmp/out',
+    ]);
+  });
+
+  it('should map vbr bitrates to encoder quality levels', () => {
+    expect(build({ bitrateMode: 'vbr', bitrate: '190' }).args.join(' ')).toContain('-q:a 2');
+    expect(build({ format: 'ogg', bitrate: '128' }).args.join(' ')).toContain('-c:a libvorbis -q:a 4');
+    expect(build({ format: 'webm', bitrateMode: 'cbr', bitrate: '96' }).args.join(' ')).toContain(
+      '-c:a libopus -b:a 96k -vbr off'
+    );
+  });
+
+  it('should drop cover art the output cannot hold and strip tags on request', () => {
+    const { args, artwork, warnings } = build({ format: 'wav', preserveTags: 'false', mono: 'true' });
+    expect(artwork).toBe(false);
+    expect(warnings).toEqual(['Cover art dropped: wav output cannot hold it']);
+    expect(args).not.toContain('-metadata');
+    expect(args.join(' ')).toContain('-c:a pcm_s16le -ac 1 -f wav');
+  });
+
+  it('should pick container muxers and options for aac and m4a', () => {
+    expect(build({ format: 'aac' }, { tags: {}, coverStreamIndex: null }).args.join(' ')).toContain('-f adts');
+    const m4a = build({ format: 'm4a', codec: 'alac', sampleRate: '48000' }).args.join(' ');
+    expect(m4a).toContain('-c:a alac -ar 48000 -movflags +faststart -f ipod');
+    expect(m4a).not.toContain('-b:a');
+  });
+});
+
+describe('findLoudestSection', () => {
+  it('should start at the window with the most energy', () => {
+    // 10 points per second, loud between 3s and 5s
+    const peaks = Array.from({ length: 100 }, (_, i) => (i >= 30 && i < 50 ? 0.9 : 0.1));
+    expect(findLoudestSection(peaks, 10, 2)).toBe(3);
+    expect(findLoudestSection(peaks, 10, 1)).toBe(3);
+  });
+
+  it('should prefer the earliest window on a tie', () => {
+    expect(findLoudestSection([0.5, 0.5, 0.5, 0.5, 0.5, 0.5], 2, 1)).toBe(0);
+    expect(findLoudestSection([0.1, 0.8, 0.1, 0.1, 0.8, 0.1], 1, 1)).toBe(1);
+  });
+
+  it('should start at 0 when the file is shorter than the clip', () => {
+    expect(findLoudestSection([0.2, 0.9, 0.4], 10, 30)).toBe(0);
+  });
+});
+
+describe('previewWindow', () => {
+  const fades = { duration: 30, fadeIn: 1, fadeOut: 2 };
+
+  it('should keep the requested clip when the file is long enough', () => {
+    expect(previewWindow(60, fades, 215.4)).toEqual({ start: 60, duration: 30, fadeIn: 1, fadeOut: 2 });
+    expect(previewWindow(60, fades, null)).toEqual({ start: 60, duration: 30, fadeIn: 1, fadeOut: 2 });
+  });
+
+  it('should shorten the clip and its fades at the end of the file', () => {
+    expect(previewWindow(200, fades, 215.4)).toEqual({ start: 200, duration: 15.4, fadeIn: 1, fadeOut: 2 });
+    expect(previewWindow(0, fades, 1.5)).toEqual({ start: 0, duration: 1.5, fadeIn: 0.5, fadeOut: 1 });
+  });
+
+  it('should return null past the end of the file', () => {
+    expect(previewWindow(215.4, fades, 215.4)).toBeNull();
+  });
+});
+
+describe('buildAudioPreviewArgs', () => {
+  const window = { start: 42.5, duration: 30, fadeIn: 1, fadeOut: 2 };
+  const build = (query: Record<string, string>, sourceSampleRate: number | null = 44100) =>
+    buildAudioPreviewArgs('/tmp/in.wav', '/tmp/out', window, audioPreviewQuerySchema.parse(query), sourceSampleRate);
+
+  it('should trim, normalise and fade once for both the clip and its peaks', () => {
+    const { args, codec } = build({});
+    expect(codec).toBe('mp3');
+    expect(args.slice(0, 12)).toEqual([
+      '-v',
+      'error',
+      '-nostdin',
+      '-y',
+      '-ss',
+      '42.5',
+      '-t',
+      '30',
+      '-i',
+      '/tmp/in.wav',
+      '-filter_complex',
+      '[0:a:0]loudnorm=I=-14:TP=-1.5:LRA=11,afade=t=in:st=0:d=1,afade=t=out:st=28:d=2,asplit=2[clip][peaks]',
+    ]);
+    const rest = args.slice(12).join(' ');
+    expect(rest).toBe(
+      '-map [clip] -map_metadata -1 -c:a libmp3lame -b:a 192k -ar 44100 -id3v2_version 3 -f mp3 /tmp/out ' +
+        '-map [peaks] -ac 1 -ar 16000 -c:a pcm_s16le -f s16le pipe:1'
+    );
+  });
+
+  it('should resample normalised clips to a rate the codec takes', () => {
+    expect(build({}, 96000).args.join(' ')).toContain('-ar 48000 -id3v2_version');
+    expect(build({ format: 'webm' }, 44100).args.join(' ')).toContain('-c:a libopus -b:a 128k -vbr on -ar 48000');
+    expect(build({ sampleRate: '22050' }, 96000).args.join(' ')).toContain('-ar 22050 -id3v2_version');
+  });
+
+  it('should leave out loudnorm and zero-length fades', () => {
+    const { args } = buildAudioPreviewArgs(
+      '/tmp/in.wav',
+      '/tmp/out',
+      { ...window, fadeIn: 0 },
+      audioPreviewQuerySchema.parse({ normalize: 'false' }),
+      44100
+    );
+    expect(args).toContain('[0:a:0]afade=t=out:st=28:d=2,asplit=2[clip][peaks]');
+    expect(args.join(' ')).toContain('-b:a 192k -id3v2_version 3');
+  });
+});
+
+describe('pcmPeaks', () => {
+  const pcm = (values: number[]) => {
+    const buffer = Buffer.alloc(values.length * 2);
+    values.forEach((value, i) => buffer.writeInt16LE(value, i * 2));
+    return buffer;
+  };
+
+  it('should take the largest absolute sample of each slice', () => {
+    expect(pcmPeaks(pcm([0, 16384, -32768, 100, 0, -8192]), 3)).toEqual([0.5, 1, 0.25]);
+  });
+
+  it('should return one peak per sample when there are fewer than asked for', () => {
+    expect(pcmPeaks(pcm([3277, -3277]), 200)).toEqual([0.1, 0.1]);
+    expect(pcmPeaks(Buffer.alloc(0), 200)).toEqual([]);
+  });
+});
+
 describe('validateAudioExtension', () => {
   it('should return true for valid extensions', () => {
     expect(validateAudioExtension('mp3')).toBe(true);
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { mapWithConcurrency, parseBatchFileOptions, batchOutputName, convertBatch } from '../../src/utils/batch';
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order and never exceed the limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 5, 20, 1, 10], 2, async (delay, index) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      active--;
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+    expect(peak).toBe(2);
+  });
+
+  it('should handle empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('parseBatchFileOptions', () => {
+  it('should parse URL-encoded overrides', () => {
+    expect(parseBatchFileOptions(' width=300&format=webp ')).toEqual({ query: { width: '300', format: 'webp' } });
+    expect(parseBatchFileOptions('')).toEqual({ query: {} });
+  });
+
+  it('should reject repeated options and debug', () => {
+    expect(parseBatchFileOptions('width=1&width=2')).toEqual({ error: 'width: given more than once' });
+    expect(parseBatchFileOptions('debug=info')).toHaveProperty('error');
+  });
+});
+
+describe('batchOutputName', () => {
+  it('should use the output extension and de-duplicate names', () => {
+    const taken = new Set<string>();
+    expect(batchOutputName('My Photo.HEIC', 'jpg', taken)).toBe('My-Photo.jpg');
+    expect(batchOutputName('My Photo.png', 'jpg', taken)).toBe('My-Photo-2.jpg');
+    expect(batchOutputName('My Photo.png', 'webp', taken)).toBe('My-Photo.webp');
+  });
+});
+
+describe('convertBatch', () => {
+  it('should apply per-file overrides and report failures without failing the batch', async () => {
+    const image = await sharp({ create: { width: 80, height: 60, channels: 3, background: '#336699' } })
+      .png()
+      .toBuffer();
+
+    const { entries, report } = await convertBatch(
+      [
+        { input: image, fileName: 'a.png' },
+        { input: Buffer.from('not an image'), fileName: 'corrupt.jpg' },
+        { input: image, fileName: 'b.png', options: 'format=webp&width=20' },
+        { input: image, fileName: 'c.png', options: 'width=-1' },
+      ],
+      { format: 'png', width: '40' },
+      { concurrency: 2 }
+    );
+
+    expect(report).toMatchObject({ total: 4, succeeded: 2, failed: 2 });
+    expect(report.files[0]).toMatchObject({
+      status: 'ok',
+      output: { fileName: 'a.png', format: 'png', contentType: 'image/png', width: 40, height: 30 },
+    });
+    expect(report.files[1]).toMatchObject({ status: 'error', error: 'Failed to process image' });
+    expect(report.files[1].output).toBeUndefined();
+    expect(report.files[2]).toMatchObject({ status: 'ok', output: { fileName: 'b.webp', width: 20, height: 15 } });
+    expect(report.files[3]).toMatchObject({ status: 'error', error: 'Invalid parameters' });
+    expect(report.files[3].details?.[0]).toMatch(/^width: /);
+
+    expect(entries.map((entry) => entry.name)).toEqual(['a.png', 'b.webp']);
+    expect((await sharp(entries[1].data).metadata()).format).toBe('webp');
+  });
+});
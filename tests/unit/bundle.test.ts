@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZipBundle, createMultipartBundle } from '../../src/utils/bundle';
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should return 0 for an empty buffer', () => {
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe('createZipBundle', () => {
+  it('should write local headers, central directory and end record', () => {
+    const zip = createZipBundle([
+      { name: 'a.txt', data: Buffer.from('hello') },
+      { name: 'b.txt', data: Buffer.from('world!') },
+    ]);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(2);
+
+    const centralOffset = zip.readUInt32LE(end + 16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+    expect(zip.readUInt32LE(centralOffset + 16)).toBe(crc32(Buffer.from('hello')));
+  });
+
+  it('should store entry data uncompressed', () => {
+    const zip = createZipBundle([{ name: 'a.txt', data: Buffer.from('hello') }]);
+    expect(zip.subarray(30 + 'a.txt'.length, 30 + 'a.txt'.length + 5).toString()).toBe('hello');
+  });
+});
+
+describe('createMultipartBundle', () => {
+  it('should emit one part per entry and a closing boundary', () => {
+    const body = createMultipartBundle(
+      [
+        { name: 'manifest.json', data: Buffer.from('{}'), contentType: 'application/json' },
+        { name: 'a.webp', data: Buffer.from('abc'), contentType: 'image/webp' },
+      ],
+      'xyz'
+    ).toString();
+
+    expect(body.split('--xyz\r\n')).toHaveLength(3);
+    expect(body).toContain('Content-Type: application/json');
+    expect(body).toContain('filename="a.webp"');
+    expect(body.endsWith('--xyz--\r\n')).toBe(true);
+  });
+
+  it('should sanitise quotes in file names', () => {
+    const body = createMultipartBundle([{ name: 'a"b.png', data: Buffer.from('x') }], 'b').toString();
+    expect(body).toContain('filename="a_b.png"');
+    expect(body).toContain('Content-Type: application/octet-stream');
+  });
+});
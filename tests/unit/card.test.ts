@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import {
+  loadCardTemplate,
+  listCardTemplates,
+  parseCardText,
+  layoutCardText,
+  pickCardColours,
+  fillCardTemplate,
+  renderCard,
+  LoadedCardTemplate,
+} from '../../src/utils/card';
+import { cardTextFieldSchema, ImagePalette } from '../../src/types';
+import { pixelAt } from '../helpers/image';
+
+const TEMPLATE: LoadedCardTemplate = {
+  name: 'test-v1',
+  width: 200,
+  height: 100,
+  accent: '#123456',
+  cover: { left: 10, top: 10, width: 80, height: 80, radius: 0 },
+  fields: {
+    title: cardTextFieldSchema.parse({ x: 100, y: 30, width: 90, fontSize: 10, required: true, maxLength: 40 }),
+    tag: cardTextFieldSchema.parse({ x: 100, y: 80, width: 90, fontSize: 10, fill: 'accentText' }),
+  },
+  svg: '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="100"><rect width="200" height="100" fill="{{accent}}"/></svg>',
+};
+
+describe('layoutCardText', () => {
+  const field = cardTextFieldSchema.parse({ x: 0, y: 0, width: 60, fontSize: 10, maxLines: 2 });
+
+  it('should wrap words onto lines', () => {
+    expect(layoutCardText('title', field, 'one two three')).toEqual({
+      field: 'title',
+      lines: ['one two', 'three'],
+      fontSize: 10,
+      truncated: false,
+    });
+  });
+
+  it('should split words longer than a line', () => {
+    expect(layoutCardText('title', field, 'abcdefghijklmn').lines).toEqual(['abcdefghij', 'klmn']);
+  });
+
+  it('should truncate the last line with an ellipsis', () => {
+    const layout = layoutCardText('title', field, 'one two three four five six');
+    expect(layout).toMatchObject({ lines: ['one two', 'three fou…'], truncated: true });
+  });
+
+  it('should shrink towards minFontSize before truncating', () => {
+    const shrinking = { ...field, minFontSize: 6 };
+    expect(layoutCardText('title', shrinking, 'one two three four five')).toMatchObject({
+      lines: ['one two three', 'four five'],
+      fontSize: 6,
+      truncated: false,
+    });
+  });
+});
+
+describe('parseCardText', () => {
+  it('should collapse whitespace and leave out empty optional fields', () => {
+    expect(parseCardText(TEMPLATE, { title: '  Night\n Drive ', tag: ' ' })).toEqual({
+      text: { title: 'Night Drive' },
+    });
+  });
+
+  it('should report missing, unknown, repeated and overlong fields', () => {
+    expect(parseCardText(TEMPLATE, { subtitle: 'x', tag: ['a', 'b'] })).toEqual({
+      details: [
+        'subtitle: not a field of this template (fields: title, tag)',
+        'tag: given more than once',
+        'title: required',
+      ],
+    });
+    expect(parseCardText(TEMPLATE, { title: 'x'.repeat(41) })).toEqual({
+      details: ['title: must be at most 40 characters'],
+    });
+  });
+});
+
+describe('pickCardColours', () => {
+  const swatch = (hex: string) => ({
+    hex,
+    rgb: { r: 0, g: 0, b: 0 },
+    hsl: { h: 0, s: 0, l: 0 },
+    population: 1,
+    share: 1,
+  });
+  const palette = (roles: Partial<ImagePalette['roles']>, colors = [swatch('#808080')]): ImagePalette => ({
+    colors,
+    roles: {
+      lightVibrant: null,
+      vibrant: null,
+      darkVibrant: null,
+      lightMuted: null,
+      muted: null,
+      darkMuted: null,
+      ...roles,
+    },
+    pairs: [],
+  });
+
+  it('should prefer vivid roles and pick a readable text colour', () => {
+    expect(pickCardColours(palette({ muted: swatch('#667788'), darkVibrant: swatch('#1a237e') }), '#123456')).toEqual({
+      accent: '#1a237e',
+      accentText: '#ffffff',
+    });
+    expect(pickCardColours(palette({ lightVibrant: swatch('#ffeb3b') }), '#123456').accentText).toBe('#000000');
+  });
+
+  it('should fall back to the most common colour, then the template accent', () => {
+    expect(pickCardColours(palette({}), '#123456').accent).toBe('#808080');
+    expect(pickCardColours(palette({}, []), '#123456').accent).toBe('#123456');
+    expect(pickCardColours(null, '#123456').accent).toBe('#123456');
+  });
+});
+
+describe('fillCardTemplate', () => {
+  it('should fill colours and draw escaped text above the design', () => {
+    const svg = fillCardTemplate(TEMPLATE, [layoutCardText('tag', TEMPLATE.fields.tag, 'R&B')], {
+      accent: '#ff0000',
+      accentText: '#000000',
+    });
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toMatch(/<rect[^>]*\/><text[^>]*fill="#000000"><tspan x="100" y="80">R&#38;B<\/tspan><\/text><\/svg>$/);
+  });
+});
+
+describe('loadCardTemplate', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cards-'));
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="50"></svg>';
+    const fields = { title: { x: 0, y: 20, width: 100, fontSize: 12 } };
+    await fs.writeFile(path.join(directory, 'wrong-size.json'), JSON.stringify({ width: 120, height: 50, fields }));
+    await fs.writeFile(path.join(directory, 'wrong-size.svg'), svg);
+    await fs.writeFile(
+      path.join(directory, 'bad-cover.json'),
+      JSON.stringify({
+        width: 100,
+        height: 50,
+        cover: { left: 60, top: 0, width: 50, height: 50 },
+        fields,
+      })
+    );
+    await fs.writeFile(path.join(directory, 'bad-cover.svg'), svg);
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load every template in the repo', async () => {
+    const templates = await listCardTemplates();
+    expect(templates.map((template) => template.name)).toContain('release-v1');
+    expect(templates.find((template) => template.name === 'release-v1')).toMatchObject({
+      width: 1200,
+      height: 630,
+      cover: true,
+      fields: { title: { required: true, maxLines: 3 } },
+    });
+  });
+
+  it('should return null for missing templates', async () => {
+    expect(await loadCardTemplate('missing-v1')).toBeNull();
+    expect(await loadCardTemplate('../release-v1')).toBeNull();
+  });
+
+  it('should reject templates that do not match their design or layout rules', async () => {
+    await expect(loadCardTemplate('wrong-size', directory)).rejects.toThrow(
+      'Card template wrong-size: wrong-size.svg is 100x50, expected 120x50'
+    );
+    await expect(loadCardTemplate('bad-cover', directory)).rejects.toThrow('cover: cover must fit within the card');
+  });
+});
+
+describe('renderCard', () => {
+  it('should place the cover and take the accent from it', async () => {
+    const cover = await sharp({ create: { width: 40, height: 60, channels: 3, background: '#e91e63' } })
+      .png()
+      .toBuffer();
+
+    const card = await renderCard(TEMPLATE, { title: 'Night Drive' }, { cover, format: 'png' });
+
+    expect(card.accentSource).toBe('cover');
+    expect(card.colours.accent).toBe('#e91e63');
+    expect(await sharp(card.data).metadata()).toMatchObject({ format: 'png', width: 200, height: 100 });
+    expect((await pixelAt(card.data, 50, 50)).slice(0, 3)).toEqual([233, 30, 99]);
+    expect((await pixelAt(card.data, 195, 5)).slice(0, 3)).toEqual([233, 30, 99]);
+  });
+
+  it('should use a given accent over the cover art', async () => {
+    const card = await renderCard(
+      TEMPLATE,
+      { title: 'Night Drive' },
+      { accent: '#00ff00', format: 'jpg', quality: 90 }
+    );
+
+    expect(card).toMatchObject({ accentSource: 'query', colours: { accent: '#00ff00', accentText: '#000000' } });
+    expect((await sharp(card.data).metadata()).format).toBe('jpeg');
+  });
+});
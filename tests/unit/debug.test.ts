@@ -58,6 +58,14 @@ describe('recordStep', () => {
     expect(() => recordStep(undefined, 'test', Date.now())).not.toThrow();
   });
 
+  it('should track peak RSS across steps', () => {
+    const debugInfo = createDebugInfo('info', 'test-id');
+    const { rssStartBytes } = debugInfo.memory!;
+    expect(rssStartBytes).toBeGreaterThan(0);
+    recordStep(debugInfo, 'test_step', Date.now());
+    expect(debugInfo.memory!.rssPeakBytes).toBeGreaterThanOrEqual(rssStartBytes);
+  });
+
   it('should not throw if steps is undefined', () => {
     const debugInfo = { level: 'info' as const, requestId: 'test', startedAt: '' };
     expect(() => recordStep(debugInfo, 'test', Date.now())).not.toThrow();
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { z } from 'zod';
+import { SUPPORTED_IMAGE_FORMATS } from '../../src/types/formats';
 
 // Re-create the schema for testing (can't import env.ts directly as it runs validation on import)
 const envSchema = z.object({
@@ -10,8 +11,22 @@ const envSchema = z.object({
   RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60000),
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(100),
   MEDIA_RATE_LIMIT_MAX_REQUESTS: z.coerce.number().int().positive().default(30),
+  IMAGE_DEFAULT_FORMAT: z.enum(['auto', ...SUPPORTED_IMAGE_FORMATS]).default('jpg'),
+  IMAGE_PRESETS: z.string().default(''),
+  IMAGE_MAX_INPUT_PIXELS: z.coerce.number().int().positive().default(50 * 1024 * 1024),
+  IMAGE_UPLOAD_POLICIES: z.string().default(''),
+  IMAGE_DEFAULT_UPLOAD_POLICY: z.string().min(1).optional(),
+  WATERMARK_ASSETS_DIR: z.string().min(1).default('assets/watermarks'),
+  CARD_TEMPLATES_DIR: z.string().min(1).default('assets/cards'),
+  IMAGE_URL_SIGNING_KEY: z.string().min(16).optional(),
+  IMAGE_SOURCE_ALLOWED_ORIGINS: z.string().default(''),
+  IMAGE_FETCH_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  IMAGE_BATCH_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(2),
   AUDIOWAVEFORM_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
   AUDIO_DURATION_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+  AUDIO_INFO_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  AUDIO_CONVERT_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
+  AUDIO_PREVIEW_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
   AUDIOWAVEFORM_PIXELS_PER_SECOND: z.coerce.number().int().positive().default(10),
   AUDIOWAVEFORM_BITS: z.coerce.number().int().min(8).max(16).default(8),
   ODESLI_API_BASE_URL: z.string().url().default('https://api.song.link'),
@@ -28,8 +43,22 @@ describe('Environment Schema Validation', () => {
     expect(result.RATE_LIMIT_WINDOW_MS).toBe(60000);
     expect(result.RATE_LIMIT_MAX_REQUESTS).toBe(100);
     expect(result.MEDIA_RATE_LIMIT_MAX_REQUESTS).toBe(30);
+    expect(result.IMAGE_DEFAULT_FORMAT).toBe('jpg');
+    expect(result.IMAGE_PRESETS).toBe('');
+    expect(result.IMAGE_MAX_INPUT_PIXELS).toBe(52428800);
+    expect(result.IMAGE_UPLOAD_POLICIES).toBe('');
+    expect(result.IMAGE_DEFAULT_UPLOAD_POLICY).toBeUndefined();
+    expect(result.WATERMARK_ASSETS_DIR).toBe('assets/watermarks');
+    expect(result.CARD_TEMPLATES_DIR).toBe('assets/cards');
+    expect(result.IMAGE_URL_SIGNING_KEY).toBeUndefined();
+    expect(result.IMAGE_SOURCE_ALLOWED_ORIGINS).toBe('');
+    expect(result.IMAGE_FETCH_TIMEOUT_MS).toBe(10000);
+    expect(result.IMAGE_BATCH_CONCURRENCY).toBe(2);
     expect(result.AUDIOWAVEFORM_TIMEOUT_MS).toBe(15000);
     expect(result.AUDIO_DURATION_TIMEOUT_MS).toBe(5000);
+    expect(result.AUDIO_INFO_TIMEOUT_MS).toBe(10000);
+    expect(result.AUDIO_CONVERT_TIMEOUT_MS).toBe(120000);
+    expect(result.AUDIO_PREVIEW_TIMEOUT_MS).toBe(60000);
     expect(result.AUDIOWAVEFORM_PIXELS_PER_SECOND).toBe(10);
     expect(result.AUDIOWAVEFORM_BITS).toBe(8);
     expect(result.ODESLI_API_BASE_URL).toBe('https://api.song.link');
@@ -82,6 +111,24 @@ describe('Environment Schema Validation', () => {
     expect(bits16.AUDIOWAVEFORM_BITS).toBe(16);
   });
 
+  it('should accept auto as the default image format', () => {
+    expect(envSchema.parse({ IMAGE_DEFAULT_FORMAT: 'auto' }).IMAGE_DEFAULT_FORMAT).toBe('auto');
+    expect(envSchema.safeParse({ IMAGE_DEFAULT_FORMAT: 'bmp' }).success).toBe(false);
+  });
+
+  it('should reject short URL signing keys', () => {
+    expect(envSchema.safeParse({ IMAGE_URL_SIGNING_KEY: 'short' }).success).toBe(false);
+    expect(envSchema.parse({ IMAGE_URL_SIGNING_KEY: 'a-long-enough-signing-key' }).IMAGE_URL_SIGNING_KEY).toBe(
+      'a-long-enough-signing-key'
+    );
+  });
+
+  it('should bound the image batch concurrency', () => {
+    expect(envSchema.parse({ IMAGE_BATCH_CONCURRENCY: '4' }).IMAGE_BATCH_CONCURRENCY).toBe(4);
+    expect(envSchema.safeParse({ IMAGE_BATCH_CONCURRENCY: '0' }).success).toBe(false);
+    expect(envSchema.safeParse({ IMAGE_BATCH_CONCURRENCY: '17' }).success).toBe(false);
+  });
+
   it('should handle NaN values by using defaults', () => {
     // Zod coerce will fail on invalid numbers
     const result = envSchema.safeParse({ PORT: 'not-a-number' });
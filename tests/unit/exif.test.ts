@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { parseExif, hasLocationData, exifStrings } from '../../src/utils/exif';
+
+async function exifFrom(exif: Record<string, Record<string, string>>): Promise<Buffer | undefined> {
+  const image = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#808080' } })
+    .withExif(exif)
+    .jpeg()
+    .toBuffer();
+  return (await sharp(image).metadata()).exif;
+}
+
+describe('parseExif', () => {
+  it('should return null for missing or invalid data', () => {
+    expect(parseExif(undefined)).toBeNull();
+    expect(parseExif(Buffer.from('not exif at all'))).toBeNull();
+  });
+
+  it('should parse IFD0, Exif and GPS tags', async () => {
+    const exif = parseExif(
+      await exifFrom({
+        IFD0: { Copyright: '(c) Label', Artist: 'Photographer', Make: 'Apple' },
+        IFD2: { DateTimeOriginal: '2024:05:01 20:15:00' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '52/1 30/1 0/1' },
+      })
+    );
+
+    expect(exif?.image.Copyright).toBe('(c) Label');
+    expect(exif?.image.Artist).toBe('Photographer');
+    expect(exif?.image.Make).toBe('Apple');
+    expect(exif?.photo.DateTimeOriginal).toBe('2024:05:01 20:15:00');
+    expect(exif?.gps.GPSLatitudeRef).toBe('N');
+    expect(exif?.gps.GPSLatitude).toEqual([52, 30, 0]);
+  });
+
+  it('should accept data without the Exif prefix', async () => {
+    const raw = await exifFrom({ IFD0: { Artist: 'A' } });
+    expect(parseExif(raw?.subarray(6))?.image.Artist).toBe('A');
+  });
+});
+
+describe('hasLocationData', () => {
+  it('should detect EXIF GPS coordinates', async () => {
+    const exif = parseExif(await exifFrom({ IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '1/1 0/1 0/1' } }));
+    expect(hasLocationData(exif)).toBe(true);
+  });
+
+  it('should detect GPS properties in XMP', () => {
+    expect(hasLocationData(null, Buffer.from('<exif:GPSLatitude>52,30N</exif:GPSLatitude>'))).toBe(true);
+    expect(hasLocationData(null, Buffer.from('<dc:creator>A</dc:creator>'))).toBe(false);
+  });
+});
+
+describe('exifStrings', () => {
+  it('should keep only string values, optionally filtered by name', () => {
+    const tags = { Artist: 'A', Copyright: 'C', Orientation: 6 };
+    expect(exifStrings(tags)).toEqual({ Artist: 'A', Copyright: 'C' });
+    expect(exifStrings(tags, ['Copyright'])).toEqual({ Copyright: 'C' });
+  });
+});
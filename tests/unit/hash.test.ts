@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  averageHash,
+  differenceHash,
+  perceptualHash,
+  createImageHashes,
+  hammingDistance,
+  hashVerdict,
+  compareHashes,
+} from '../../src/utils/hash';
+
+// Left half dark, right half bright
+function halves(width: number, height: number): Uint8Array {
+  return Uint8Array.from({ length: width * height }, (_, i) => (i % width < width / 2 ? 10 : 240));
+}
+
+// Smooth waves in both directions, so every low frequency carries signal
+function waves(size: number): Uint8Array {
+  return Uint8Array.from({ length: size * size }, (_, i) =>
+    Math.round(128 + 60 * Math.sin((i % size) / 5) + 50 * Math.cos(Math.floor(i / size) / 7))
+  );
+}
+
+async function scene(width: number): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600">
+    <defs>
+      <linearGradient id="sky" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="#123"/>
+        <stop offset="1" stop-color="#fc8"/>
+      </linearGradient>
+    </defs>
+    <rect width="800" height="600" fill="url(#sky)"/>
+    <circle cx="250" cy="260" r="140" fill="#e33"/>
+    <rect x="480" y="120" width="220" height="330" fill="#3a6"/>
+  </svg>`;
+  return sharp(Buffer.from(svg)).resize(width).jpeg({ quality: 80 }).toBuffer();
+}
+
+describe('grid hashes', () => {
+  it('should set aHash bits for pixels brighter than the mean', () => {
+    expect(averageHash(halves(8, 8))).toBe('0f0f0f0f0f0f0f0f');
+  });
+
+  it('should set dHash bits where the left neighbour is brighter', () => {
+    const pixels = Uint8Array.from({ length: 9 * 8 }, (_, i) => 255 - (i % 9) * 20);
+    expect(differenceHash(pixels)).toBe('ffffffffffffffff');
+    expect(differenceHash(halves(9, 8))).toBe('0000000000000000');
+  });
+
+  it('should produce a 64-bit pHash that ignores brightness shifts', () => {
+    const pixels = waves(32);
+    const brighter = pixels.map((value) => value + 10);
+    expect(perceptualHash(pixels)).toMatch(/^[0-9a-f]{16}$/);
+    expect(perceptualHash(brighter)).toBe(perceptualHash(pixels));
+  });
+
+  it('should reject grids of the wrong size', () => {
+    expect(() => averageHash(new Uint8Array(63))).toThrow();
+    expect(() => differenceHash(new Uint8Array(64))).toThrow();
+    expect(() => perceptualHash(new Uint8Array(64))).toThrow();
+  });
+});
+
+describe('createImageHashes', () => {
+  it('should hash resized and re-encoded copies alike', async () => {
+    const original = await createImageHashes(await scene(800));
+    const copy = await createImageHashes(
+      await sharp(await scene(320))
+        .webp({ quality: 40 })
+        .toBuffer()
+    );
+    expect(hammingDistance(original.phash, copy.phash)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(original.dhash, copy.dhash)).toBeLessThanOrEqual(4);
+  });
+
+  it('should tell mirrored images apart', async () => {
+    const original = await createImageHashes(await scene(800));
+    const mirrored = await createImageHashes(
+      await sharp(await scene(800))
+        .flop()
+        .toBuffer()
+    );
+    expect(hashVerdict(hammingDistance(original.phash, mirrored.phash))).toBe('different');
+  });
+});
+
+describe('hash comparison', () => {
+  it('should count differing bits', () => {
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('00000000000000f1', '0000000000000010')).toBe(4);
+    expect(() => hammingDistance('00', '000')).toThrow();
+  });
+
+  it('should map distances to verdicts', () => {
+    expect(hashVerdict(0)).toBe('same');
+    expect(hashVerdict(4)).toBe('same');
+    expect(hashVerdict(5)).toBe('similar');
+    expect(hashVerdict(12)).toBe('similar');
+    expect(hashVerdict(13)).toBe('different');
+  });
+
+  it('should report distance, similarity and verdict', () => {
+    expect(compareHashes('dhash', '000000000000000f', '0000000000000000')).toEqual({
+      algorithm: 'dhash',
+      distance: 4,
+      bits: 64,
+      similarity: 0.938,
+      verdict: 'same',
+      hashes: ['000000000000000f', '0000000000000000'],
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  toSharpFormat,
+  resolveVariantWidths,
+  variantFileName,
+  buildSrcset,
+  decodeImage,
+  renderVariant,
+  resolveFocalCrop,
+  toSourceRegion,
+  isRegionWithin,
+  buildEncoderOptions,
+  encodeWithinBytes,
+  parseAcceptedTypes,
+  negotiateImageFormat,
+  negotiateAnimatedFormat,
+  selectStripFrames,
+  layoutFrameStrip,
+  orientedSize,
+  applyMetadataPolicy,
+  sampleImage,
+  summarizeHistogram,
+  toHexColour,
+  detectImageFormat,
+  detectImageFileFormat,
+} from '../../src/utils/image';
+import { parseExif } from '../../src/utils/exif';
+import { ImageVariant } from '../../src/types';
+
+function variant(fileName: string, format: ImageVariant['format'], width: number): ImageVariant {
+  return { fileName, format, contentType: 'image/' + format, width, height: width, sizeBytes: 1 };
+}
+
+describe('detectImageFormat', () => {
+  it('should recognise encoded images by their leading bytes', async () => {
+    const base = sharp({ create: { width: 4, height: 4, channels: 3, background: '#808080' } });
+    for (const format of ['jpeg', 'png', 'gif', 'webp', 'avif', 'tiff'] as const) {
+      const encoded = await base.clone().toFormat(format).toBuffer();
+      expect(detectImageFormat(encoded)).toBe(format);
+    }
+  });
+
+  it('should tell HEIC from AVIF by the ftyp brands', () => {
+    const ftyp = (...brands: string[]) => {
+      const box = Buffer.alloc(8 + 4 * (brands.length + 1));
+      box.writeUInt32BE(box.length, 0);
+      box.write('ftyp', 4, 'latin1');
+      box.write(brands[0], 8, 'latin1');
+      brands.slice(1).forEach((brand, i) => box.write(brand, 16 + 4 * i, 'latin1'));
+      return box;
+    };
+    expect(detectImageFormat(ftyp('heic', 'mif1', 'heic'))).toBe('heic');
+    expect(detectImageFormat(ftyp('mif1', 'mif1', 'avif'))).toBe('avif');
+    expect(detectImageFormat(ftyp('isom', 'isom', 'mp41'))).toBeNull();
+  });
+
+  it('should recognise SVG with a BOM, XML declaration and comments', () => {
+    const svg = '\uFEFF<?xml version="1.0"?>\n<!-- logo -->\n<svg xmlns="http://www.w3.org/2000/svg"></svg>';
+    expect(detectImageFormat(Buffer.from(svg))).toBe('svg');
+    expect(detectImageFormat(Buffer.from('<html><svg></svg></html>'))).toBeNull();
+  });
+
+  it('should reject unknown or truncated data', () => {
+    expect(detectImageFormat(Buffer.from('not an image'))).toBeNull();
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8]))).toBeNull();
+  });
+
+  it('should read only the header of a file', async () => {
+    expect(await detectImageFileFormat('tests/data/IMG_5777.HEIC')).toBe('heic');
+  });
+});
+
+describe('toSharpFormat', () => {
+  it('should map jpg to jpeg', () => {
+    expect(toSharpFormat('jpg')).toBe('jpeg');
+    expect(toSharpFormat('webp')).toBe('webp');
+  });
+});
+
+describe('resolveVariantWidths', () => {
+  it('should sort and de-duplicate widths', () => {
+    expect(resolveVariantWidths([640, 320, 640], 2000)).toEqual([320, 640]);
+  });
+
+  it('should drop widths larger than the source', () => {
+    expect(resolveVariantWidths([320, 640, 1280], 800)).toEqual([320, 640]);
+  });
+
+  it('should fall back to the source width', () => {
+    expect(resolveVariantWidths([1280], 800)).toEqual([800]);
+  });
+});
+
+describe('variantFileName', () => {
+  it('should build a safe name from the upload', () => {
+    expect(variantFileName('My Cover.HEIC', 640, 'webp')).toBe('My-Cover-640w.webp');
+    expect(variantFileName('', 320, 'jpg')).toBe('image-320w.jpg');
+  });
+});
+
+describe('buildSrcset', () => {
+  it('should group candidates by format', () => {
+    const srcset = buildSrcset(
+      [variant('a-320w.webp', 'webp', 320), variant('a-640w.webp', 'webp', 640), variant('a-320w.jpg', 'jpg', 320)],
+      '/media/'
+    );
+    expect(srcset.webp).toBe('/media/a-320w.webp 320w, /media/a-640w.webp 640w');
+    expect(srcset.jpg).toBe('/media/a-320w.jpg 320w');
+  });
+});
+
+describe('orientedSize', () => {
+  it('should swap axes for rotated orientations', () => {
+    expect(orientedSize({ width: 400, height: 300, orientation: 6 } as sharp.Metadata)).toEqual({ width: 300, height: 400 });
+    expect(orientedSize({ width: 400, height: 300, orientation: 3 } as sharp.Metadata)).toEqual({ width: 400, height: 300 });
+  });
+
+  it('should keep stored axes when auto-orientation is off', () => {
+    expect(orientedSize({ width: 400, height: 300, orientation: 6 } as sharp.Metadata, false)).toEqual({
+      width: 400,
+      height: 300,
+    });
+  });
+});
+
+describe('applyMetadataPolicy', () => {
+  async function photo(exif: Record<string, Record<string, string>>) {
+    const input = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#808080' } })
+      .withExif(exif)
+      .jpeg()
+      .toBuffer();
+    return { input, metadata: await sharp(input).metadata() };
+  }
+
+  async function outputMetadata(pipeline: sharp.Sharp) {
+    return sharp(await pipeline.jpeg().toBuffer()).metadata();
+  }
+
+  it('should strip everything by default', async () => {
+    const { input, metadata } = await photo({ IFD0: { Copyright: 'C' } });
+    const result = applyMetadataPolicy(sharp(input), 'strip', metadata, { embedIcc: false });
+    const output = await outputMetadata(result.pipeline);
+    expect(output.exif).toBeUndefined();
+    expect(output.icc).toBeUndefined();
+  });
+
+  it('should keep only copyright fields', async () => {
+    const { input, metadata } = await photo({
+      IFD0: { Copyright: 'C', Artist: 'A', Make: 'Apple' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '1/1 0/1 0/1' },
+    });
+    const result = applyMetadataPolicy(sharp(input), 'copyright', metadata, { embedIcc: true });
+    const output = await outputMetadata(result.pipeline);
+    const exif = parseExif(output.exif);
+    expect(exif?.image.Copyright).toBe('C');
+    expect(exif?.image.Artist).toBe('A');
+    expect(exif?.image.Make).toBeUndefined();
+    expect(exif?.gps).toEqual({});
+    expect(output.icc).toBeDefined();
+    expect(result.locationRemoved).toBe(true);
+  });
+
+  it('should remove GPS even when keeping all metadata', async () => {
+    const { input, metadata } = await photo({
+      IFD0: { Make: 'Apple' },
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '1/1 0/1 0/1' },
+    });
+    const result = applyMetadataPolicy(sharp(input), 'all', metadata, { embedIcc: false });
+    const exif = parseExif((await outputMetadata(result.pipeline)).exif);
+    expect(exif?.image.Make).toBe('Apple');
+    expect(exif?.gps).toEqual({});
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('should keep all metadata when there is no location', async () => {
+    const { input, metadata } = await photo({ IFD0: { Make: 'Apple' }, IFD2: { DateTimeOriginal: '2024:01:01 00:00:00' } });
+    const result = applyMetadataPolicy(sharp(input), 'all', metadata, { embedIcc: false });
+    const output = await outputMetadata(result.pipeline);
+    expect(parseExif(output.exif)?.photo.DateTimeOriginal).toBe('2024:01:01 00:00:00');
+    expect(output.icc).toBeDefined();
+    expect(result.warnings).toHaveLength(0);
+  });
+});
+
+describe('parseAcceptedTypes', () => {
+  it('should parse media types and drop q=0 entries', () => {
+    const accepted = parseAcceptedTypes('image/avif;q=0, image/webp, image/*;q=0.8, */*;q=0.5');
+    expect(accepted.has('image/avif')).toBe(false);
+    expect(accepted.has('image/webp')).toBe(true);
+    expect(accepted.has('image/*')).toBe(true);
+  });
+
+  it('should return an empty set without a header', () => {
+    expect(parseAcceptedTypes(undefined).size).toBe(0);
+  });
+});
+
+describe('negotiateImageFormat', () => {
+  it('should prefer avif, then webp', () => {
+    expect(negotiateImageFormat('image/avif,image/webp,*/*', false)).toBe('avif');
+    expect(negotiateImageFormat('image/webp,*/*', true)).toBe('webp');
+  });
+
+  it('should fall back to png for alpha and jpg otherwise', () => {
+    expect(negotiateImageFormat('image/*', true)).toBe('png');
+    expect(negotiateImageFormat(undefined, false)).toBe('jpg');
+  });
+});
+
+describe('negotiateAnimatedFormat', () => {
+  it('should prefer webp and fall back to gif', () => {
+    expect(negotiateAnimatedFormat('image/avif,image/webp,*/*')).toBe('webp');
+    expect(negotiateAnimatedFormat('image/avif,*/*')).toBe('gif');
+    expect(negotiateAnimatedFormat(undefined)).toBe('gif');
+  });
+});
+
+describe('selectStripFrames', () => {
+  it('should spread frames from first to last', () => {
+    expect(selectStripFrames(10, 4)).toEqual([0, 3, 6, 9]);
+    expect(selectStripFrames(3, 2)).toEqual([0, 2]);
+  });
+
+  it('should use every frame of short animations', () => {
+    expect(selectStripFrames(3, 8)).toEqual([0, 1, 2]);
+  });
+});
+
+describe('layoutFrameStrip', () => {
+  it('should move stacked frames into one row', () => {
+    // Three 2x1 single-channel frames stacked vertically
+    const info = { format: 'raw', width: 2, height: 3, channels: 1, premultiplied: false, size: 6 } as const;
+    const strip = layoutFrameStrip({ data: Buffer.from([1, 1, 2, 2, 3, 3]), info }, 3, [2, 0]);
+    expect(strip.info).toMatchObject({ width: 4, height: 1, size: 4 });
+    expect([...strip.data]).toEqual([3, 3, 1, 1]);
+  });
+});
+
+describe('buildEncoderOptions', () => {
+  it('should drop unset options', () => {
+    expect(buildEncoderOptions('jpg', { quality: 80, progressive: undefined })).toEqual({ quality: 80 });
+  });
+
+  it('should switch png to palette mode for lossy output', () => {
+    expect(buildEncoderOptions('png', { quality: 60 })).toEqual({ quality: 60, palette: true });
+    expect(buildEncoderOptions('png', { lossless: false })).toEqual({ palette: true });
+    expect(buildEncoderOptions('png', { lossless: true })).toEqual({});
+  });
+
+  it('should drop options the format does not support and clamp effort', () => {
+    expect(buildEncoderOptions('webp', { mozjpeg: true, effort: 9 })).toEqual({ effort: 6 });
+  });
+
+  it('should pass lossless through for webp', () => {
+    expect(buildEncoderOptions('webp', { lossless: true, effort: 4 })).toEqual({ lossless: true, effort: 4 });
+  });
+});
+
+describe('encodeWithinBytes', () => {
+  async function noisyImage() {
+    const width = 64;
+    const height = 64;
+    const data = Buffer.alloc(width * height * 3);
+    for (let i = 0; i < data.length; i++) data[i] = (i * 7919) % 251;
+    return { data, info: { width, height, channels: 3 } as sharp.OutputInfo };
+  }
+
+  it('should find the highest quality that fits', async () => {
+    const decoded = await noisyImage();
+    const full = await encodeWithinBytes(decoded, 'jpg', {}, Number.MAX_SAFE_INTEGER);
+    expect(full.quality).toBe(100);
+    expect(full.fits).toBe(true);
+
+    const budget = Math.floor(full.data.length / 2);
+    const result = await encodeWithinBytes(decoded, 'jpg', {}, budget);
+    expect(result.fits).toBe(true);
+    expect(result.data.length).toBeLessThanOrEqual(budget);
+    expect(result.quality).toBeLessThan(100);
+  });
+
+  it('should report when nothing fits', async () => {
+    const result = await encodeWithinBytes(await noisyImage(), 'jpg', {}, 10);
+    expect(result.fits).toBe(false);
+    expect(result.data.length).toBeGreaterThan(10);
+    expect(result.quality).toBeLessThan(10);
+  });
+});
+
+describe('resolveFocalCrop', () => {
+  it('should centre the crop by default', () => {
+    const crop = resolveFocalCrop(400, 200, 100, 100);
+    expect(crop.resizeWidth).toBe(200);
+    expect(crop.resizeHeight).toBe(100);
+    expect(crop.region).toEqual({ left: 50, top: 0, width: 100, height: 100 });
+  });
+
+  it('should crop around the focal point', () => {
+    const crop = resolveFocalCrop(400, 200, 100, 100, 0.25, 0.5);
+    expect(crop.region.left).toBe(0);
+    const right = resolveFocalCrop(400, 200, 100, 100, 0.7, 0.5);
+    expect(right.region.left).toBe(90);
+  });
+
+  it('should clamp the crop to the image edges', () => {
+    const crop = resolveFocalCrop(200, 400, 100, 100, 0.5, 1);
+    expect(crop.region).toEqual({ left: 0, top: 100, width: 100, height: 100 });
+  });
+});
+
+describe('toSourceRegion', () => {
+  it('should scale back to source pixels and add the extract offset', () => {
+    expect(toSourceRegion({ left: 50, top: 0, width: 100, height: 100 }, 0.5, { left: 10, top: 20, width: 0, height: 0 }))
+      .toEqual({ left: 110, top: 20, width: 200, height: 200 });
+  });
+});
+
+describe('isRegionWithin', () => {
+  it('should check the region against image bounds', () => {
+    expect(isRegionWithin({ left: 0, top: 0, width: 10, height: 10 }, 10, 10)).toBe(true);
+    expect(isRegionWithin({ left: 1, top: 0, width: 10, height: 10 }, 10, 10)).toBe(false);
+  });
+});
+
+describe('renderVariant', () => {
+  it('should resize decoded pixels into the requested format', async () => {
+    const source = await sharp({
+      create: { width: 40, height: 20, channels: 3, background: { r: 255, g: 0, b: 0 } },
+    })
+      .png()
+      .toBuffer();
+    const decoded = await decodeImage(source);
+    const { variant: result, data } = await renderVariant(decoded, {
+      fileName: 'x-10w.webp',
+      format: 'webp',
+      width: 10,
+      fit: 'cover',
+    });
+
+    expect(result.width).toBe(10);
+    expect(result.height).toBe(5);
+    expect(result.sizeBytes).toBe(data.length);
+    expect((await sharp(data).metadata()).format).toBe('webp');
+  });
+});
+
+describe('toHexColour', () => {
+  it('should format RGB as a lowercase hex string', () => {
+    expect(toHexColour({ r: 255, g: 8, b: 0 })).toBe('#ff0800');
+  });
+});
+
+describe('sampleImage', () => {
+  it('should bound the longest edge and keep source pixel values', async () => {
+    const input = await sharp({ create: { width: 2000, height: 1000, channels: 3, background: { r: 10, g: 20, b: 30 } } })
+      .png()
+      .toBuffer();
+    const sample = await sampleImage(input);
+    expect(sample.info.width).toBe(512);
+    expect(sample.info.height).toBe(256);
+    expect([...sample.data.subarray(0, 3)]).toEqual([10, 20, 30]);
+  });
+});
+
+describe('summarizeHistogram', () => {
+  it('should summarise each channel with normalised bins', () => {
+    // Two RGBA pixels: black transparent and white opaque
+    const sample = {
+      data: Buffer.from([0, 0, 0, 0, 255, 255, 255, 255]),
+      info: { width: 2, height: 1, channels: 4 } as sharp.OutputInfo,
+    };
+    const histogram = summarizeHistogram(sample, 4);
+
+    expect(histogram.map((h) => h.channel)).toEqual(['red', 'green', 'blue', 'alpha']);
+    expect(histogram[0]).toEqual({ channel: 'red', min: 0, max: 255, mean: 127.5, stdev: 127.5, bins: [0.5, 0, 0, 0.5] });
+  });
+
+  it('should name greyscale channels', () => {
+    const sample = { data: Buffer.from([128, 128]), info: { width: 2, height: 1, channels: 1 } as sharp.OutputInfo };
+    const [gray] = summarizeHistogram(sample, 2);
+    expect(gray).toMatchObject({ channel: 'gray', min: 128, max: 128, mean: 128, stdev: 0, bins: [0, 1] });
+  });
+});
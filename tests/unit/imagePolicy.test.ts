@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { evaluateImagePolicy, checkImagePolicy } from '../../src/utils/imagePolicy';
+import { BUILT_IN_UPLOAD_POLICIES, parseUploadPolicies } from '../../src/config/uploadPolicies';
+import { ImageUploadPolicy } from '../../src/types';
+
+const POLICY: ImageUploadPolicy = {
+  formats: ['jpeg', 'png'],
+  minWidth: 100,
+  maxWidth: 1000,
+  minHeight: 100,
+  maxHeight: 1000,
+  minAspect: 0.5,
+  maxAspect: 2,
+  maxMegapixels: 0.5,
+};
+
+describe('evaluateImagePolicy', () => {
+  it('should pass images within every rule', () => {
+    expect(evaluateImagePolicy(POLICY, { format: 'png', width: 400, height: 300 })).toEqual([]);
+  });
+
+  it('should list each failed rule', () => {
+    expect(evaluateImagePolicy(POLICY, { format: 'gif', width: 50, height: 120 })).toEqual([
+      'formats: gif is not allowed (allowed: jpeg, png)',
+      'minWidth: width 50px is below 100px',
+      'minAspect: aspect ratio 0.417 is below 0.5',
+    ]);
+    expect(evaluateImagePolicy(POLICY, { format: 'jpeg', width: 1000, height: 1001 })).toEqual([
+      'maxHeight: height 1001px is above 1000px',
+      'maxMegapixels: 1 MP is above 0.5 MP',
+    ]);
+  });
+
+  it('should only check the type when the size is unknown', () => {
+    expect(evaluateImagePolicy(POLICY, { format: null })).toEqual([
+      'formats: unrecognised type is not allowed (allowed: jpeg, png)',
+    ]);
+  });
+});
+
+describe('checkImagePolicy', () => {
+  it('should check the displayed size of an upload', async () => {
+    // 300x120 stored, shown as 120x300 after EXIF rotation
+    const rotated = await sharp({ create: { width: 300, height: 120, channels: 3, background: '#336699' } })
+      .withMetadata({ orientation: 6 })
+      .jpeg()
+      .toBuffer();
+
+    const check = await checkImagePolicy(rotated, { formats: ['jpeg'], maxAspect: 1 });
+    expect(check).toEqual({ format: 'jpeg', width: 120, height: 300, failures: [] });
+  });
+
+  it('should reject data that is not an allowed image', async () => {
+    const check = await checkImagePolicy(Buffer.from('GIF89a but truncated'), POLICY);
+    expect(check.format).toBe('gif');
+    expect(check.failures[0]).toMatch(/^formats: gif is not allowed/);
+    expect(check.failures[1]).toMatch(/^image: could not be read/);
+  });
+});
+
+describe('parseUploadPolicies', () => {
+  it('should provide the built-in policies', () => {
+    expect(Object.keys(parseUploadPolicies(''))).toEqual(['avatar', 'cover', 'press']);
+  });
+
+  it('should add and replace policies from JSON', () => {
+    const policies = parseUploadPolicies(
+      JSON.stringify({ banner: { formats: ['jpeg'], minAspect: 3 }, avatar: { formats: ['png'] } }),
+      'banner'
+    );
+    expect(policies.banner).toEqual({ formats: ['jpeg'], minAspect: 3 });
+    expect(policies.avatar).toEqual({ formats: ['png'] });
+    expect(policies.cover).toEqual(BUILT_IN_UPLOAD_POLICIES.cover);
+  });
+
+  it('should reject invalid policies and unknown defaults', () => {
+    expect(() => parseUploadPolicies('{')).toThrow(/invalid JSON/);
+    expect(() => parseUploadPolicies(JSON.stringify({ x: { formats: ['bmp'] } }))).toThrow(
+      /IMAGE_UPLOAD_POLICIES\.x\.formats/
+    );
+    expect(() => parseUploadPolicies(JSON.stringify({ x: { formats: ['png'], minWidth: 10, maxWidth: 5 } }))).toThrow(
+      /minWidth cannot be greater than maxWidth/
+    );
+    expect(() => parseUploadPolicies(JSON.stringify({ x: { formats: ['png'], minPixels: 5 } }))).toThrow();
+    expect(() => parseUploadPolicies('', 'missing')).toThrow(/unknown policy "missing"/);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseIptc } from '../../src/utils/iptc';
+
+function dataset(record: number, id: number, value: string): Buffer {
+  const data = Buffer.from(value, 'utf8');
+  const header = Buffer.from([0x1c, record, id, 0, 0]);
+  header.writeUInt16BE(data.length, 3);
+  return Buffer.concat([header, data]);
+}
+
+describe('parseIptc', () => {
+  it('should return null for missing or empty data', () => {
+    expect(parseIptc(undefined)).toBeNull();
+    expect(parseIptc(Buffer.alloc(0))).toBeNull();
+    expect(parseIptc(Buffer.from('no datasets here'))).toBeNull();
+  });
+
+  it('should parse application record datasets', () => {
+    const iptc = parseIptc(
+      Buffer.concat([
+        dataset(1, 90, '\x1b%G'), // envelope record, ignored
+        dataset(2, 5, 'Album Cover'),
+        dataset(2, 80, 'Photographer'),
+        dataset(2, 116, '© 2024 Label'),
+        dataset(2, 120, 'Band on stage'),
+      ])
+    );
+
+    expect(iptc).toEqual({
+      ObjectName: 'Album Cover',
+      Byline: ['Photographer'],
+      CopyrightNotice: '© 2024 Label',
+      Caption: 'Band on stage',
+    });
+  });
+
+  it('should collect repeatable datasets into arrays', () => {
+    const iptc = parseIptc(Buffer.concat([dataset(2, 25, 'rock'), dataset(2, 25, 'live')]));
+    expect(iptc?.Keywords).toEqual(['rock', 'live']);
+  });
+
+  it('should find datasets inside a Photoshop resource block', () => {
+    const records = dataset(2, 105, 'Headline');
+    const wrapped = Buffer.concat([Buffer.from('8BIM\x04\x04\0\0', 'latin1'), Buffer.alloc(4), records]);
+    expect(parseIptc(wrapped)?.Headline).toBe('Headline');
+  });
+
+  it('should stop at truncated datasets', () => {
+    const truncated = dataset(2, 5, 'Complete title').subarray(0, 10);
+    expect(parseIptc(Buffer.concat([dataset(2, 105, 'Headline'), truncated]))).toEqual({ Headline: 'Headline' });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  resolveWatermarkAsset,
+  renderTextOverlay,
+  defaultTextSize,
+  prepareOverlay,
+  compositeOverlay,
+} from '../../src/utils/overlay';
+import { DecodedImage } from '../../src/utils/image';
+import { pixel } from '../helpers/image';
+
+async function solid(width: number, height: number, channels: 3 | 4, colour: sharp.Color): Promise<DecodedImage> {
+  const { data, info } = await sharp({ create: { width, height, channels, background: colour } })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, info };
+}
+
+describe('resolveWatermarkAsset', () => {
+  it('should find bundled assets by name', async () => {
+    expect(await resolveWatermarkAsset('promo')).toMatch(/assets[/\\]watermarks[/\\]promo\.svg$/);
+  });
+
+  it('should return null for unknown assets', async () => {
+    expect(await resolveWatermarkAsset('does-not-exist')).toBeNull();
+  });
+});
+
+describe('renderTextOverlay', () => {
+  it('should render trimmed text with transparency', async () => {
+    const png = await renderTextOverlay('PROMO <&>', { color: '#ff0000', fontSize: 40 });
+    const metadata = await sharp(png).metadata();
+    expect(metadata.hasAlpha).toBe(true);
+    expect(metadata.height).toBeLessThan(64);
+    expect(metadata.width).toBeLessThan(10 * 40);
+  });
+});
+
+describe('defaultTextSize', () => {
+  it('should scale with the output height with a floor', () => {
+    expect(defaultTextSize(1000)).toBe(60);
+    expect(defaultTextSize(50)).toBe(12);
+  });
+});
+
+describe('prepareOverlay', () => {
+  it('should scale relative to the output width', async () => {
+    const logo = await sharp({ create: { width: 50, height: 25, channels: 4, background: '#fff' } }).png().toBuffer();
+    const overlay = await prepareOverlay(logo, { width: 400, height: 300 }, { scale: 0.5, opacity: 1, margin: 0 });
+    expect(overlay.width).toBe(200);
+    expect(overlay.height).toBe(100);
+  });
+
+  it('should shrink overlays larger than the output and add margins', async () => {
+    const logo = await sharp({ create: { width: 1000, height: 100, channels: 4, background: '#fff' } }).png().toBuffer();
+    const overlay = await prepareOverlay(logo, { width: 200, height: 200 }, { opacity: 1, margin: 10 });
+    expect(overlay.width).toBe(200);
+    expect(overlay.height).toBe(38);
+  });
+
+  it('should apply opacity to the alpha channel', async () => {
+    const logo = await sharp({ create: { width: 4, height: 4, channels: 4, background: '#fff' } }).png().toBuffer();
+    const overlay = await prepareOverlay(logo, { width: 10, height: 10 }, { opacity: 0.5, margin: 0 });
+    const { data } = await sharp(overlay.data).raw().toBuffer({ resolveWithObject: true });
+    expect(data[3]).toBe(128);
+  });
+
+  it('should rasterise SVG assets at the target size', async () => {
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="5"><rect width="10" height="5" fill="#fff"/></svg>');
+    const overlay = await prepareOverlay(svg, { width: 1000, height: 1000 }, { scale: 0.5, opacity: 1, margin: 0 });
+    expect(overlay.width).toBe(500);
+    expect(overlay.height).toBe(250);
+  });
+});
+
+describe('compositeOverlay', () => {
+  it('should place the overlay by gravity and keep opaque bases opaque', async () => {
+    const base = await solid(100, 50, 3, '#000000');
+    const overlay = await prepareOverlay(
+      await sharp({ create: { width: 10, height: 10, channels: 4, background: '#ffffff' } }).png().toBuffer(),
+      base.info,
+      { opacity: 1, margin: 0 }
+    );
+    const result = await compositeOverlay(base, overlay, { gravity: 'southeast', tile: false });
+
+    expect(result.info.channels).toBe(3);
+    expect(pixel(result, 95, 45)).toEqual([255, 255, 255]);
+    expect(pixel(result, 5, 5)).toEqual([0, 0, 0]);
+  });
+
+  it('should place the overlay at an absolute offset', async () => {
+    const base = await solid(100, 50, 3, '#000000');
+    const overlay = await prepareOverlay(
+      await sharp({ create: { width: 10, height: 10, channels: 4, background: '#ffffff' } }).png().toBuffer(),
+      base.info,
+      { opacity: 1, margin: 0 }
+    );
+    const result = await compositeOverlay(base, overlay, { gravity: 'southeast', left: 20, top: 5, tile: false });
+    expect(pixel(result, 25, 10)).toEqual([255, 255, 255]);
+    expect(pixel(result, 95, 45)).toEqual([0, 0, 0]);
+  });
+
+  it('should tile across the whole image', async () => {
+    const base = await solid(40, 40, 3, '#000000');
+    const overlay = await prepareOverlay(
+      await sharp({ create: { width: 10, height: 10, channels: 4, background: '#ffffff' } }).png().toBuffer(),
+      base.info,
+      { opacity: 1, margin: 0 }
+    );
+    const result = await compositeOverlay(base, overlay, { gravity: 'northwest', tile: true });
+    expect(pixel(result, 35, 35)).toEqual([255, 255, 255]);
+  });
+
+  it('should keep transparency of bases with alpha', async () => {
+    const base = await solid(20, 20, 4, { r: 0, g: 0, b: 0, alpha: 0 });
+    const overlay = await prepareOverlay(
+      await sharp({ create: { width: 4, height: 4, channels: 4, background: '#ffffff' } }).png().toBuffer(),
+      base.info,
+      { opacity: 0.5, margin: 0 }
+    );
+    const result = await compositeOverlay(base, overlay, { gravity: 'northwest', tile: false });
+
+    expect(result.info.channels).toBe(4);
+    expect(pixel(result, 10, 10)[3]).toBe(0);
+    expect(pixel(result, 1, 1)[3]).toBe(128);
+  });
+});
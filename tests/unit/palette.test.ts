@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { relativeLuminance, contrastRatio, extractPalette } from '../../src/utils/palette';
+import { DecodedImage } from '../../src/utils/image';
+
+const OPTIONS = { colors: 8, minContrast: 4.5 };
+
+// Raw pixels of horizontal bands, each `rows` tall
+function bands(entries: { colour: number[]; rows: number }[], width = 10): DecodedImage {
+  const channels = entries[0].colour.length;
+  const height = entries.reduce((sum, entry) => sum + entry.rows, 0);
+  const data = Buffer.concat(
+    entries.map(({ colour, rows }) => Buffer.from(Array.from({ length: width * rows }, () => colour).flat()))
+  );
+  return { data, info: { width, height, channels } as sharp.OutputInfo };
+}
+
+describe('WCAG contrast', () => {
+  it('should compute relative luminance and contrast ratios', () => {
+    expect(relativeLuminance({ r: 255, g: 255, b: 255 })).toBeCloseTo(1);
+    expect(relativeLuminance({ r: 0, g: 0, b: 0 })).toBe(0);
+    expect(contrastRatio({ r: 255, g: 255, b: 255 }, { r: 0, g: 0, b: 0 })).toBeCloseTo(21);
+    expect(contrastRatio({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 })).toBeCloseTo(21);
+    // #767676 is the classic lightest grey passing AA on white
+    expect(contrastRatio({ r: 0x76, g: 0x76, b: 0x76 }, { r: 255, g: 255, b: 255 })).toBeCloseTo(4.54, 2);
+  });
+});
+
+describe('extractPalette', () => {
+  it('should return colours by population with their share', () => {
+    const palette = extractPalette(
+      bands([
+        { colour: [255, 0, 0], rows: 6 },
+        { colour: [0, 0, 255], rows: 2 },
+      ]),
+      OPTIONS
+    );
+    expect(palette.colors.map(({ hex, share }) => ({ hex, share }))).toEqual([
+      { hex: '#ff0000', share: 0.75 },
+      { hex: '#0000ff', share: 0.25 },
+    ]);
+    expect(palette.colors[0]).toMatchObject({
+      rgb: { r: 255, g: 0, b: 0 },
+      hsl: { h: 0, s: 1, l: 0.5 },
+      population: 60,
+    });
+  });
+
+  it('should limit the number of colours', () => {
+    const image = bands([
+      { colour: [200, 30, 30], rows: 4 },
+      { colour: [30, 200, 30], rows: 3 },
+      { colour: [30, 30, 200], rows: 2 },
+    ]);
+    expect(extractPalette(image, { ...OPTIONS, colors: 2 }).colors.map((colour) => colour.hex)).toEqual([
+      '#c81e1e',
+      '#1ec81e',
+    ]);
+  });
+
+  it('should assign roles by lightness and saturation', () => {
+    const palette = extractPalette(
+      bands([
+        { colour: [230, 40, 40], rows: 3 },
+        { colour: [120, 20, 20], rows: 3 },
+        { colour: [140, 130, 120], rows: 3 },
+        { colour: [0, 0, 0], rows: 9 },
+      ]),
+      OPTIONS
+    );
+    expect(palette.roles.vibrant?.hex).toBe('#e62828');
+    expect(palette.roles.darkVibrant?.hex).toBe('#781414');
+    expect(palette.roles.muted?.hex).toBe('#8c8278');
+    // Black is the most common colour, but never takes a role
+    expect(palette.colors[0].hex).toBe('#000000');
+    expect(palette.roles.darkMuted).toBeNull();
+    expect(palette.roles.lightVibrant).toBeNull();
+  });
+
+  it('should pair each role with a text colour that meets the contrast', () => {
+    const image = bands([
+      { colour: [230, 80, 30], rows: 5 },
+      { colour: [250, 240, 230], rows: 4 },
+      { colour: [20, 20, 40], rows: 1 },
+    ]);
+    const palette = extractPalette(image, OPTIONS);
+    // The cream is more common but too light on orange, so the navy is picked
+    const vibrant = palette.pairs.find((pair) => pair.role === 'vibrant');
+    expect(vibrant).toMatchObject({ background: '#e6501e', foreground: '#141428', aa: true, aaLarge: true });
+    expect(vibrant!.contrast).toBeGreaterThanOrEqual(4.5);
+    expect(palette.pairs.find((pair) => pair.role === 'lightVibrant')).toMatchObject({
+      background: '#faf0e6',
+      foreground: '#141428',
+      aaa: true,
+    });
+
+    const strict = extractPalette(image, { ...OPTIONS, minContrast: 21 });
+    // No palette colour reaches 21:1, so black or white is used
+    expect(['#000000', '#ffffff']).toContain(strict.pairs.find((pair) => pair.role === 'vibrant')?.foreground);
+  });
+
+  it('should ignore transparent pixels and read grey input', () => {
+    const rgba = extractPalette(
+      bands([
+        { colour: [0, 128, 255, 255], rows: 2 },
+        { colour: [255, 0, 0, 0], rows: 8 },
+      ]),
+      OPTIONS
+    );
+    expect(rgba.colors).toHaveLength(1);
+    expect(rgba.colors[0]).toMatchObject({ hex: '#0080ff', share: 1 });
+
+    const grey = extractPalette(bands([{ colour: [100], rows: 2 }]), OPTIONS);
+    expect(grey.colors[0].hex).toBe('#646464');
+  });
+
+  it('should be deterministic', async () => {
+    const { data, info } = await sharp({
+      create: { width: 64, height: 64, channels: 3, noise: { type: 'gaussian', mean: 128, sigma: 60 } },
+    })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const first = extractPalette({ data, info }, OPTIONS);
+    expect(first.colors).toHaveLength(8);
+    expect(extractPalette({ data: Buffer.from(data), info }, OPTIONS)).toEqual(first);
+  });
+});
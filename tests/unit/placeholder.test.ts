@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { encodeBlurHash, encodeThumbHash, createPlaceholders } from '../../src/utils/placeholder';
+import { decodeImage } from '../../src/utils/image';
+
+// Horizontal red ramp, vertical green ramp, constant blue; optional alpha ramp
+function gradient(width: number, height: number, alpha = false): Uint8Array {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      pixels[offset] = Math.round((255 * x) / (width - 1));
+      pixels[offset + 1] = Math.round((255 * y) / (height - 1));
+      pixels[offset + 2] = 128;
+      pixels[offset + 3] = alpha ? Math.round((255 * x) / (width - 1)) : 255;
+    }
+  }
+  return pixels;
+}
+
+describe('encodeBlurHash', () => {
+  it('should match the reference encoder', () => {
+    // The AC scale comes from the largest |AC| value as in the C and Swift
+    // encoders; the npm package takes the signed maximum and clips this ramp
+    expect(encodeBlurHash(gradient(8, 6), 8, 6, 4, 3)).toBe('LyI5er3Aa|%1z4NKfQnSeXf7fQf7');
+  });
+
+  it('should encode the component counts and length', () => {
+    const hash = encodeBlurHash(gradient(8, 6), 8, 6, 9, 1);
+    expect(hash[0]).toBe('8'); // (9 - 1) + (1 - 1) * 9
+    expect(hash).toHaveLength(4 + 2 * 9);
+  });
+
+  it('should reject invalid components and pixel buffers', () => {
+    expect(() => encodeBlurHash(gradient(8, 6), 8, 6, 0, 3)).toThrow();
+    expect(() => encodeBlurHash(gradient(8, 6), 8, 5, 4, 3)).toThrow();
+  });
+});
+
+describe('encodeThumbHash', () => {
+  it('should match the reference encoder', () => {
+    expect(Buffer.from(encodeThumbHash(gradient(8, 6), 8, 6)).toString('base64')).toBe('4AcKRZ5wh3dwiHeHh3iHh3BwB/eH');
+  });
+
+  it('should match the reference encoder with alpha', () => {
+    expect(Buffer.from(encodeThumbHash(gradient(8, 6, true), 8, 6)).toString('base64')).toBe(
+      '5GiGJJA4w4ewiId3OAx7w08Id4iHeIh4Bw=='
+    );
+  });
+
+  it('should reject images larger than 100x100', () => {
+    expect(() => encodeThumbHash(new Uint8Array(101 * 4), 101, 1)).toThrow();
+  });
+});
+
+describe('createPlaceholders', () => {
+  it('should describe the decoded pixels', async () => {
+    const input = await sharp({ create: { width: 400, height: 200, channels: 3, background: { r: 200, g: 30, b: 30 } } })
+      .png()
+      .toBuffer();
+    const placeholder = await createPlaceholders(await decodeImage(input), {
+      componentsX: 4,
+      componentsY: 3,
+      lqipWidth: 16,
+      lqipFormat: 'webp',
+    });
+
+    expect(placeholder.width).toBe(400);
+    expect(placeholder.height).toBe(200);
+    expect(placeholder.blurhash).toHaveLength(28);
+    expect(placeholder.lqip.dataUri).toMatch(/^data:image\/webp;base64,/);
+    expect(placeholder.lqip).toMatchObject({ format: 'webp', width: 16, height: 8 });
+
+    // A flat colour has no AC energy, so the BlurHash DC term is the colour itself
+    const dc = placeholder.blurhash.slice(2, 6);
+    const characters = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+    const value = [...dc].reduce((acc, c) => acc * 83 + characters.indexOf(c), 0);
+    expect([value >> 16, (value >> 8) & 255, value & 255]).toEqual([200, 30, 30]);
+  });
+
+  it('should accept greyscale input', async () => {
+    const input = await sharp({ create: { width: 20, height: 20, channels: 3, background: '#777' } })
+      .toColourspace('b-w')
+      .png()
+      .toBuffer();
+    const placeholder = await createPlaceholders(await decodeImage(input), {
+      componentsX: 3,
+      componentsY: 3,
+      lqipWidth: 8,
+      lqipFormat: 'png',
+    });
+    expect(placeholder.thumbhash.length).toBeGreaterThan(0);
+    expect(placeholder.lqip.dataUri).toMatch(/^data:image\/png;base64,/);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { applyImagePreset, parseImageConvertQuery } from '../../src/utils/preset';
+import { BUILT_IN_IMAGE_PRESETS, parseImagePresets } from '../../src/config/imagePresets';
+import { ImagePreset, imagePresetSchema } from '../../src/types';
+
+const PRESETS: Record<string, ImagePreset> = {
+  thumb: { options: { format: 'webp', width: '200', height: '200' }, allowOverrides: ['quality', 'format'] },
+  locked: { options: { format: 'png', width: '64' }, allowOverrides: [] },
+};
+
+describe('applyImagePreset', () => {
+  it('should pass queries without a preset through', () => {
+    expect(applyImagePreset({ width: '10' }, PRESETS)).toEqual({ ok: true, query: { width: '10' } });
+  });
+
+  it("should expand the preset with the caller's allowed overrides on top", () => {
+    expect(applyImagePreset({ preset: 'Thumb', format: 'avif', debug: 'info', policy: 'avatar' }, PRESETS)).toEqual({
+      ok: true,
+      query: { format: 'avif', width: '200', height: '200', debug: 'info', policy: 'avatar' },
+      preset: 'thumb',
+    });
+  });
+
+  it('should reject unknown presets and options the preset does not allow', () => {
+    expect(applyImagePreset({ preset: 'poster' }, PRESETS)).toEqual({
+      ok: false,
+      details: ['preset: unknown preset "poster"'],
+    });
+    expect(applyImagePreset({ preset: 'thumb', width: '300', fit: 'fill' }, PRESETS)).toEqual({
+      ok: false,
+      details: [
+        'width: cannot be overridden with preset "thumb" (allowed: quality, format)',
+        'fit: cannot be overridden with preset "thumb" (allowed: quality, format)',
+      ],
+    });
+    expect(applyImagePreset({ preset: 'locked', quality: '50' }, PRESETS)).toMatchObject({
+      details: ['quality: cannot be overridden with preset "locked" (allowed: none)'],
+    });
+    expect(applyImagePreset({ preset: '../thumb' }, PRESETS)).toMatchObject({ ok: false });
+  });
+});
+
+describe('parseImageConvertQuery', () => {
+  it('should validate the expanded options', () => {
+    const parsed = parseImageConvertQuery({ preset: 'thumb', quality: '70' }, PRESETS);
+    expect(parsed).toMatchObject({ ok: true, preset: 'thumb', data: { format: 'webp', width: 200, quality: 70 } });
+
+    expect(parseImageConvertQuery({ preset: 'thumb', quality: '500' }, PRESETS)).toMatchObject({
+      ok: false,
+      details: [expect.stringMatching(/^quality: /)],
+    });
+  });
+
+  it('should behave like the convert schema without a preset', () => {
+    const parsed = parseImageConvertQuery({ format: 'png', width: '10' }, PRESETS);
+    expect(parsed).toMatchObject({ ok: true, data: { format: 'png', width: 10 } });
+    expect(parsed).not.toHaveProperty('preset');
+  });
+});
+
+describe('parseImagePresets', () => {
+  it('should provide valid built-in presets', () => {
+    const presets = parseImagePresets('');
+    expect(Object.keys(presets)).toEqual(['album-cover-800', 'avatar-128', 'hero-2x']);
+    for (const preset of Object.values(BUILT_IN_IMAGE_PRESETS)) {
+      expect(imagePresetSchema.safeParse(preset).success).toBe(true);
+    }
+  });
+
+  it('should add and replace presets from JSON', () => {
+    const presets = parseImagePresets(
+      JSON.stringify({
+        'og-1200': { options: { format: 'jpg', width: 1200, height: 630, progressive: true } },
+        'avatar-128': { options: { format: 'png', width: 128 }, allowOverrides: ['quality'] },
+      })
+    );
+    expect(presets['og-1200']).toEqual({
+      options: { format: 'jpg', width: '1200', height: '630', progressive: 'true' },
+      allowOverrides: [],
+    });
+    expect(presets['avatar-128'].options).toEqual({ format: 'png', width: '128' });
+    expect(presets['hero-2x']).toEqual(BUILT_IN_IMAGE_PRESETS['hero-2x']);
+  });
+
+  it('should reject presets that /image/convert would reject', () => {
+    expect(() => parseImagePresets('{')).toThrow(/IMAGE_PRESETS: invalid JSON/);
+    expect(() => parseImagePresets(JSON.stringify({ x: { options: { size: 10 } } }))).toThrow(
+      'IMAGE_PRESETS.x.options.size: size is not a /image/convert option'
+    );
+    expect(() => parseImagePresets(JSON.stringify({ x: { options: { width: -1 } } }))).toThrow(
+      /IMAGE_PRESETS\.x\.options\.width: /
+    );
+    expect(() => parseImagePresets(JSON.stringify({ x: { options: { format: 'png', effort: 20 } } }))).toThrow(
+      /IMAGE_PRESETS\.x\.options\.effort: /
+    );
+    expect(() => parseImagePresets(JSON.stringify({ x: { options: {}, allowOverrides: ['debug'] } }))).toThrow(
+      'IMAGE_PRESETS.x.allowOverrides.0: debug is not a /image/convert option'
+    );
+    expect(() => parseImagePresets(JSON.stringify({ 'Hero 2x': { options: {} } }))).toThrow(/^IMAGE_PRESETS\.Hero 2x: /);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { computeSheetLayout, fitCaption, defaultCaption, renderContactSheet } from '../../src/utils/sheet';
+import { pixelAt } from '../helpers/image';
+
+const SHEET_OPTIONS = {
+  fit: 'contain',
+  background: '#ffffff',
+  captions: false,
+  captionColor: '#000000',
+  captionSize: 12,
+  format: 'png',
+} as const;
+
+async function solidPng(width: number, height: number, colour: string): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: colour } })
+    .png()
+    .toBuffer();
+}
+
+describe('computeSheetLayout', () => {
+  it('should default to a near-square grid', () => {
+    const layout = computeSheetLayout(5, { cellWidth: 100, gutter: 0 });
+    expect(layout).toMatchObject({ columns: 3, rows: 2, width: 300, height: 200, cellHeight: 100 });
+  });
+
+  it('should separate cells by the gutter only', () => {
+    const layout = computeSheetLayout(4, { columns: 2, cellWidth: 50, cellHeight: 30, gutter: 10 });
+    expect(layout.width).toBe(110);
+    expect(layout.height).toBe(70);
+    expect(layout.cells[3]).toEqual({ left: 60, top: 40, width: 50, height: 30 });
+  });
+
+  it('should add caption strips below each row', () => {
+    const layout = computeSheetLayout(3, { columns: 3, cellWidth: 50, gutter: 0, captionSize: 10 });
+    expect(layout.captionHeight).toBe(16);
+    expect(layout.height).toBe(66);
+  });
+
+  it('should never use more columns than images', () => {
+    expect(computeSheetLayout(2, { columns: 10, cellWidth: 20, gutter: 5 })).toMatchObject({ columns: 2, width: 45 });
+  });
+});
+
+describe('fitCaption', () => {
+  it('should keep captions that fit and shorten the rest', () => {
+    expect(fitCaption(' Cover ', 100, 10)).toBe('Cover');
+    expect(fitCaption('A very long caption for a small cell', 60, 10)).toBe('A very lo…');
+  });
+
+  it('should default to the file name without extension', () => {
+    expect(defaultCaption('shoot-01.final.jpg')).toBe('shoot-01.final');
+  });
+});
+
+describe('renderContactSheet', () => {
+  it('should place images on the grid and map their rectangles', async () => {
+    const wide = await solidPng(100, 50, '#ff0000');
+    const tall = await solidPng(20, 80, '#0000ff');
+    const layout = computeSheetLayout(2, { cellWidth: 40, gutter: 4 });
+
+    const { data, map } = await renderContactSheet(
+      [
+        { input: wide, fileName: 'wide.png' },
+        { input: tall, fileName: 'tall.png' },
+      ],
+      layout,
+      SHEET_OPTIONS
+    );
+
+    expect(map).toMatchObject({ fileName: 'sheet.png', width: 84, height: 40, columns: 2, rows: 1 });
+    expect(map.tiles[0]).toMatchObject({ x: 0, y: 10, width: 40, height: 20, source: { width: 100, height: 50 } });
+    expect(map.tiles[1]).toMatchObject({ x: 59, y: 0, width: 10, height: 40, cell: { left: 44, top: 0 } });
+    expect(map.tiles[0].caption).toBeUndefined();
+
+    expect(await pixelAt(data, 20, 20)).toEqual([255, 0, 0, 255]);
+    expect(await pixelAt(data, 20, 2)).toEqual([255, 255, 255, 255]);
+    expect(await pixelAt(data, 62, 20)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should crop to the cell with fit=cover', async () => {
+    const wide = await solidPng(100, 50, '#00ff00');
+    const layout = computeSheetLayout(1, { cellWidth: 30, cellHeight: 30, gutter: 0 });
+
+    const { map } = await renderContactSheet([{ input: wide, fileName: 'wide.png' }], layout, {
+      ...SHEET_OPTIONS,
+      fit: 'cover',
+    });
+
+    expect(map.tiles[0]).toMatchObject({ x: 0, y: 0, width: 30, height: 30 });
+  });
+
+  it('should caption tiles and flatten a transparent background for JPEG', async () => {
+    const image = await solidPng(40, 40, '#ff0000');
+    const layout = computeSheetLayout(1, { cellWidth: 40, gutter: 0, captionSize: 10 });
+
+    const { data, map } = await renderContactSheet([{ input: image, fileName: 'red.png', caption: 'Red' }], layout, {
+      ...SHEET_OPTIONS,
+      background: '#00ff0000',
+      captions: true,
+      format: 'jpg',
+    });
+
+    expect(map.tiles[0].caption).toBe('Red');
+    const metadata = await sharp(data).metadata();
+    expect(metadata).toMatchObject({ format: 'jpeg', width: 40, height: 56 });
+    const [r, g, b] = await pixelAt(data, 1, 54);
+    expect(g).toBeGreaterThan(200);
+    expect(r + b).toBeLessThan(60);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  signTransformPath,
+  verifyTransformSignature,
+  createSignedTransformPath,
+  parseTransformOptions,
+  decodeSourceUrl,
+  parseAllowedOrigins,
+  isAllowedSourceOrigin,
+  fetchSourceImage,
+} from '../../src/utils/signedUrl';
+
+const KEY = 'unit-test-signing-key';
+
+describe('transform signatures', () => {
+  it('should produce a stable base64url HMAC', () => {
+    const signature = signTransformPath('width=400', 'aHR0cDovL2V4YW1wbGUuY29tL2EuanBn', KEY);
+    expect(signature).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(signTransformPath('width=400', 'aHR0cDovL2V4YW1wbGUuY29tL2EuanBn', KEY)).toBe(signature);
+  });
+
+  it('should verify only the exact options, source and key', () => {
+    const signature = signTransformPath('width=400', 'c291cmNl', KEY);
+    expect(verifyTransformSignature(signature, 'width=400', 'c291cmNl', KEY)).toBe(true);
+    expect(verifyTransformSignature(signature, 'width=401', 'c291cmNl', KEY)).toBe(false);
+    expect(verifyTransformSignature(signature, 'width=400', 'c291cmNm', KEY)).toBe(false);
+    expect(verifyTransformSignature(signature, 'width=400', 'c291cmNl', 'another-signing-key')).toBe(false);
+    expect(verifyTransformSignature('short', 'width=400', 'c291cmNl', KEY)).toBe(false);
+  });
+
+  it('should build a path whose segments verify', () => {
+    const path = createSignedTransformPath({ width: 400, format: 'webp' }, 'https://cdn.example.com/a b.jpg', KEY);
+    const [signature, options, encodedSourceUrl] = path.split('/');
+    expect(options).toBe('width=400&format=webp');
+    expect(verifyTransformSignature(signature, options, encodedSourceUrl, KEY)).toBe(true);
+    expect(decodeSourceUrl(encodedSourceUrl)?.href).toBe('https://cdn.example.com/a%20b.jpg');
+  });
+
+  it('should use _ for empty options', () => {
+    expect(createSignedTransformPath({}, 'https://cdn.example.com/a.jpg', KEY).split('/')[1]).toBe('_');
+  });
+});
+
+describe('parseTransformOptions', () => {
+  it('should parse query-string options', () => {
+    expect(parseTransformOptions('width=400&format=webp&extract=0%2C0%2C10%2C10')).toEqual({
+      query: { width: '400', format: 'webp', extract: '0,0,10,10' },
+    });
+    expect(parseTransformOptions('_')).toEqual({ query: {} });
+  });
+
+  it('should reject debug and repeated options', () => {
+    expect(parseTransformOptions('debug=info')).toEqual({ error: 'debug: not supported on signed URLs' });
+    expect(parseTransformOptions('width=1&width=2')).toEqual({ error: 'width: given more than once' });
+  });
+});
+
+describe('source URLs and origins', () => {
+  it('should only decode http(s) URLs', () => {
+    const encode = (url: string) => Buffer.from(url).toString('base64url');
+    expect(decodeSourceUrl(encode('http://127.0.0.1:8080/x.png'))?.origin).toBe('http://127.0.0.1:8080');
+    expect(decodeSourceUrl(encode('file:///etc/passwd'))).toBeNull();
+    expect(decodeSourceUrl(encode('not a url'))).toBeNull();
+    expect(decodeSourceUrl('not+base64url')).toBeNull();
+  });
+
+  it('should match exact origins from the allow-list', () => {
+    const allowed = parseAllowedOrigins(' https://cdn.example.com/ , http://127.0.0.1:9000,not-a-url');
+    expect(allowed).toEqual(['https://cdn.example.com', 'http://127.0.0.1:9000']);
+    expect(isAllowedSourceOrigin(new URL('https://cdn.example.com/a/b.jpg'), allowed)).toBe(true);
+    expect(isAllowedSourceOrigin(new URL('http://cdn.example.com/a.jpg'), allowed)).toBe(false);
+    expect(isAllowedSourceOrigin(new URL('https://cdn.example.com.evil.test/a.jpg'), allowed)).toBe(false);
+    expect(isAllowedSourceOrigin(new URL('http://127.0.0.1:9001/a.jpg'), allowed)).toBe(false);
+  });
+});
+
+describe('fetchSourceImage', () => {
+  let origin: http.Server;
+  let baseUrl: string;
+
+  beforeAll(() => {
+    origin = http.createServer((req, res) => {
+      if (req.url === '/ok') {
+        res.end(Buffer.alloc(100, 1));
+      } else if (req.url === '/large') {
+        res.end(Buffer.alloc(2000, 1));
+      } else if (req.url === '/redirect') {
+        res.writeHead(302, { Location: '/ok' }).end();
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.end('late'), 500);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    return new Promise<void>((resolve) => {
+      origin.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${(origin.address() as AddressInfo).port}`;
+        resolve();
+      });
+    });
+  });
+
+  afterAll(() => {
+    origin.closeAllConnections();
+    return new Promise<void>((resolve) => origin.close(() => resolve()));
+  });
+
+  const options = { timeoutMs: 200, maxBytes: 1000 };
+
+  it('should return the body', async () => {
+    const result = await fetchSourceImage(new URL(`${baseUrl}/ok`), options);
+    expect(result.ok && result.data.length).toBe(100);
+  });
+
+  it('should map failures to status codes', async () => {
+    expect(await fetchSourceImage(new URL(`${baseUrl}/missing`), options)).toMatchObject({ ok: false, status: 404 });
+    expect(await fetchSourceImage(new URL(`${baseUrl}/large`), options)).toMatchObject({ ok: false, status: 502 });
+    expect(await fetchSourceImage(new URL(`${baseUrl}/redirect`), options)).toMatchObject({ ok: false, status: 502 });
+    expect(await fetchSourceImage(new URL(`${baseUrl}/slow`), options)).toMatchObject({ ok: false, status: 504 });
+  });
+});
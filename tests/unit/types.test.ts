@@ -1,5 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { imageConvertQuerySchema, audioPeaksQuerySchema } from '../../src/types';
+import {
+  imageConvertQuerySchema,
+  imageVariantsQuerySchema,
+  imageInfoQuerySchema,
+  imagePlaceholderQuerySchema,
+  imageCompareQuerySchema,
+  imagePaletteQuerySchema,
+  imageSheetQuerySchema,
+  imageCardQuerySchema,
+  cardTemplateSchema,
+  imageUploadPolicySchema,
+  uploadPolicyQuerySchema,
+  audioConvertQuerySchema,
+  audioInfoQuerySchema,
+  audioPeaksQuerySchema,
+  audioPreviewQuerySchema,
+  audioWaveformImageQuerySchema,
+} from '../../src/types';
 
 describe('imageConvertQuerySchema', () => {
   it('should use default values when empty', () => {
@@ -25,6 +42,15 @@ describe('imageConvertQuerySchema', () => {
     expect(() => imageConvertQuerySchema.parse({ format: 'bmp' })).toThrow();
   });
 
+  it('should accept format=auto', () => {
+    expect(imageConvertQuerySchema.parse({ format: 'AUTO' }).format).toBe('auto');
+  });
+
+  it('should validate auto encoder options against every candidate', () => {
+    expect(imageConvertQuerySchema.parse({ format: 'auto', quality: '70', effort: '9' }).effort).toBe(9);
+    expect(imageConvertQuerySchema.parse({ format: 'auto', maxBytes: '1000' }).maxBytes).toBe(1000);
+  });
+
   it('should parse valid dimensions', () => {
     const result = imageConvertQuerySchema.parse({ width: '800', height: '600' });
     expect(result.width).toBe(800);
@@ -63,6 +89,393 @@ describe('imageConvertQuerySchema', () => {
       expect(result.debug).toBe(debug);
     }
   });
+
+  it('should parse smart crop strategies', () => {
+    expect(imageConvertQuerySchema.parse({ crop: 'Attention' }).crop).toBe('attention');
+    expect(imageConvertQuerySchema.parse({ crop: 'entropy' }).crop).toBe('entropy');
+    expect(() => imageConvertQuerySchema.parse({ crop: 'faces' })).toThrow();
+  });
+
+  it('should parse a focal point', () => {
+    const result = imageConvertQuerySchema.parse({ fx: '0.25', fy: '0.1' });
+    expect(result.fx).toBe(0.25);
+    expect(result.fy).toBe(0.1);
+  });
+
+  it('should reject focal points outside 0-1 or given alone', () => {
+    expect(() => imageConvertQuerySchema.parse({ fx: '1.5', fy: '0.5' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ fx: '0.5' })).toThrow();
+  });
+
+  it('should reject crop combined with a focal point or non-cover fit', () => {
+    expect(() => imageConvertQuerySchema.parse({ crop: 'attention', fx: '0.5', fy: '0.5' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ crop: 'attention', fit: 'contain' })).toThrow();
+  });
+
+  it('should parse encoder options', () => {
+    const result = imageConvertQuerySchema.parse({
+      format: 'jpg',
+      quality: '82',
+      progressive: 'true',
+      mozjpeg: '1',
+      chromaSubsampling: '4:4:4',
+    });
+    expect(result.quality).toBe(82);
+    expect(result.progressive).toBe(true);
+    expect(result.mozjpeg).toBe(true);
+    expect(result.chromaSubsampling).toBe('4:4:4');
+  });
+
+  it('should reject encoder options the format does not support', () => {
+    expect(() => imageConvertQuerySchema.parse({ format: 'webp', mozjpeg: 'true' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ format: 'gif', quality: '80' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ format: 'jpg', lossless: 'true' })).toThrow();
+  });
+
+  it('should validate effort per format', () => {
+    expect(imageConvertQuerySchema.parse({ format: 'avif', effort: '9' }).effort).toBe(9);
+    expect(() => imageConvertQuerySchema.parse({ format: 'webp', effort: '9' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ format: 'png', effort: '0' })).toThrow();
+  });
+
+  it('should reject invalid boolean values', () => {
+    expect(() => imageConvertQuerySchema.parse({ format: 'jpg', progressive: 'yes' })).toThrow();
+  });
+
+  it('should only allow maxBytes for quality-driven formats', () => {
+    expect(imageConvertQuerySchema.parse({ format: 'webp', maxBytes: '50000' }).maxBytes).toBe(50000);
+    expect(() => imageConvertQuerySchema.parse({ format: 'png', maxBytes: '50000' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ format: 'webp', maxBytes: '50000', lossless: 'true' })).toThrow();
+  });
+
+  it('should default to auto-orientation and stripped metadata', () => {
+    const result = imageConvertQuerySchema.parse({});
+    expect(result.autoOrient).toBe(true);
+    expect(result.metadata).toBe('strip');
+    expect(result.embedIcc).toBe(false);
+  });
+
+  it('should parse metadata policies', () => {
+    expect(imageConvertQuerySchema.parse({ metadata: 'Copyright' }).metadata).toBe('copyright');
+    expect(imageConvertQuerySchema.parse({ metadata: 'all', autoOrient: 'false' }).autoOrient).toBe(false);
+    expect(() => imageConvertQuerySchema.parse({ metadata: 'gps' })).toThrow();
+  });
+
+  it('should parse an extract rectangle', () => {
+    const result = imageConvertQuerySchema.parse({ extract: '10, 20,300,200' });
+    expect(result.extract).toEqual({ left: 10, top: 20, width: 300, height: 200 });
+    expect(() => imageConvertQuerySchema.parse({ extract: '10,20,300' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ extract: '10,20,0,200' })).toThrow();
+  });
+});
+
+describe('imageConvertQuerySchema overlays', () => {
+  it('should apply overlay defaults', () => {
+    const result = imageConvertQuerySchema.parse({ overlayText: ' PROMO ' });
+    expect(result.overlayText).toBe('PROMO');
+    expect(result.overlayColor).toBe('#ffffff');
+    expect(result.overlayGravity).toBe('southeast');
+    expect(result.overlayOpacity).toBe(1);
+    expect(result.overlayTile).toBe(false);
+  });
+
+  it('should normalise colour and gravity', () => {
+    const result = imageConvertQuerySchema.parse({ overlayColor: 'FF0000', overlayGravity: 'Center' });
+    expect(result.overlayColor).toBe('#ff0000');
+    expect(result.overlayGravity).toBe('centre');
+  });
+
+  it('should reject asset names that could escape the asset directory', () => {
+    expect(() => imageConvertQuerySchema.parse({ watermark: '../secret' })).toThrow();
+    expect(imageConvertQuerySchema.parse({ watermark: 'label-logo' }).watermark).toBe('label-logo');
+  });
+
+  it('should reject conflicting overlay options', () => {
+    expect(() => imageConvertQuerySchema.parse({ watermark: 'promo', overlayText: 'PROMO' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ overlayLeft: '10' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ overlayLeft: '10', overlayTop: '10', overlayTile: 'true' })).toThrow();
+  });
+
+  it('should bound opacity and scale', () => {
+    expect(() => imageConvertQuerySchema.parse({ overlayOpacity: '1.5' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ overlayScale: '0' })).toThrow();
+  });
+});
+
+describe('imageConvertQuerySchema frames', () => {
+  it('should default to the first frame only', () => {
+    const result = imageConvertQuerySchema.parse({});
+    expect(result.animated).toBe(false);
+    expect(result.frame).toBeUndefined();
+    expect(result.frameStrip).toBeUndefined();
+  });
+
+  it('should accept animated output only for gif, webp and auto', () => {
+    expect(imageConvertQuerySchema.parse({ animated: 'true', format: 'webp' }).animated).toBe(true);
+    expect(imageConvertQuerySchema.parse({ animated: 'true', format: 'auto' }).animated).toBe(true);
+    expect(() => imageConvertQuerySchema.parse({ animated: 'true', format: 'avif' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ animated: 'true', format: 'png' })).toThrow();
+  });
+
+  it('should reject options animated output cannot honour', () => {
+    expect(() => imageConvertQuerySchema.parse({ animated: 'true', format: 'webp', maxBytes: '1000' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ animated: 'true', format: 'webp', overlayText: 'x' })).toThrow();
+    expect(() =>
+      imageConvertQuerySchema.parse({ animated: 'true', format: 'webp', width: '10', height: '10', crop: 'attention' })
+    ).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ frameStrip: '4', width: '10', height: '10', crop: 'entropy' })).toThrow();
+  });
+
+  it('should allow only one frame mode', () => {
+    expect(() => imageConvertQuerySchema.parse({ animated: 'true', format: 'gif', frame: '1' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ frame: '1', frameStrip: '4' })).toThrow();
+  });
+
+  it('should bound frame and frameStrip', () => {
+    expect(imageConvertQuerySchema.parse({ frame: '0' }).frame).toBe(0);
+    expect(() => imageConvertQuerySchema.parse({ frame: '-1' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ frameStrip: '1' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ frameStrip: '65' })).toThrow();
+  });
+});
+
+describe('imageConvertQuerySchema adjustments', () => {
+  it('should default to no adjustments', () => {
+    const result = imageConvertQuerySchema.parse({});
+    expect(result).toMatchObject({ trim: false, trimThreshold: 10, flip: false, flop: false, grayscale: false });
+    expect(result.rotate).toBeUndefined();
+    expect(result.pad).toBeUndefined();
+  });
+
+  it('should expand pad like CSS shorthand', () => {
+    expect(imageConvertQuerySchema.parse({ pad: '8' }).pad).toEqual({ top: 8, right: 8, bottom: 8, left: 8 });
+    expect(imageConvertQuerySchema.parse({ pad: '4,8' }).pad).toEqual({ top: 4, right: 8, bottom: 4, left: 8 });
+    expect(imageConvertQuerySchema.parse({ pad: '1,2,3,4' }).pad).toEqual({ top: 1, right: 2, bottom: 3, left: 4 });
+    expect(() => imageConvertQuerySchema.parse({ pad: '1,2,3' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ pad: '1001' })).toThrow();
+  });
+
+  it('should accept colours with alpha for fills and opaque colours for tint', () => {
+    const result = imageConvertQuerySchema.parse({ padColor: '#FFFFFF00', rotateBackground: '#123abc', tint: '#00ff00' });
+    expect(result.padColor).toBe('#ffffff00');
+    expect(result.rotateBackground).toBe('#123abc');
+    expect(() => imageConvertQuerySchema.parse({ tint: '#00ff0080' })).toThrow();
+  });
+
+  it('should bound the numeric adjustments', () => {
+    expect(() => imageConvertQuerySchema.parse({ rotate: '361' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ blur: '0.1' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ brightness: '0' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ gamma: '0.2' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ trimThreshold: '256' })).toThrow();
+    expect(imageConvertQuerySchema.parse({ saturation: '0' }).saturation).toBe(0);
+  });
+
+  it('should reject tint with grayscale', () => {
+    const result = imageConvertQuerySchema.safeParse({ grayscale: 'true', tint: '#ff0000' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['tint']);
+  });
+
+  it('should reject per-frame geometry edits on multi-frame output', () => {
+    expect(() => imageConvertQuerySchema.parse({ animated: 'true', format: 'gif', rotate: '90' })).toThrow();
+    expect(() => imageConvertQuerySchema.parse({ frameStrip: '3', trim: 'true' })).toThrow();
+    expect(imageConvertQuerySchema.parse({ animated: 'true', format: 'gif', grayscale: 'true' }).grayscale).toBe(true);
+    expect(imageConvertQuerySchema.parse({ frame: '1', rotate: '90' }).rotate).toBe(90);
+  });
+});
+
+describe('imageVariantsQuerySchema', () => {
+  it('should parse widths and formats lists', () => {
+    const result = imageVariantsQuerySchema.parse({ widths: '320, 640,1280', formats: 'AVIF,webp' });
+    expect(result.widths).toEqual([320, 640, 1280]);
+    expect(result.formats).toEqual(['avif', 'webp']);
+    expect(result.fit).toBe('cover');
+    expect(result.output).toBe('zip');
+  });
+
+  it('should treat jpeg as jpg and drop repeated formats', () => {
+    expect(imageVariantsQuerySchema.parse({ widths: '320', formats: 'jpg,JPEG,webp,webp' }).formats).toEqual([
+      'jpg',
+      'webp',
+    ]);
+  });
+
+  it('should require widths', () => {
+    expect(() => imageVariantsQuerySchema.parse({})).toThrow();
+  });
+
+  it('should reject non-numeric widths', () => {
+    expect(() => imageVariantsQuerySchema.parse({ widths: '320,abc' })).toThrow();
+  });
+
+  it('should reject too many widths', () => {
+    expect(() => imageVariantsQuerySchema.parse({ widths: '1,2,3,4,5,6,7,8,9,10,11' })).toThrow();
+  });
+
+  it('should reject unsupported formats', () => {
+    expect(() => imageVariantsQuerySchema.parse({ widths: '320', formats: 'bmp' })).toThrow();
+  });
+
+  it('should parse aspect ratio into a number', () => {
+    expect(imageVariantsQuerySchema.parse({ widths: '320', aspect: '16:9' }).aspect).toBeCloseTo(16 / 9);
+    expect(() => imageVariantsQuerySchema.parse({ widths: '320', aspect: '16x9' })).toThrow();
+  });
+});
+
+describe('imageInfoQuerySchema', () => {
+  it('should default to 16 histogram bins', () => {
+    expect(imageInfoQuerySchema.parse({}).bins).toBe(16);
+  });
+
+  it('should coerce and bound bins', () => {
+    expect(imageInfoQuerySchema.parse({ bins: '256' }).bins).toBe(256);
+    expect(() => imageInfoQuerySchema.parse({ bins: '1' })).toThrow();
+    expect(() => imageInfoQuerySchema.parse({ bins: '257' })).toThrow();
+  });
+});
+
+describe('imagePaletteQuerySchema', () => {
+  it('should default to 8 colours and AA contrast', () => {
+    expect(imagePaletteQuerySchema.parse({})).toEqual({ colors: 8, minContrast: 4.5 });
+  });
+
+  it('should bound colours and contrast', () => {
+    expect(imagePaletteQuerySchema.parse({ colors: '16', minContrast: '7' })).toEqual({ colors: 16, minContrast: 7 });
+    expect(() => imagePaletteQuerySchema.parse({ colors: '0' })).toThrow();
+    expect(() => imagePaletteQuerySchema.parse({ colors: '17' })).toThrow();
+    expect(() => imagePaletteQuerySchema.parse({ minContrast: '22' })).toThrow();
+  });
+});
+
+describe('imageSheetQuerySchema', () => {
+  it('should apply sheet defaults', () => {
+    expect(imageSheetQuerySchema.parse({})).toEqual({
+      cellWidth: 200,
+      gutter: 0,
+      fit: 'contain',
+      background: '#ffffff',
+      captions: false,
+      captionColor: '#000000',
+      captionSize: 12,
+      format: 'png',
+      output: 'zip',
+    });
+  });
+
+  it('should accept a transparent background and bounded cells', () => {
+    const result = imageSheetQuerySchema.parse({ background: 'FFFFFF00', cellWidth: '64', cellHeight: '32' });
+    expect(result).toMatchObject({ background: '#ffffff00', cellWidth: 64, cellHeight: 32 });
+    expect(() => imageSheetQuerySchema.parse({ cellWidth: '2001' })).toThrow();
+    expect(() => imageSheetQuerySchema.parse({ fit: 'inside' })).toThrow();
+  });
+
+  it('should reject quality for formats without it', () => {
+    expect(() => imageSheetQuerySchema.parse({ format: 'gif', quality: '80' })).toThrow();
+    expect(imageSheetQuerySchema.parse({ format: 'webp', quality: '80' }).quality).toBe(80);
+  });
+});
+
+describe('imageCompareQuerySchema', () => {
+  it('should default to pHash', () => {
+    expect(imageCompareQuerySchema.parse({})).toEqual({ algorithm: 'phash' });
+  });
+
+  it('should accept a 64-bit hex hash', () => {
+    expect(imageCompareQuerySchema.parse({ algorithm: 'DHASH', hash: '00FF00FF00FF00FF' })).toEqual({
+      algorithm: 'dhash',
+      hash: '00ff00ff00ff00ff',
+    });
+    expect(() => imageCompareQuerySchema.parse({ hash: '00ff' })).toThrow();
+    expect(() => imageCompareQuerySchema.parse({ hash: 'zzzzzzzzzzzzzzzz' })).toThrow();
+    expect(() => imageCompareQuerySchema.parse({ algorithm: 'md5' })).toThrow();
+  });
+});
+
+describe('imagePlaceholderQuerySchema', () => {
+  it('should apply defaults', () => {
+    expect(imagePlaceholderQuerySchema.parse({})).toEqual({
+      componentsX: 4,
+      componentsY: 3,
+      lqipWidth: 16,
+      lqipFormat: 'webp',
+    });
+  });
+
+  it('should bound components and LQIP width', () => {
+    expect(() => imagePlaceholderQuerySchema.parse({ componentsY: '0' })).toThrow();
+    expect(() => imagePlaceholderQuerySchema.parse({ lqipWidth: '65' })).toThrow();
+    expect(() => imagePlaceholderQuerySchema.parse({ lqipFormat: 'avif' })).toThrow();
+  });
+});
+
+describe('imageCardQuerySchema', () => {
+  it('should require a template and default to PNG', () => {
+    expect(imageCardQuerySchema.parse({ template: 'Release-V1' })).toEqual({ template: 'release-v1', format: 'png' });
+    expect(() => imageCardQuerySchema.parse({})).toThrow();
+    expect(() => imageCardQuerySchema.parse({ template: '../release' })).toThrow();
+  });
+
+  it('should validate the accent, cover URL and encoder options', () => {
+    expect(imageCardQuerySchema.parse({ template: 'x', accent: 'FF0000' }).accent).toBe('#ff0000');
+    expect(() => imageCardQuerySchema.parse({ template: 'x', coverUrl: 'not a url' })).toThrow();
+    expect(() => imageCardQuerySchema.parse({ template: 'x', format: 'gif' })).toThrow();
+    expect(() => imageCardQuerySchema.parse({ template: 'x', format: 'png', quality: '80' })).not.toThrow();
+  });
+});
+
+describe('cardTemplateSchema', () => {
+  const field = { x: 0, y: 20, width: 100, fontSize: 12 };
+
+  it('should apply field defaults', () => {
+    const template = cardTemplateSchema.parse({ width: 100, height: 50, fields: { title: field } });
+    expect(template.accent).toBe('#444444');
+    expect(template.fields.title).toMatchObject({ anchor: 'start', maxLines: 1, required: false, fill: '#ffffff' });
+  });
+
+  it('should reject empty, unknown and inconsistent layouts', () => {
+    expect(() => cardTemplateSchema.parse({ width: 100, height: 50, fields: {} })).toThrow();
+    expect(() =>
+      cardTemplateSchema.parse({ width: 100, height: 50, fields: { title: { ...field, font: 'x' } } })
+    ).toThrow();
+    expect(() =>
+      cardTemplateSchema.parse({ width: 100, height: 50, fields: { title: { ...field, minFontSize: 20 } } })
+    ).toThrow();
+    expect(() =>
+      cardTemplateSchema.parse({ width: 100, height: 50, fields: { title: { ...field, fill: 'red' } } })
+    ).toThrow();
+  });
+});
+
+describe('imageUploadPolicySchema', () => {
+  it('should accept a policy with formats and size rules', () => {
+    const policy = { formats: ['jpeg', 'png'], minWidth: 100, maxAspect: 2, maxMegapixels: 12.5 };
+    expect(imageUploadPolicySchema.parse(policy)).toEqual(policy);
+  });
+
+  it('should require known formats and reject unknown rules', () => {
+    expect(() => imageUploadPolicySchema.parse({ formats: [] })).toThrow();
+    expect(() => imageUploadPolicySchema.parse({ formats: ['bmp'] })).toThrow();
+    expect(() => imageUploadPolicySchema.parse({ formats: ['png'], maxBytes: 1000 })).toThrow();
+  });
+
+  it('should reject a minimum above its maximum', () => {
+    const result = imageUploadPolicySchema.safeParse({ formats: ['png'], minAspect: 2, maxAspect: 1 });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ path: ['minAspect'] });
+  });
+});
+
+describe('uploadPolicyQuerySchema', () => {
+  it('should lower-case policy names', () => {
+    expect(uploadPolicyQuerySchema.parse({ policy: 'Avatar' })).toEqual({ policy: 'avatar' });
+    expect(uploadPolicyQuerySchema.parse({})).toEqual({});
+  });
+
+  it('should reject malformed names', () => {
+    expect(() => uploadPolicyQuerySchema.parse({ policy: '../avatar' })).toThrow();
+    expect(() => uploadPolicyQuerySchema.parse({ policy: '' })).toThrow();
+  });
 });
 
 describe('audioPeaksQuerySchema', () => {
@@ -95,4 +508,130 @@ describe('audioPeaksQuerySchema', () => {
     const result = audioPeaksQuerySchema.parse({ debug: 'info' });
     expect(result.debug).toBe('info');
   });
+
+  it('should default to mono peaks output', () => {
+    expect(audioPeaksQuerySchema.parse({})).toMatchObject({ output: 'peaks', splitChannels: false });
+    expect(audioPeaksQuerySchema.parse({ output: 'Waveform', splitChannels: 'true' })).toMatchObject({
+      output: 'waveform',
+      splitChannels: true,
+    });
+    expect(() => audioPeaksQuerySchema.parse({ output: 'dat' })).toThrow();
+  });
+
+  it('should leave the format to content negotiation unless given', () => {
+    expect(audioPeaksQuerySchema.parse({}).format).toBeUndefined();
+    expect(audioPeaksQuerySchema.parse({ format: 'DAT' }).format).toBe('dat');
+    expect(() => audioPeaksQuerySchema.parse({ format: 'csv' })).toThrow();
+  });
+});
+
+describe('audioInfoQuerySchema', () => {
+  it('should default to JSON output and accept cover', () => {
+    expect(audioInfoQuerySchema.parse({}).output).toBe('json');
+    expect(audioInfoQuerySchema.parse({ output: 'Cover' }).output).toBe('cover');
+    expect(() => audioInfoQuerySchema.parse({ output: 'tags' })).toThrow();
+  });
+});
+
+describe('audioConvertQuerySchema', () => {
+  it('should default to mp3 keeping tags and artwork', () => {
+    expect(audioConvertQuerySchema.parse({})).toEqual({
+      format: 'mp3',
+      mono: false,
+      preserveTags: true,
+      preserveArtwork: true,
+    });
+    expect(audioConvertQuerySchema.parse({ format: 'OGG', codec: 'Opus', sampleRate: '48000' })).toMatchObject({
+      format: 'ogg',
+      codec: 'opus',
+      sampleRate: 48000,
+    });
+  });
+
+  it('should reject codecs the format cannot hold', () => {
+    const result = audioConvertQuerySchema.safeParse({ format: 'wav', codec: 'mp3' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('wav can hold pcm_s16le, pcm_s24le, not mp3');
+  });
+
+  it('should only take bitrates for lossy codecs', () => {
+    expect(audioConvertQuerySchema.safeParse({ format: 'flac', bitrate: '320' }).success).toBe(false);
+    expect(audioConvertQuerySchema.safeParse({ format: 'aac', bitrateMode: 'vbr' }).success).toBe(false);
+    expect(audioConvertQuerySchema.safeParse({ bitrate: '4' }).success).toBe(false);
+    expect(audioConvertQuerySchema.safeParse({ bitrate: '256', bitrateMode: 'vbr' }).success).toBe(true);
+  });
+
+  it('should limit sample rates to what the codec supports', () => {
+    expect(audioConvertQuerySchema.safeParse({ sampleRate: '44000' }).success).toBe(false);
+    expect(audioConvertQuerySchema.safeParse({ sampleRate: '96000' }).success).toBe(false);
+    expect(audioConvertQuerySchema.safeParse({ format: 'webm', sampleRate: '44100' }).success).toBe(false);
+    expect(audioConvertQuerySchema.safeParse({ format: 'flac', sampleRate: '96000' }).success).toBe(true);
+  });
+});
+
+describe('audioPreviewQuerySchema', () => {
+  it('should default to an auto-placed, normalised 30s mp3 clip', () => {
+    expect(audioPreviewQuerySchema.parse({})).toMatchObject({
+      start: 'auto',
+      duration: 30,
+      fadeIn: 1,
+      fadeOut: 2,
+      normalize: true,
+      loudness: -14,
+      samples: 200,
+      format: 'mp3',
+      output: 'zip',
+    });
+  });
+
+  it('should accept a start in seconds or auto', () => {
+    expect(audioPreviewQuerySchema.parse({ start: '42.5' }).start).toBe(42.5);
+    expect(audioPreviewQuerySchema.parse({ start: 'AUTO' }).start).toBe('auto');
+    const result = audioPreviewQuerySchema.safeParse({ start: '-5' });
+    expect(result.error?.issues[0].message).toBe('Expected seconds (e.g. 42.5) or auto');
+  });
+
+  it('should reject fades longer than the clip and invalid encodings', () => {
+    const result = audioPreviewQuerySchema.safeParse({ duration: '5', fadeIn: '3', fadeOut: '3' });
+    expect(result.error?.issues[0].message).toBe('fadeIn and fadeOut together cannot exceed the 5s duration');
+    expect(audioPreviewQuerySchema.safeParse({ duration: '121' }).success).toBe(false);
+    expect(audioPreviewQuerySchema.safeParse({ format: 'flac', bitrate: '128' }).success).toBe(false);
+  });
+});
+
+describe('audioWaveformImageQuerySchema', () => {
+  it('should default to grey SVG bars without progress', () => {
+    expect(audioWaveformImageQuerySchema.parse({})).toMatchObject({
+      format: 'svg',
+      style: 'bars',
+      width: 800,
+      height: 120,
+      barWidth: 3,
+      barGap: 1,
+      color: '#999999',
+      progress: 0,
+      progressColor: '#333333',
+    });
+  });
+
+  it('should parse colours and the progress fraction', () => {
+    const result = audioWaveformImageQuerySchema.parse({
+      format: 'PNG',
+      color: 'FF5500',
+      gradientColor: '#220000',
+      progress: '0.4',
+      background: 'ffffff00',
+    });
+    expect(result).toMatchObject({ format: 'png', color: '#ff5500', gradientColor: '#220000', progress: 0.4 });
+    expect(result.background).toBe('#ffffff00');
+    expect(() => audioWaveformImageQuerySchema.parse({ progress: '1.5' })).toThrow();
+    expect(() => audioWaveformImageQuerySchema.parse({ format: 'jpg' })).toThrow();
+  });
+
+  it('should reject bars wider than the image', () => {
+    const result = audioWaveformImageQuerySchema.safeParse({ width: '16', barWidth: '32' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['barWidth']);
+    expect(audioWaveformImageQuerySchema.safeParse({ width: '16', barWidth: '32', style: 'path' }).success).toBe(true);
+  });
 });
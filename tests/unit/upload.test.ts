@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import * as path from 'path';
+import { Request, Response } from 'express';
+import { uploadFileName, uploadedFiles, cleanupUploads } from '../../src/middleware/upload';
+
+function uploaded(filePath: string): Express.Multer.File {
+  return { path: filePath } as Express.Multer.File;
+}
+
+describe('uploadFileName', () => {
+  it('should keep only allowed extensions', () => {
+    expect(uploadFileName('audio', 'Track.MP3', ['mp3', 'wav'])).toMatch(/^audio_\d+_[0-9a-f]{16}\.mp3$/);
+    expect(uploadFileName('audio', 'track.exe', ['mp3', 'wav'])).toMatch(/^audio_\d+_[0-9a-f]{16}$/);
+    expect(uploadFileName('image', '../../etc/passwd.jpg')).toMatch(/^image_\d+_[0-9a-f]{16}$/);
+  });
+
+  it('should be unique per call', () => {
+    expect(uploadFileName('image', 'a.jpg')).not.toBe(uploadFileName('image', 'a.jpg'));
+  });
+});
+
+describe('uploadedFiles', () => {
+  it('should list single, array and field uploads', () => {
+    expect(uploadedFiles({ file: uploaded('a') } as Request)).toEqual([uploaded('a')]);
+    expect(uploadedFiles({ files: [uploaded('a'), uploaded('b')] } as unknown as Request)).toHaveLength(2);
+    expect(
+      uploadedFiles({ files: { image: [uploaded('a')], watermark: [uploaded('b')] } } as unknown as Request).map(
+        (file) => file.path
+      )
+    ).toEqual(['a', 'b']);
+    expect(uploadedFiles({} as Request)).toEqual([]);
+  });
+});
+
+describe('cleanupUploads', () => {
+  it('should delete uploaded files once the response closes', async () => {
+    const filePath = path.join(os.tmpdir(), uploadFileName('cleanup-test', 'x.bin'));
+    await fs.writeFile(filePath, 'upload');
+    const req = {} as Request;
+    const res = new EventEmitter() as unknown as Response;
+    let nextCalled = false;
+
+    cleanupUploads(req, res, () => {
+      nextCalled = true;
+    });
+    // multer fills in req.file after this middleware has run
+    req.file = uploaded(filePath);
+    expect(nextCalled).toBe(true);
+    await expect(fs.access(filePath)).resolves.toBeUndefined();
+
+    res.emit('close');
+    await expect
+      .poll(() =>
+        fs.access(filePath).then(
+          () => true,
+          () => false
+        )
+      )
+      .toBe(false);
+  });
+});
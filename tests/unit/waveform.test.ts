@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { audioWaveformImageQuerySchema } from '../../src/types';
+import {
+  renderWaveformImage,
+  renderWaveformSvg,
+  waveformPathData,
+  waveformPointCount,
+  WaveformImageOptions,
+} from '../../src/utils/waveform';
+import { pixelAt } from '../helpers/image';
+
+function waveformOptions(query: Record<string, string>): WaveformImageOptions {
+  return audioWaveformImageQuerySchema.parse(query);
+}
+
+describe('waveformPointCount', () => {
+  it('should fit as many bars as the width allows', () => {
+    expect(waveformPointCount(waveformOptions({ width: '800' }))).toBe(200);
+    expect(waveformPointCount(waveformOptions({ width: '20', barWidth: '4', barGap: '2' }))).toBe(3);
+  });
+
+  it('should take a point every 2px for a path', () => {
+    expect(waveformPointCount(waveformOptions({ width: '801', style: 'path' }))).toBe(401);
+  });
+});
+
+describe('waveformPathData', () => {
+  it('should centre mirrored bars and keep silence visible', () => {
+    const options = waveformOptions({ width: '16', height: '10', barWidth: '2', barGap: '1' });
+    expect(waveformPathData([1, 0], options)).toBe('M5 0h2v10h-2ZM8 4.5h2v1h-2Z');
+  });
+
+  it('should outline a path along both edges', () => {
+    const options = waveformOptions({ width: '20', height: '10', style: 'path' });
+    expect(waveformPathData([0.5, 1, 0], options)).toBe('M0 2.5L10 0L20 4.5L20 5.5L10 10L0 7.5Z');
+  });
+});
+
+describe('renderWaveformSvg', () => {
+  it('should add gradients and split the waveform at the progress point', () => {
+    const svg = renderWaveformSvg(
+      [1, 1],
+      waveformOptions({ width: '100', height: '20', gradientColor: 'ff0000', progress: '0.25' })
+    );
+    expect(svg).toContain('<linearGradient id="fill"');
+    expect(svg).toContain('<stop offset="1" stop-color="#ff0000"/>');
+    expect(svg).toContain('<clipPath id="played"><rect width="25" height="20"/></clipPath>');
+    expect(svg).toContain('<use href="#wave" fill="#333333" clip-path="url(#played)"/>');
+    expect(svg).toContain('<use href="#wave" fill="url(#fill)" clip-path="url(#remaining)"/>');
+  });
+
+  it('should draw the waveform once without progress', () => {
+    const svg = renderWaveformSvg([0.5], waveformOptions({ width: '16', height: '8', background: '00000080' }));
+    expect(svg).not.toContain('clipPath');
+    expect(svg).toContain('<rect width="16" height="8" fill="#000000" fill-opacity="0.502"/>');
+  });
+});
+
+describe('renderWaveformImage', () => {
+  it('should rasterise bars in the progress and normal colours', async () => {
+    const options = waveformOptions({
+      format: 'png',
+      width: '40',
+      height: '20',
+      color: 'ff0000',
+      progress: '0.5',
+      progressColor: '0000ff',
+    });
+    const data = await renderWaveformImage(new Array(waveformPointCount(options)).fill(1), options);
+
+    expect(await sharp(data).metadata()).toMatchObject({ format: 'png', width: 40, height: 20 });
+    expect(await pixelAt(data, 1, 10)).toEqual([0, 0, 255, 255]);
+    expect(await pixelAt(data, 37, 10)).toEqual([255, 0, 0, 255]);
+    expect((await pixelAt(data, 3, 10))[3]).toBe(0);
+  });
+
+  it('should return the SVG itself for format=svg', async () => {
+    const data = await renderWaveformImage([0.5, 0.5], waveformOptions({ width: '16', height: '8' }));
+    expect(data.toString()).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" width="16" height="8"/);
+  });
+});
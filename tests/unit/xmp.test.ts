@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { parseXmp } from '../../src/utils/xmp';
+
+const PACKET = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/"
+      xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/" xmp:CreatorTool="Lightroom &amp; Co">
+      <photoshop:Credit>Label Records</photoshop:Credit>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">Live at the Hall</rdf:li></rdf:Alt></dc:title>
+      <dc:subject><rdf:Bag><rdf:li>rock</rdf:li><rdf:li>live</rdf:li></rdf:Bag></dc:subject>
+      <dc:creator><rdf:Seq><rdf:li>Photographer</rdf:li></rdf:Seq></dc:creator>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+describe('parseXmp', () => {
+  it('should return null for missing or empty data', () => {
+    expect(parseXmp(undefined)).toBeNull();
+    expect(parseXmp(Buffer.alloc(0))).toBeNull();
+    expect(parseXmp(Buffer.from('<x:xmpmeta xmlns:x="adobe:ns:meta/"></x:xmpmeta>'))).toBeNull();
+  });
+
+  it('should parse attribute, text and list properties', () => {
+    expect(parseXmp(Buffer.from(PACKET))).toEqual({
+      'xmp:CreatorTool': 'Lightroom & Co',
+      'photoshop:Credit': 'Label Records',
+      'dc:title': 'Live at the Hall',
+      'dc:subject': ['rock', 'live'],
+      'dc:creator': ['Photographer'],
+    });
+  });
+
+  it('should decode numeric character references', () => {
+    const xmp = parseXmp(Buffer.from('<dc:rights>&#169; 2024 &#x4C;abel</dc:rights>'));
+    expect(xmp?.['dc:rights']).toBe('© 2024 Label');
+  });
+});